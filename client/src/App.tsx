@@ -8,6 +8,7 @@ import Home from "@/pages/Home";
 import AnalysisResultPage from "@/pages/AnalysisResult";
 import ComparePage from "@/pages/Compare";
 import MultiViewerPage from "@/pages/MultiViewer";
+import HistoryPage from "@/pages/History";
 
 function Router() {
   return (
@@ -16,6 +17,7 @@ function Router() {
       <Route path="/analysis/:id" component={AnalysisResultPage} />
       <Route path="/compare" component={ComparePage} />
       <Route path="/multi-viewer" component={MultiViewerPage} />
+      <Route path="/history" component={HistoryPage} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
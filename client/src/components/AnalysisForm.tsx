@@ -1,13 +1,53 @@
 import { useState, useRef } from "react";
 import { useCreateAnalysis } from "@/hooks/use-analysis";
-import { Upload, Search, FileText, Loader2, Atom, X } from "lucide-react";
+import { Upload, Search, FileText, Loader2, Atom, X, ChevronDown, SlidersHorizontal } from "lucide-react";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AnalysisConfigSchema, DEFAULT_ANALYSIS_CONFIG, type AnalysisConfig, type ModelMode } from "@shared/schema";
+
+type AltLocPolicy = AnalysisConfig["altLocPolicy"];
+
+export const STRUCTURE_EXTENSIONS = [".pdb", ".ent", ".cif", ".mmcif"];
+
+// Advanced settings are edited as text and validated against the shared schema on submit
+const DEFAULT_SETTINGS = {
+  neighborCutoff: String(DEFAULT_ANALYSIS_CONFIG.neighborCutoff),
+  polarCutoff: String(DEFAULT_ANALYSIS_CONFIG.polarCutoff),
+  gridSize: String(DEFAULT_ANALYSIS_CONFIG.gridSize),
+  hydrophobicResidues: DEFAULT_ANALYSIS_CONFIG.hydrophobicResidues.join(", "),
+  modelMode: DEFAULT_ANALYSIS_CONFIG.modelMode as ModelMode,
+  model: "",
+  consensusThreshold: String(DEFAULT_ANALYSIS_CONFIG.consensusThreshold),
+  altLocPolicy: DEFAULT_ANALYSIS_CONFIG.altLocPolicy as AltLocPolicy,
+  minOccupancy: String(DEFAULT_ANALYSIS_CONFIG.minOccupancy),
+  includeWaterContacts: DEFAULT_ANALYSIS_CONFIG.includeWaterContacts,
+};
+
+const ALTLOC_POLICIES: Array<{ value: AltLocPolicy; label: string }> = [
+  { value: "highest", label: "Highest occupancy" },
+  { value: "first", label: "First listed" },
+  { value: "all", label: "All (flagged)" },
+];
+
+const MODEL_MODES: Array<{ value: ModelMode; label: string; hint: string }> = [
+  { value: "single", label: "Single model", hint: "Analyze one model (the first unless a number is given)" },
+  { value: "all", label: "All models", hint: "Analyze every model and report per-contact occupancy" },
+  { value: "consensus", label: "Consensus", hint: "Keep contacts present in at least the given fraction of models" },
+];
+
+const NUMERIC_SETTINGS: Array<{ key: "neighborCutoff" | "polarCutoff" | "gridSize"; label: string; hint: string }> = [
+  { key: "neighborCutoff", label: "Neighbor cutoff (Å)", hint: "Atom pairs within this distance are analyzed" },
+  { key: "polarCutoff", label: "Polar cutoff (Å)", hint: "Maximum hydrogen bond donor–acceptor distance" },
+  { key: "gridSize", label: "Grid cell size (Å)", hint: "Spatial hash cell; must be ≥ neighbor cutoff" },
+];
 
 export function AnalysisForm() {
   const [mode, setMode] = useState<"pdb" | "upload">("pdb");
   const [protein, setProtein] = useState<{ name: string; pdbId?: string; filename?: string; content?: string } | null>(null);
   const [pdbInput, setPdbInput] = useState("");
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const createAnalysis = useCreateAnalysis();
@@ -16,10 +56,10 @@ export function AnalysisForm() {
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0];
-      if (!file.name.toLowerCase().endsWith('.pdb') && !file.name.toLowerCase().endsWith('.ent')) {
+      if (!STRUCTURE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
         toast({
           title: "Invalid file",
-          description: "Only .pdb and .ent files are supported",
+          description: "Only .pdb, .ent and .cif files are supported",
           variant: "destructive",
         });
         return;
@@ -66,11 +106,35 @@ export function AnalysisForm() {
       return;
     }
 
+    const parsedConfig = AnalysisConfigSchema.safeParse({
+      neighborCutoff: Number(settings.neighborCutoff),
+      polarCutoff: Number(settings.polarCutoff),
+      gridSize: Number(settings.gridSize),
+      hydrophobicResidues: settings.hydrophobicResidues.split(/[\s,]+/).filter(Boolean),
+      modelMode: settings.modelMode,
+      model: settings.modelMode === "single" && settings.model.trim() !== "" ? Number(settings.model) : undefined,
+      consensusThreshold: Number(settings.consensusThreshold),
+      altLocPolicy: settings.altLocPolicy,
+      minOccupancy: Number(settings.minOccupancy),
+      includeWaterContacts: settings.includeWaterContacts,
+    });
+    if (!parsedConfig.success) {
+      const issue = parsedConfig.error.issues[0];
+      setShowAdvanced(true);
+      toast({
+        title: "Invalid advanced settings",
+        description: `${issue.path.join(".")}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       await createAnalysis.mutateAsync({
         title: `Analysis: ${sourceProtein.name}`,
         proteinSource: { name: sourceProtein.name, pdbId: sourceProtein.pdbId, filename: sourceProtein.filename },
-        proteinContent: sourceProtein.content || ''
+        proteinContent: sourceProtein.content || '',
+        config: parsedConfig.data,
       });
       setPdbInput("");
     } catch (error) {
@@ -136,7 +200,7 @@ export function AnalysisForm() {
             </div>
           ) : (
             <div className="space-y-3">
-              <label className="text-sm font-medium">Upload .pdb File</label>
+              <label className="text-sm font-medium">Upload .pdb or .cif File</label>
               <div
                 onClick={() => fileInputRef.current?.click()}
                 className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all ${
@@ -147,7 +211,7 @@ export function AnalysisForm() {
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileChange}
-                  accept=".pdb,.ent"
+                  accept={STRUCTURE_EXTENSIONS.join(",")}
                   className="hidden"
                 />
                 <Upload className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -181,6 +245,152 @@ export function AnalysisForm() {
             </div>
           )}
 
+          <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced} className="border border-border rounded-lg">
+            <CollapsibleTrigger asChild>
+              <button
+                type="button"
+                className="w-full px-4 py-3 flex items-center justify-between text-sm font-medium hover:bg-muted/50 transition-colors rounded-lg"
+                data-testid="button-toggle-advanced"
+              >
+                <span className="flex items-center gap-2">
+                  <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+                  Advanced settings
+                </span>
+                <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${showAdvanced ? "rotate-180" : ""}`} />
+              </button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="px-4 pb-4 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {NUMERIC_SETTINGS.map(({ key, label, hint }) => (
+                  <div key={key} className="space-y-1">
+                    <label htmlFor={`setting-${key}`} className="text-xs font-medium">{label}</label>
+                    <input
+                      id={`setting-${key}`}
+                      type="number"
+                      step="0.1"
+                      value={settings[key]}
+                      onChange={(e) => setSettings({ ...settings, [key]: e.target.value })}
+                      className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      data-testid={`input-setting-${key}`}
+                    />
+                    <p className="text-[11px] text-muted-foreground">{hint}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="setting-hydrophobicResidues" className="text-xs font-medium">Hydrophobic residues</label>
+                <input
+                  id="setting-hydrophobicResidues"
+                  type="text"
+                  value={settings.hydrophobicResidues}
+                  onChange={(e) => setSettings({ ...settings, hydrophobicResidues: e.target.value.toUpperCase() })}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm font-mono uppercase focus:outline-none focus:ring-2 focus:ring-primary/20"
+                  data-testid="input-setting-hydrophobicResidues"
+                />
+                <p className="text-[11px] text-muted-foreground">Comma-separated residue names counted as hydrophobic contacts</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <label htmlFor="setting-modelMode" className="text-xs font-medium">Models (NMR ensembles)</label>
+                  <select
+                    id="setting-modelMode"
+                    value={settings.modelMode}
+                    onChange={(e) => setSettings({ ...settings, modelMode: e.target.value as ModelMode })}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
+                    data-testid="select-setting-modelMode"
+                  >
+                    {MODEL_MODES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-muted-foreground">{MODEL_MODES.find(m => m.value === settings.modelMode)?.hint}</p>
+                </div>
+                {settings.modelMode === "single" && (
+                  <div className="space-y-1">
+                    <label htmlFor="setting-model" className="text-xs font-medium">Model number</label>
+                    <input
+                      id="setting-model"
+                      type="number"
+                      step="1"
+                      min="1"
+                      placeholder="first"
+                      value={settings.model}
+                      onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                      className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      data-testid="input-setting-model"
+                    />
+                  </div>
+                )}
+                {settings.modelMode === "consensus" && (
+                  <div className="space-y-1">
+                    <label htmlFor="setting-consensusThreshold" className="text-xs font-medium">Consensus threshold</label>
+                    <input
+                      id="setting-consensusThreshold"
+                      type="number"
+                      step="0.05"
+                      value={settings.consensusThreshold}
+                      onChange={(e) => setSettings({ ...settings, consensusThreshold: e.target.value })}
+                      className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/20"
+                      data-testid="input-setting-consensusThreshold"
+                    />
+                    <p className="text-[11px] text-muted-foreground">Fraction of models (0.05–1)</p>
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <label htmlFor="setting-altLocPolicy" className="text-xs font-medium">Alternate locations</label>
+                  <select
+                    id="setting-altLocPolicy"
+                    value={settings.altLocPolicy}
+                    onChange={(e) => setSettings({ ...settings, altLocPolicy: e.target.value as AltLocPolicy })}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
+                    data-testid="select-setting-altLocPolicy"
+                  >
+                    {ALTLOC_POLICIES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-muted-foreground">Conformer kept for residues with altLoc records</p>
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="setting-minOccupancy" className="text-xs font-medium">Minimum occupancy</label>
+                  <input
+                    id="setting-minOccupancy"
+                    type="number"
+                    step="0.05"
+                    value={settings.minOccupancy}
+                    onChange={(e) => setSettings({ ...settings, minOccupancy: e.target.value })}
+                    className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/20"
+                    data-testid="input-setting-minOccupancy"
+                  />
+                  <p className="text-[11px] text-muted-foreground">Atoms below this occupancy are ignored</p>
+                </div>
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2 text-xs font-medium pt-6">
+                    <input
+                      type="checkbox"
+                      checked={settings.includeWaterContacts}
+                      onChange={(e) => setSettings({ ...settings, includeWaterContacts: e.target.checked })}
+                      className="rounded border-border"
+                      data-testid="checkbox-setting-includeWaterContacts"
+                    />
+                    Include direct water contacts
+                  </label>
+                  <p className="text-[11px] text-muted-foreground">Water bridges are reported either way</p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setSettings(DEFAULT_SETTINGS)}
+                className="text-xs text-primary hover:underline"
+                data-testid="button-reset-advanced"
+              >
+                Reset to defaults
+              </button>
+            </CollapsibleContent>
+          </Collapsible>
+
           <button
             type="submit"
             disabled={createAnalysis.isPending || (!protein && !(mode === "pdb" && pdbInput.length === 4))}
@@ -190,7 +400,7 @@ export function AnalysisForm() {
             {createAnalysis.isPending ? (
               <>
                 <Loader2 className="w-5 h-5 animate-spin" />
-                Analyzing...
+                Submitting...
               </>
             ) : (
               <>Analyze Interactions</>
@@ -0,0 +1,122 @@
+import { BindingSite } from "@shared/schema";
+import { ChevronDown, Crosshair, Download } from "lucide-react";
+import { useState } from "react";
+import clsx from "clsx";
+
+interface BindingSitesProps {
+  sites?: BindingSite[];
+  focusedLigandId?: string | null;
+  onFocus: (site: BindingSite | null) => void;
+  downloadUrl: (ligandId: string) => string;
+}
+
+export function BindingSites({ sites, focusedLigandId, onFocus, downloadUrl }: BindingSitesProps) {
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+
+  if (!sites || sites.length === 0) {
+    return <div className="text-center text-muted-foreground py-8">No ligands detected (waters and ions are excluded)</div>;
+  }
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="text-sm font-semibold text-muted-foreground px-2 py-1">Binding Sites</div>
+      <div className="space-y-1">
+        {sites.map((site) => {
+          const isExpanded = expandedRow === site.ligandId;
+          const isFocused = focusedLigandId === site.ligandId;
+          const totalContacts = Object.values(site.interactionCounts).reduce((sum, n) => sum + n, 0);
+
+          return (
+            <div
+              key={site.ligandId}
+              className={clsx("border rounded-lg bg-white overflow-hidden", isFocused ? "border-primary" : "border-border")}
+            >
+              <div className="flex items-center">
+                <button
+                  onClick={() => setExpandedRow(isExpanded ? null : site.ligandId)}
+                  data-testid={`button-ligand-${site.ligandId}`}
+                  className="flex-1 px-4 py-3 flex items-center justify-between hover:bg-muted/50 transition-colors text-sm"
+                >
+                  <div className="flex items-center gap-3 flex-1 text-left">
+                    <div className="flex-1">
+                      <div className="font-mono text-xs font-semibold text-foreground">
+                        {site.residueName} {site.residueSeq}
+                        <span className="ml-2 text-muted-foreground font-normal">Chain {site.chainId} · {site.atomCount} atoms</span>
+                      </div>
+                    </div>
+                    <div className="flex gap-4 text-xs">
+                      <div className="text-right">
+                        <div className="text-muted-foreground">Residues</div>
+                        <div className="font-semibold text-foreground">{site.residues.length}</div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-muted-foreground">Contacts</div>
+                        <div className="font-semibold text-foreground">{totalContacts}</div>
+                      </div>
+                    </div>
+                  </div>
+                  <ChevronDown className={`w-4 h-4 ml-3 text-muted-foreground transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+                </button>
+                <button
+                  onClick={() => onFocus(isFocused ? null : site)}
+                  className={clsx(
+                    "p-3 border-l border-border transition-colors",
+                    isFocused ? "text-primary bg-primary/5" : "text-muted-foreground hover:bg-muted/50"
+                  )}
+                  title={isFocused ? "Reset viewer" : "Focus pocket in viewer"}
+                  data-testid={`button-focus-ligand-${site.ligandId}`}
+                >
+                  <Crosshair className="w-4 h-4" />
+                </button>
+                <a
+                  href={downloadUrl(site.ligandId)}
+                  className="p-3 border-l border-border text-muted-foreground hover:bg-muted/50 transition-colors"
+                  title="Download contacts (CSV)"
+                  data-testid={`link-download-ligand-${site.ligandId}`}
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+              </div>
+
+              {isExpanded && (
+                <div className="px-4 py-3 bg-muted/30 border-t border-border space-y-3 text-sm">
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(site.interactionCounts).map(([type, count]) => (
+                      <span key={type} className="text-xs px-2 py-0.5 rounded-full bg-white border border-border">
+                        {type}: <span className="font-semibold">{count}</span>
+                      </span>
+                    ))}
+                  </div>
+                  {site.residues.length > 0 ? (
+                    <table className="w-full text-xs">
+                      <thead className="text-muted-foreground">
+                        <tr>
+                          <th className="text-left font-semibold py-1">Residue</th>
+                          <th className="text-left font-semibold py-1">Types</th>
+                          <th className="text-right font-semibold py-1">Contacts</th>
+                          <th className="text-right font-semibold py-1">Min (Å)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {site.residues.map(residue => (
+                          <tr key={`${residue.chainId}-${residue.residueSeq}-${residue.residueName}`}>
+                            <td className="py-1 font-mono">{residue.chainId}:{residue.residueName} {residue.residueSeq}</td>
+                            <td className="py-1">{residue.interactionTypes.join(", ")}</td>
+                            <td className="py-1 text-right font-mono">{residue.contactCount}</td>
+                            <td className="py-1 text-right font-mono">{residue.minDistance.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div className="text-xs text-muted-foreground">No contacts within the neighbor cutoff</div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
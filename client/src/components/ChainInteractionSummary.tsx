@@ -2,6 +2,9 @@ import { AnalysisResult } from "@shared/schema";
 import { ChevronDown } from "lucide-react";
 import { useState } from "react";
 
+// Bonded/specific contact types called out separately in the expanded row
+const HIGHLIGHTED_TYPES = ["Disulfide Bond", "Metal Coordination", "Halogen Bond", "Salt Bridge", "Hydrogen Bond", "Water Bridge"];
+
 interface ChainInteractionSummaryProps {
   data?: AnalysisResult["chainInteractionSummary"];
 }
@@ -35,6 +38,12 @@ export function ChainInteractionSummary({ data }: ChainInteractionSummaryProps)
                     </div>
                   </div>
                   <div className="flex gap-4 text-xs">
+                    {item.buriedSurfaceArea != null && (
+                      <div className="text-right">
+                        <div className="text-muted-foreground">BSA (Å²)</div>
+                        <div className="font-semibold text-foreground" data-testid={`text-chain-bsa-${idx}`}>{item.buriedSurfaceArea.toFixed(0)}</div>
+                      </div>
+                    )}
                     <div className="text-right">
                       <div className="text-muted-foreground">Total</div>
                       <div className="font-semibold text-foreground" data-testid={`text-chain-total-${idx}`}>{item.totalCount}</div>
@@ -58,6 +67,26 @@ export function ChainInteractionSummary({ data }: ChainInteractionSummaryProps)
                     <div className="text-xs text-muted-foreground font-semibold mb-1">Inter-Chain</div>
                     <div className="text-lg font-bold text-blue-600" data-testid={`text-chain-inter-${idx}`}>{item.interCount}</div>
                   </div>
+                  {item.typeCounts && (
+                    <div className="col-span-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                      {HIGHLIGHTED_TYPES.filter(type => item.typeCounts[type]).map(type => (
+                        <div key={type} data-testid={`text-chain-type-${idx}-${type.replace(/\s+/g, "-").toLowerCase()}`}>
+                          <span className="text-muted-foreground">{type}:</span>{" "}
+                          <span className="font-semibold text-foreground">{item.typeCounts[type]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {item.buriedSurfaceArea != null && (
+                    <div className="col-span-2 text-xs space-y-1">
+                      <div className="text-muted-foreground font-semibold">
+                        Interface by ΔSASA ({item.interfaceResidues.length} residues)
+                      </div>
+                      <div className="font-mono text-foreground break-words" data-testid={`text-chain-interface-${idx}`}>
+                        {item.interfaceResidues.length > 0 ? item.interfaceResidues.join(", ") : "None"}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
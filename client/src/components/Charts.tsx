@@ -1,9 +1,9 @@
 import { useMemo } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { Interaction } from '@shared/schema';
+import { InteractionStats } from '@shared/schema';
 
 interface InteractionChartsProps {
-  interactions: Interaction[];
+  stats?: InteractionStats;
 }
 
 const COLORS = [
@@ -15,37 +15,15 @@ const COLORS = [
   '#7c3aed', // Violet 600
 ];
 
-export function InteractionCharts({ interactions }: InteractionChartsProps) {
+// Counts are aggregated server-side so the charts cover every interaction, not just a loaded page
+export function InteractionCharts({ stats }: InteractionChartsProps) {
   const typeData = useMemo(() => {
-    const counts: Record<string, number> = {};
-    interactions.forEach(i => {
-      counts[i.type] = (counts[i.type] || 0) + 1;
-    });
-    return Object.entries(counts).map(([name, value]) => ({ name, value }));
-  }, [interactions]);
+    return Object.entries(stats?.typeCounts ?? {}).map(([name, value]) => ({ name, value }));
+  }, [stats]);
 
-  const distData = useMemo(() => {
-      // Buckets for distance: <2.5, 2.5-3.0, 3.0-3.5, 3.5-4.0, >4.0
-      const buckets = [
-          { name: '< 2.5Å', max: 2.5, count: 0 },
-          { name: '2.5-3.0Å', max: 3.0, count: 0 },
-          { name: '3.0-3.5Å', max: 3.5, count: 0 },
-          { name: '3.5-4.0Å', max: 4.0, count: 0 },
-          { name: '> 4.0Å', max: 999, count: 0 },
-      ];
+  const distData = stats?.distanceBins ?? [];
 
-      interactions.forEach(i => {
-          for (const b of buckets) {
-              if (i.distance <= b.max) {
-                  b.count++;
-                  break;
-              }
-          }
-      });
-      return buckets;
-  }, [interactions]);
-
-  if (interactions.length === 0) return null;
+  if (typeData.length === 0) return null;
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -0,0 +1,163 @@
+import { useRef, useState } from "react";
+import { useAnalysisList } from "@/hooks/use-analysis";
+import { useToast } from "@/hooks/use-toast";
+import { STRUCTURE_EXTENSIONS } from "@/components/AnalysisForm";
+import { FileText, Upload, X } from "lucide-react";
+import type { CompareSource } from "@shared/schema";
+
+type SourceMode = "pdb" | "upload" | "session";
+
+const SOURCE_MODES: Array<{ value: SourceMode; label: string }> = [
+  { value: "pdb", label: "PDB ID" },
+  { value: "upload", label: "Upload" },
+  { value: "session", label: "Analysis" },
+];
+
+interface CompareSourcePickerProps {
+  label: string;
+  testId: string;
+  value: CompareSource | null;
+  onChange: (source: CompareSource | null) => void;
+  onRemove?: () => void;
+}
+
+function initialMode(value: CompareSource | null): SourceMode {
+  if (value?.content !== undefined) return "upload";
+  if (value?.sessionId !== undefined) return "session";
+  return "pdb";
+}
+
+// One structure of the comparison form: an RCSB ID, an uploaded file or a completed analysis
+export function CompareSourcePicker({ label, testId, value, onChange, onRemove }: CompareSourcePickerProps) {
+  const [mode, setMode] = useState<SourceMode>(() => initialMode(value));
+  const [pdbInput, setPdbInput] = useState(value?.pdbId ?? "");
+  const [filename, setFilename] = useState<string | null>(value?.content !== undefined ? value.name ?? null : null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { data: sessions, isLoading: sessionsLoading } = useAnalysisList({ page: 1, pageSize: 100, status: "completed" });
+
+  const switchMode = (next: SourceMode) => {
+    setMode(next);
+    setPdbInput("");
+    setFilename(null);
+    onChange(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const file = e.target.files[0];
+      if (!STRUCTURE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
+        toast({
+          title: "Invalid file",
+          description: "Only .pdb, .ent and .cif files are supported",
+          variant: "destructive",
+        });
+        return;
+      }
+      setFilename(file.name);
+      onChange({ name: file.name.split('.')[0], content: await file.text() });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">{label}</div>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1 hover:bg-muted rounded transition-colors"
+            title="Remove structure"
+            data-testid={`button-${testId}-remove`}
+          >
+            <X className="w-4 h-4 text-muted-foreground" />
+          </button>
+        )}
+      </div>
+      <div className="flex bg-muted p-1 rounded-xl">
+        {SOURCE_MODES.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => switchMode(option.value)}
+            className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-all ${
+              mode === option.value ? "bg-white text-primary shadow-sm" : "text-muted-foreground"
+            }`}
+            data-testid={`button-${testId}-mode-${option.value}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "pdb" ? (
+        <input
+          type="text"
+          placeholder="e.g. 1CRN"
+          maxLength={4}
+          value={pdbInput}
+          onChange={(e) => {
+            const id = e.target.value.toUpperCase();
+            setPdbInput(id);
+            onChange(id.length === 4 ? { name: id, pdbId: id } : null);
+          }}
+          className="w-full px-4 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20 uppercase placeholder:normal-case font-mono"
+          data-testid={`input-${testId}-pdb`}
+        />
+      ) : mode === "upload" ? (
+        value?.content && filename ? (
+          <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileText className="w-4 h-4 text-primary shrink-0" />
+              <div className="min-w-0">
+                <div className="font-mono font-semibold text-sm truncate">{value.name}</div>
+                <div className="text-xs text-muted-foreground truncate">{filename}</div>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => { setFilename(null); onChange(null); }}
+              className="p-1 hover:bg-background rounded transition-colors"
+              data-testid={`button-${testId}-remove-file`}
+            >
+              <X className="w-4 h-4 text-destructive" />
+            </button>
+          </div>
+        ) : (
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-all border-border hover:border-primary/50"
+            data-testid={`dropzone-${testId}`}
+          >
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept={STRUCTURE_EXTENSIONS.join(",")}
+              className="hidden"
+            />
+            <Upload className="w-6 h-6 mx-auto mb-1 opacity-50" />
+            <span className="font-medium text-sm">Click to choose a .pdb or .cif file</span>
+          </div>
+        )
+      ) : (
+        <select
+          value={value?.sessionId ?? ""}
+          onChange={(e) => onChange(e.target.value ? { sessionId: Number(e.target.value) } : null)}
+          disabled={sessionsLoading}
+          className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid={`select-${testId}-session`}
+        >
+          <option value="">{sessionsLoading ? "Loading analyses…" : "Choose a completed analysis"}</option>
+          {sessions?.items.map(session => (
+            <option key={session.id} value={session.id}>
+              #{session.id} · {session.title}{session.pdbId ? ` (${session.pdbId})` : ""}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowUpDown, Trophy } from "lucide-react";
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import { clusterColor } from "@/lib/clusters";
+import type { ComparedEntry } from "@shared/schema";
+
+interface ComparisonRankingProps {
+  structures: ComparedEntry[];
+  referenceIndex: number;
+  selected: number[];
+  onToggle: (index: number) => void;
+}
+
+type SortKey = "rank" | "name" | "cluster" | "interChainInteractions" | "interfaceContacts" | "interfaceResidues"
+  | "interfaceHydrogenBonds" | "interfaceSaltBridges" | "jaccardToReference" | "rmsdToReference";
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric: boolean }> = [
+  { key: "rank", label: "Rank / BAI", numeric: true },
+  { key: "name", label: "Structure", numeric: false },
+  { key: "cluster", label: "Cluster", numeric: true },
+  { key: "interChainInteractions", label: "Inter-chain", numeric: true },
+  { key: "interfaceContacts", label: "Contacts", numeric: true },
+  { key: "interfaceResidues", label: "Residues", numeric: true },
+  { key: "interfaceHydrogenBonds", label: "H-bonds", numeric: true },
+  { key: "interfaceSaltBridges", label: "Salt bridges", numeric: true },
+  { key: "jaccardToReference", label: "Jaccard vs ref", numeric: true },
+  { key: "rmsdToReference", label: "RMSD vs ref (Å)", numeric: true },
+];
+
+// Ranking table of the compared structures; two rows can be selected for a
+// side-by-side comparison
+export function ComparisonRanking({ structures, referenceIndex, selected, onToggle }: ComparisonRankingProps) {
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "rank", desc: false });
+
+  const rows = useMemo(() => {
+    const value = (entry: ComparedEntry) => entry[sort.key];
+    return structures.slice().sort((x, y) => {
+      const a = value(x);
+      const b = value(y);
+      // Missing RMSDs sort last either way
+      if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+      const order = typeof a === "string" ? a.localeCompare(b as string) : a - (b as number);
+      return sort.desc ? -order : order;
+    });
+  }, [structures, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(current => current.key === key ? { key, desc: !current.desc } : { key, desc: key !== "rank" && key !== "name" && key !== "rmsdToReference" });
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Trophy className="w-4 h-4" />
+          Ranking
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            Select two structures to compare them side by side
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground border-b border-border">
+              <th className="py-1" />
+              {COLUMNS.map(column => (
+                <th key={column.key} className={clsx("py-1 px-1 whitespace-nowrap", column.numeric ? "text-right" : "text-left")}>
+                  <button type="button" onClick={() => toggleSort(column.key)} className="inline-flex items-center gap-1 hover:text-foreground">
+                    {column.label}
+                    <ArrowUpDown className={clsx("w-3 h-3", sort.key === column.key ? "opacity-100" : "opacity-30")} />
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(entry => (
+              <tr
+                key={entry.index}
+                className={clsx("border-b border-border/50", selected.includes(entry.index) && "bg-primary/5")}
+                data-testid={`row-ranking-${entry.index}`}
+              >
+                <td className="py-1">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.index)}
+                    onChange={() => onToggle(entry.index)}
+                    disabled={!selected.includes(entry.index) && selected.length >= 2}
+                    data-testid={`checkbox-ranking-${entry.index}`}
+                  />
+                </td>
+                <td className="py-1 px-1 text-right whitespace-nowrap">
+                  <span className="font-bold">#{entry.rank}</span>{" "}
+                  <span className="text-muted-foreground">{entry.bindingAffinityIndex.toFixed(1)}</span>
+                </td>
+                <td className="py-1 px-1 font-medium">
+                  <span className="flex items-center gap-2">
+                    {entry.name}
+                    {entry.index === referenceIndex && <Badge variant="outline" className="text-[10px] px-1.5 py-0">ref</Badge>}
+                  </span>
+                  {entry.bindingCategory && <span className="block text-[10px] text-muted-foreground">{entry.bindingCategory}</span>}
+                </td>
+                <td className="py-1 px-1 text-right">
+                  <span className="inline-flex items-center gap-1">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: clusterColor(entry.cluster) }} />
+                    {entry.cluster}
+                  </span>
+                </td>
+                <td className="py-1 px-1 text-right">{entry.interChainInteractions}</td>
+                <td className="py-1 px-1 text-right">{entry.interfaceContacts}</td>
+                <td className="py-1 px-1 text-right">{entry.interfaceResidues}</td>
+                <td className="py-1 px-1 text-right">{entry.interfaceHydrogenBonds}</td>
+                <td className="py-1 px-1 text-right">{entry.interfaceSaltBridges}</td>
+                <td className="py-1 px-1 text-right">{entry.jaccardToReference.toFixed(3)}</td>
+                <td className="py-1 px-1 text-right">{entry.rmsdToReference === null ? "—" : entry.rmsdToReference.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,60 +2,65 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Download, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { ComparisonResult, PairwiseComparison } from "@shared/schema";
 
 interface ComparisonReportProps {
-  pdbA: string;
-  pdbB: string;
-  results: any;
+  results: ComparisonResult;
+  // Side-by-side comparison currently shown, if any
+  pair: PairwiseComparison | null;
 }
 
-export function ComparisonReport({ pdbA, pdbB, results }: ComparisonReportProps) {
+export function ComparisonReport({ results, pair }: ComparisonReportProps) {
   const { toast } = useToast();
 
   const generateCSVReport = () => {
     if (!results) return;
+    const { structures, similarity, clustering } = results;
+    const names = structures.map(s => csvField(s.name));
 
     const lines: string[] = [];
     lines.push("Structure Comparison Report");
     lines.push(`Generated: ${new Date().toISOString()}`);
+    lines.push(`Structures,${structures.length}`);
+    lines.push(`Reference,${names[results.referenceIndex]}`);
     lines.push("");
-    lines.push("COMPARISON SUMMARY");
-    lines.push(`Structure A,${pdbA}`);
-    lines.push(`Structure B,${pdbB}`);
-    lines.push(`Binding Affinity Difference,${results.comparison.deltaBAI.toFixed(2)} BAI Units`);
-    lines.push(`Percent Difference,${results.comparison.percentDiff.toFixed(2)}%`);
-    lines.push(`Winner,${results.comparison.winner === 'A' ? pdbA : pdbB}`);
+
+    lines.push("RANKING");
+    lines.push("Rank,Structure,Cluster,Binding Affinity Index,Category,Total Interactions,Inter-Chain Interactions,Interface Contacts,Interface Residues,Interface H-Bonds,Interface Salt Bridges,Jaccard vs Reference,RMSD vs Reference");
+    structures.slice().sort((x, y) => x.rank - y.rank).forEach(s => {
+      lines.push([
+        s.rank, names[s.index], s.cluster, s.bindingAffinityIndex.toFixed(2), s.bindingCategory ?? "N/A", s.totalInteractions,
+        s.interChainInteractions, s.interfaceContacts, s.interfaceResidues, s.interfaceHydrogenBonds, s.interfaceSaltBridges,
+        s.jaccardToReference.toFixed(3), s.rmsdToReference?.toFixed(3) ?? "N/A",
+      ].join(","));
+    });
     lines.push("");
-    
-    lines.push("STRUCTURE A METRICS");
-    lines.push(`Binding Affinity Index,${results.resultA.bindingAffinity?.bindingAffinityIndex?.toFixed(2) || "N/A"}`);
-    lines.push(`Total Interactions,${results.resultA.interactions?.length || 0}`);
-    const interA = results.resultA.interactions?.filter((i: any) => !i.isIntraMolecular).length || 0;
-    lines.push(`Inter-Chain Interactions,${interA}`);
+
+    lines.push(`CLUSTERS (average linkage, ${clustering.metric === "interface" ? "1 - interface Jaccard" : "RMSD"} <= ${clustering.threshold})`);
+    lines.push("Cluster,Size,Representative,Members");
+    clustering.clusters.forEach(c => {
+      lines.push(`${c.id},${c.members.length},${names[c.representative]},${csvField(c.members.map(i => structures[i].name).join("; "))}`);
+    });
     lines.push("");
 
-    lines.push("STRUCTURE B METRICS");
-    lines.push(`Binding Affinity Index,${results.resultB.bindingAffinity?.bindingAffinityIndex?.toFixed(2) || "N/A"}`);
-    lines.push(`Total Interactions,${results.resultB.interactions?.length || 0}`);
-    const interB = results.resultB.interactions?.filter((i: any) => !i.isIntraMolecular).length || 0;
-    lines.push(`Inter-Chain Interactions,${interB}`);
+    lines.push("INTERFACE JACCARD MATRIX");
+    lines.push(`,${names.join(",")}`);
+    similarity.jaccard.forEach((row, i) => lines.push(`${names[i]},${row.map(v => v.toFixed(3)).join(",")}`));
     lines.push("");
 
-    lines.push("INTERACTION TYPE BREAKDOWN");
-    lines.push("Type,Structure A,Structure B");
-    const types = ["Hydrogen Bond", "Salt Bridge", "Hydrophobic", "Van der Waals"];
-    types.forEach(type => {
-      const countA = results.resultA.interactions?.filter((i: any) => i.type === type).length || 0;
-      const countB = results.resultB.interactions?.filter((i: any) => i.type === type).length || 0;
-      lines.push(`${type},${countA},${countB}`);
-    });
+    lines.push("CA RMSD MATRIX (Å)");
+    lines.push(`,${names.join(",")}`);
+    similarity.rmsd.forEach((row, i) => lines.push(`${names[i]},${row.map(v => v?.toFixed(3) ?? "N/A").join(",")}`));
+    lines.push("");
+
+    if (pair) appendPairSections(lines, pair);
 
     const csv = lines.join("\n");
     const blob = new Blob([csv], { type: "text/csv" });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `comparison_${pdbA}_vs_${pdbB}.csv`;
+    a.download = `comparison_${structures.length}_structures.csv`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(url);
@@ -84,3 +89,78 @@ export function ComparisonReport({ pdbA, pdbB, results }: ComparisonReportProps)
     </Card>
   );
 }
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Sections for the side-by-side comparison of two structures
+function appendPairSections(lines: string[], pair: PairwiseComparison) {
+  const { nameA: pdbA, nameB: pdbB } = pair;
+  lines.push(`PAIRWISE COMPARISON (A = ${csvField(pdbA)}, B = ${csvField(pdbB)})`);
+  lines.push(`Binding Affinity Difference,${pair.comparison.deltaBAI.toFixed(2)} BAI Units`);
+  lines.push(`Percent Difference,${pair.comparison.percentDiff.toFixed(2)}%`);
+  lines.push(`Stronger Predicted Binding,${csvField(pair.comparison.deltaBAI >= 0 ? pdbA : pdbB)}`);
+  lines.push("");
+
+  lines.push("STRUCTURE A METRICS");
+  lines.push(`Binding Affinity Index,${pair.resultA.bindingAffinity?.bindingAffinityIndex?.toFixed(2) || "N/A"}`);
+  lines.push(`Total Interactions,${pair.resultA.summary.totalInteractions}`);
+  lines.push(`Inter-Chain Interactions,${pair.resultA.summary.interProteinInteractions}`);
+  lines.push("");
+
+  lines.push("STRUCTURE B METRICS");
+  lines.push(`Binding Affinity Index,${pair.resultB.bindingAffinity?.bindingAffinityIndex?.toFixed(2) || "N/A"}`);
+  lines.push(`Total Interactions,${pair.resultB.summary.totalInteractions}`);
+  lines.push(`Inter-Chain Interactions,${pair.resultB.summary.interProteinInteractions}`);
+  lines.push("");
+
+  if (pair.superposition) {
+    lines.push("SUPERPOSITION (A onto B, CA atoms)");
+    lines.push(`Aligned Residues,${pair.superposition.alignedResidues}`);
+    lines.push(`RMSD,${pair.superposition.rmsd.toFixed(3)} Å`);
+    lines.push(`TM-score,${pair.superposition.tmScore.toFixed(4)}`);
+    lines.push("Chain A,Chain B,Aligned,Sequence Identity,RMSD");
+    pair.superposition.chains.forEach((c: any) => {
+      lines.push(`${c.chainA},${c.chainB},${c.alignedResidues},${c.sequenceIdentity.toFixed(3)},${c.rmsd.toFixed(3)}`);
+    });
+    lines.push("");
+  }
+
+  if (pair.sequenceAlignments?.length) {
+    lines.push(`SEQUENCE ALIGNMENT (${pair.sequenceAlignments[0].mode}, BLOSUM62)`);
+    lines.push("Chain A,Chain B,Aligned,Identity,Similarity,Gaps,Score,Interface Positions Aligned,Conserved Interface Positions");
+    pair.sequenceAlignments.forEach((a: any) => {
+      const shared = a.columns.filter((c: any) => c.interfaceA && c.interfaceB);
+      const conserved = shared.filter((c: any) => c.codeA === c.codeB).length;
+      lines.push(`${a.chainA},${a.chainB},${a.alignedResidues},${a.identity.toFixed(3)},${a.similarity.toFixed(3)},${a.gaps},${a.score},${shared.length},${conserved}`);
+    });
+    lines.push("");
+  }
+
+  if (pair.interfaceDiff) {
+    const diff = pair.interfaceDiff;
+    lines.push("INTERFACE CONTACT DIFF (A as reference)");
+    lines.push(`Contacts A,${diff.contactsA}`);
+    lines.push(`Contacts B,${diff.contactsB}`);
+    lines.push(`Conserved,${diff.conserved}`);
+    lines.push(`Lost,${diff.lost}`);
+    lines.push(`Gained,${diff.gained}`);
+    lines.push(`Jaccard,${diff.jaccard.toFixed(3)}`);
+    lines.push(`F-score,${diff.fScore.toFixed(3)}`);
+    lines.push("Chain Pair A,Chain Pair B,Contacts A,Contacts B,Conserved,Lost,Gained,Jaccard,F-score");
+    diff.chainPairs.forEach((p: any) => {
+      lines.push(`${p.chainPairA ?? ""},${p.chainPairB ?? ""},${p.contactsA},${p.contactsB},${p.conserved},${p.lost},${p.gained},${p.jaccard.toFixed(3)},${p.fScore.toFixed(3)}`);
+    });
+    lines.push("");
+  }
+
+  lines.push("INTERACTION TYPE BREAKDOWN");
+  lines.push("Type,Structure A,Structure B");
+  const types = ["Hydrogen Bond", "Salt Bridge", "Hydrophobic", "Van der Waals"];
+  types.forEach(type => {
+    const countA = pair.resultA.interactionStats.typeCounts[type] || 0;
+    const countB = pair.resultB.interactionStats.typeCounts[type] || 0;
+    lines.push(`${type},${countA},${countB}`);
+  });
+}
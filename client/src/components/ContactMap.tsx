@@ -0,0 +1,195 @@
+import { ContactMapCell } from "@shared/schema";
+import { useContactMap } from "@/hooks/use-analysis";
+import { Loader2, ZoomIn, ZoomOut } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+export interface ContactSelection {
+  chainA: string;
+  residueSeqA: number;
+  chainB: string;
+  residueSeqB: number;
+}
+
+interface ContactMapProps {
+  sessionId: number;
+  // "PROTEIN:CHAIN" keys
+  chains: string[];
+  selected?: ContactSelection | null;
+  onSelect: (selection: ContactSelection | null) => void;
+}
+
+// Map edge at zoom 1 and the largest canvas edge zooming may produce
+const BASE_EDGE = 400;
+const MAX_CANVAS_EDGE = 4096;
+// Distances at or below NEAR are drawn darkest, FAR and above lightest
+const NEAR = 2.5;
+const FAR = 5.0;
+
+function cellColor(distance: number): string {
+  const t = Math.min(1, Math.max(0, (distance - NEAR) / (FAR - NEAR)));
+  // blue-900 → blue-200
+  const mix = (from: number, to: number) => Math.round(from + (to - from) * t);
+  return `rgb(${mix(30, 191)}, ${mix(58, 219)}, ${mix(138, 254)})`;
+}
+
+export function ContactMap({ sessionId, chains, selected, onSelect }: ContactMapProps) {
+  const [chainA, setChainA] = useState<string | null>(chains[0] ?? null);
+  const [chainB, setChainB] = useState<string | null>(chains[1] ?? chains[0] ?? null);
+  const [zoom, setZoom] = useState(1);
+  const [hovered, setHovered] = useState<ContactMapCell | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { data, isLoading, error } = useContactMap(sessionId, chainA, chainB);
+
+  useEffect(() => {
+    if (!chainA && chains[0]) setChainA(chains[0]);
+    if (!chainB && chains[0]) setChainB(chains[1] ?? chains[0]);
+  }, [chains, chainA, chainB]);
+
+  const layout = useMemo(() => {
+    if (!data) return null;
+    const rows = new Map(data.residuesA.map((r, i) => [r.residueSeq, i]));
+    const cols = new Map(data.residuesB.map((r, i) => [r.residueSeq, i]));
+    const cellsByPosition = new Map(data.contacts.map(c => [`${rows.get(c.residueSeqA)}|${cols.get(c.residueSeqB)}`, c]));
+    const longest = Math.max(data.residuesA.length, data.residuesB.length, 1);
+    const base = Math.max(1, BASE_EDGE / longest);
+    const maxZoom = Math.max(1, Math.floor(MAX_CANVAS_EDGE / (base * longest)));
+    return { rows, cols, cellsByPosition, base, maxZoom };
+  }, [data]);
+
+  const cellSize = layout ? layout.base * Math.min(zoom, layout.maxZoom) : 1;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !data || !layout) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = data.residuesB.length * cellSize;
+    const height = data.residuesA.length * cellSize;
+    canvas.width = Math.ceil(width * dpr);
+    canvas.height = Math.ceil(height * dpr);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+
+    data.contacts.forEach(cell => {
+      const row = layout.rows.get(cell.residueSeqA);
+      const col = layout.cols.get(cell.residueSeqB);
+      if (row === undefined || col === undefined) return;
+      ctx.fillStyle = cellColor(cell.minDistance);
+      ctx.fillRect(col * cellSize, row * cellSize, Math.max(cellSize, 1), Math.max(cellSize, 1));
+    });
+
+    if (selected && selected.chainA === data.chainA && selected.chainB === data.chainB) {
+      const row = layout.rows.get(selected.residueSeqA);
+      const col = layout.cols.get(selected.residueSeqB);
+      if (row !== undefined && col !== undefined) {
+        ctx.strokeStyle = "#e11d48";
+        ctx.lineWidth = 2;
+        const pad = Math.max(2, cellSize);
+        ctx.strokeRect(col * cellSize - pad, row * cellSize - pad, cellSize + 2 * pad, cellSize + 2 * pad);
+      }
+    }
+  }, [data, layout, cellSize, selected]);
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>): ContactMapCell | null => {
+    if (!layout) return null;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const col = Math.floor((event.clientX - rect.left) / cellSize);
+    const row = Math.floor((event.clientY - rect.top) / cellSize);
+    return layout.cellsByPosition.get(`${row}|${col}`) ?? null;
+  };
+
+  const chainLabel = (key: string | null) => key?.split(":").pop() ?? "";
+
+  if (chains.length === 0) {
+    return <div className="text-center text-muted-foreground py-8">No chains available</div>;
+  }
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={chainA ?? ""}
+          onChange={(e) => { setChainA(e.target.value); onSelect(null); }}
+          className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid="select-contact-map-chain-a"
+        >
+          {chains.map(chain => <option key={chain} value={chain}>{chain}</option>)}
+        </select>
+        <span className="text-muted-foreground">vs</span>
+        <select
+          value={chainB ?? ""}
+          onChange={(e) => { setChainB(e.target.value); onSelect(null); }}
+          className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid="select-contact-map-chain-b"
+        >
+          {chains.map(chain => <option key={chain} value={chain}>{chain}</option>)}
+        </select>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setZoom(z => Math.max(1, z / 2))}
+            disabled={zoom <= 1}
+            className="p-1.5 rounded-lg border border-border hover:bg-muted/50 disabled:opacity-40"
+            title="Zoom out"
+            data-testid="button-contact-map-zoom-out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-10 text-center text-xs font-mono text-muted-foreground">{Math.min(zoom, layout?.maxZoom ?? zoom)}×</span>
+          <button
+            onClick={() => setZoom(z => Math.min(layout?.maxZoom ?? 1, z * 2))}
+            disabled={!layout || zoom >= layout.maxZoom}
+            className="p-1.5 rounded-lg border border-border hover:bg-muted/50 disabled:opacity-40"
+            title="Zoom in"
+            data-testid="button-contact-map-zoom-in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs font-mono text-muted-foreground h-4" data-testid="text-contact-map-hover">
+        {hovered
+          ? `${chainLabel(chainA)}:${hovered.residueNameA} ${hovered.residueSeqA} ↔ ${chainLabel(chainB)}:${hovered.residueNameB} ${hovered.residueSeqB} · ${hovered.minDistance.toFixed(2)} Å · ${hovered.count} contacts (${hovered.types.join(", ")})`
+          : data ? `${data.contacts.length} residue pairs in contact · rows ${chainA}, columns ${chainB}` : ""}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-muted-foreground" /></div>
+      ) : error ? (
+        <div className="text-center text-destructive text-sm py-8">{(error as Error).message}</div>
+      ) : data && data.contacts.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">No contacts between these chains</div>
+      ) : (
+        <div className="overflow-auto max-h-[480px] border border-border rounded-lg bg-white">
+          <canvas
+            ref={canvasRef}
+            className="cursor-crosshair block"
+            onMouseMove={(e) => setHovered(cellAt(e))}
+            onMouseLeave={() => setHovered(null)}
+            onClick={(e) => {
+              const cell = cellAt(e);
+              if (!cell || !data) return;
+              onSelect({ chainA: data.chainA, residueSeqA: cell.residueSeqA, chainB: data.chainB, residueSeqB: cell.residueSeqB });
+            }}
+            data-testid="canvas-contact-map"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+        <span>{NEAR} Å</span>
+        <span
+          className="h-2 w-24 rounded-sm"
+          style={{ background: `linear-gradient(to right, ${cellColor(NEAR)}, ${cellColor(FAR)})` }}
+        />
+        <span>≥ {FAR} Å (minimum heavy-atom distance)</span>
+      </div>
+    </div>
+  );
+}
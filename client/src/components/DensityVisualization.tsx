@@ -1,42 +1,231 @@
-import { AnalysisResult } from "@shared/schema";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from "recharts";
+import { AnalysisResult, ResidueProfileEntry } from "@shared/schema";
+import { BarChart, Bar, ComposedChart, Line, Brush, ReferenceArea, ReferenceLine, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { SS_ELEMENT_COLORS, ssColor } from "@/lib/secondary-structure";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+export interface DensityResidue {
+  // "PROTEIN:CHAIN" key
+  chain: string;
+  residueSeq: number;
+}
 
 interface DensityVisualizationProps {
   data?: AnalysisResult["interactionDensity"];
+  profile?: AnalysisResult["residueProfile"];
+  selected?: DensityResidue | null;
+  onSelect?: (residue: DensityResidue) => void;
+}
+
+const TOP_N = 15;
+// Fewest residues the zoomed profile window may show
+const MIN_WINDOW = 10;
+
+// Residue number with its secondary structure drawn as a block underneath
+function ResidueTick({ x, y, payload, ssByResidue }: { x?: number; y?: number; payload?: { value: number }; ssByResidue: Map<number, string | undefined> }) {
+  if (x === undefined || y === undefined || !payload) return null;
+  const ss = ssByResidue.get(payload.value);
+  return (
+    <g transform={`translate(${x},${y})`}>
+      <text x={0} y={0} dy={12} textAnchor="middle" fontSize={12} fill="#6b7280">{payload.value}</text>
+      {ss !== undefined && <rect x={-8} y={18} width={16} height={5} rx={1} fill={ssColor(ss)} />}
+    </g>
+  );
 }
 
-export function DensityVisualization({ data }: DensityVisualizationProps) {
-  if (!data || Object.keys(data).length === 0) {
+// Contiguous helix/strand runs of the visible window, for shading behind the bars
+function secondaryStructureRuns(entries: ResidueProfileEntry[]) {
+  const runs: Array<{ from: number; to: number; color: string }> = [];
+  entries.forEach((entry, idx) => {
+    const color = ssColor(entry.ss);
+    if (color === SS_ELEMENT_COLORS.loop) return;
+    const last = runs[runs.length - 1];
+    const previous = entries[idx - 1];
+    if (last && previous && last.to === previous.residueSeq && last.color === color) last.to = entry.residueSeq;
+    else runs.push({ from: entry.residueSeq, to: entry.residueSeq, color });
+  });
+  return runs;
+}
+
+export function DensityVisualization({ data, profile, selected, onSelect }: DensityVisualizationProps) {
+  const chainKeys = useMemo(() => {
+    const keys = Object.keys(profile ?? {});
+    Object.keys(data ?? {}).forEach(key => { if (!keys.includes(key)) keys.push(key); });
+    return keys;
+  }, [data, profile]);
+
+  const [chain, setChain] = useState<string | null>(null);
+  const [view, setView] = useState<"profile" | "top">("profile");
+  const [showBFactor, setShowBFactor] = useState(true);
+  const [showSs, setShowSs] = useState(true);
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+
+  const chainKey = chain && chainKeys.includes(chain) ? chain : chainKeys[0];
+  const entries = useMemo(() => profile?.[chainKey] ?? [], [profile, chainKey]);
+  const hasProfile = entries.length > 0;
+  const activeView = hasProfile ? view : "top";
+
+  // A new chain starts fully zoomed out
+  useEffect(() => setRange(null), [chainKey]);
+
+  if (chainKeys.length === 0) {
     return <div className="text-center text-muted-foreground py-8">No interaction density data</div>;
   }
 
-  // Get first chain's data for visualization
-  const chainKey = Object.keys(data)[0];
-  const chainData = data[chainKey]?.slice(0, 15) || []; // Top 15 residues
+  const lastIndex = Math.max(entries.length - 1, 0);
+  const start = range?.start ?? 0;
+  const end = range?.end ?? lastIndex;
+  const zoomBy = (factor: number) => {
+    const center = (start + end) / 2;
+    const half = Math.max(MIN_WINDOW, (end - start + 1) * factor) / 2;
+    const from = Math.max(0, Math.round(center - half));
+    const to = Math.min(lastIndex, Math.round(center + half));
+    setRange(from === 0 && to === lastIndex ? null : { start: from, end: to });
+  };
+
+  const topData = data?.[chainKey]?.slice(0, TOP_N) || [];
+  const ssByResidue = new Map<number, string | undefined>(topData.map((d: any) => [d.residueSeq, d.ss]));
+  const hasSs = activeView === "top" ? topData.some((d: any) => d.ss !== undefined) : showSs;
+  const ssRuns = activeView === "profile" && showSs ? secondaryStructureRuns(entries.slice(start, end + 1)) : [];
+  const selectedSeq = selected?.chain === chainKey ? selected.residueSeq : undefined;
+  const handleBarClick = (bar: any) => {
+    if (bar?.payload && onSelect) onSelect({ chain: chainKey, residueSeq: bar.payload.residueSeq });
+  };
 
   return (
-    <div className="w-full h-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={chainData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-          <XAxis 
-            dataKey="residueSeq" 
-            label={{ value: "Residue Sequence", position: "insideBottomRight", offset: -5 }}
-            tick={{ fontSize: 12 }}
-          />
-          <YAxis 
-            label={{ value: "Interaction Count", angle: -90, position: "insideLeft" }}
-          />
-          <Tooltip 
-            contentStyle={{ backgroundColor: "#fff", border: "1px solid #ccc" }}
-            formatter={(value) => value}
-            labelFormatter={(label) => `Residue ${label}`}
-          />
-          <Legend />
-          <Bar dataKey="intraCount" stackId="a" fill="#f97316" name="Intra-Protein" />
-          <Bar dataKey="interCount" stackId="a" fill="#3b82f6" name="Inter-Protein" />
-        </BarChart>
-      </ResponsiveContainer>
+    <div className="w-full h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 text-xs pb-2">
+        <select
+          value={chainKey}
+          onChange={(e) => setChain(e.target.value)}
+          className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid="select-density-chain"
+        >
+          {chainKeys.map(key => <option key={key} value={key}>{key}</option>)}
+        </select>
+        {hasProfile && (
+          <div className="flex rounded-lg border border-border overflow-hidden">
+            {(["profile", "top"] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setView(mode)}
+                className={`px-2 py-1.5 ${view === mode ? "bg-primary/10 text-primary font-medium" : "hover:bg-muted/50"}`}
+                data-testid={`button-density-view-${mode}`}
+              >
+                {mode === "profile" ? "Sequence profile" : `Top ${TOP_N}`}
+              </button>
+            ))}
+          </div>
+        )}
+        {activeView === "profile" && (
+          <>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={showBFactor} onChange={(e) => setShowBFactor(e.target.checked)} data-testid="checkbox-density-bfactor" />
+              B-factor
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={showSs} onChange={(e) => setShowSs(e.target.checked)} data-testid="checkbox-density-ss" />
+              Secondary structure
+            </label>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => zoomBy(2)}
+                disabled={!range}
+                className="p-1.5 rounded-lg border border-border hover:bg-muted/50 disabled:opacity-40"
+                title="Zoom out"
+                data-testid="button-density-zoom-out"
+              >
+                <ZoomOut className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => zoomBy(0.5)}
+                disabled={end - start + 1 <= MIN_WINDOW}
+                className="p-1.5 rounded-lg border border-border hover:bg-muted/50 disabled:opacity-40"
+                title="Zoom in"
+                data-testid="button-density-zoom-in"
+              >
+                <ZoomIn className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          {activeView === "profile" ? (
+            <ComposedChart data={entries} margin={{ top: 10, right: showBFactor ? 0 : 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="residueSeq" tick={{ fontSize: 11 }} minTickGap={12} />
+              <YAxis yAxisId="count" allowDecimals={false} label={{ value: "Interaction Count", angle: -90, position: "insideLeft" }} />
+              {showBFactor && (
+                <YAxis yAxisId="bfactor" orientation="right" tick={{ fontSize: 11 }} label={{ value: "B-factor (Å²)", angle: 90, position: "insideRight" }} />
+              )}
+              {ssRuns.map((run, idx) => (
+                <ReferenceArea key={idx} yAxisId="count" x1={run.from} x2={run.to} fill={run.color} fillOpacity={0.12} ifOverflow="hidden" />
+              ))}
+              {selectedSeq !== undefined && (
+                <ReferenceLine yAxisId="count" x={selectedSeq} stroke="#e11d48" strokeWidth={2} ifOverflow="hidden" />
+              )}
+              <Tooltip
+                contentStyle={{ backgroundColor: "#fff", border: "1px solid #ccc" }}
+                labelFormatter={(label, payload) => {
+                  const entry = payload?.[0]?.payload as ResidueProfileEntry | undefined;
+                  return entry ? `${entry.residueName} ${label} (${entry.ss})` : `Residue ${label}`;
+                }}
+              />
+              <Legend />
+              <Bar yAxisId="count" dataKey="intraCount" stackId="a" fill="#f97316" name="Intra-Protein" className="cursor-pointer" onClick={handleBarClick} />
+              <Bar yAxisId="count" dataKey="interCount" stackId="a" fill="#3b82f6" name="Inter-Protein" className="cursor-pointer" onClick={handleBarClick} />
+              {showBFactor && (
+                <Line yAxisId="bfactor" dataKey="bFactor" stroke="#64748b" strokeWidth={1} dot={false} name="B-factor" isAnimationActive={false} />
+              )}
+              <Brush
+                dataKey="residueSeq"
+                height={18}
+                stroke="#8b5cf6"
+                startIndex={start}
+                endIndex={end}
+                onChange={({ startIndex, endIndex }) => {
+                  if (startIndex === undefined || endIndex === undefined) return;
+                  setRange(startIndex === 0 && endIndex === lastIndex ? null : { start: startIndex, end: endIndex });
+                }}
+              />
+            </ComposedChart>
+          ) : (
+            <BarChart data={topData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="residueSeq"
+                label={{ value: "Residue Sequence", position: "insideBottomRight", offset: -5 }}
+                tick={<ResidueTick ssByResidue={ssByResidue} />}
+                height={hasSs ? 40 : 30}
+              />
+              <YAxis
+                label={{ value: "Interaction Count", angle: -90, position: "insideLeft" }}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: "#fff", border: "1px solid #ccc" }}
+                formatter={(value) => value}
+                labelFormatter={(label) => `Residue ${label}${ssByResidue.get(label) ? ` (${ssByResidue.get(label)})` : ""}`}
+              />
+              <Legend />
+              <Bar dataKey="intraCount" stackId="a" fill="#f97316" name="Intra-Protein" className="cursor-pointer" onClick={handleBarClick} />
+              <Bar dataKey="interCount" stackId="a" fill="#3b82f6" name="Inter-Protein" className="cursor-pointer" onClick={handleBarClick} />
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+      {hasSs && (
+        <div className="flex justify-center gap-4 text-[10px] text-muted-foreground pt-1">
+          {Object.entries(SS_ELEMENT_COLORS).map(([element, color]) => (
+            <span key={element} className="flex items-center gap-1 capitalize">
+              <span className="w-3 h-1.5 rounded-sm" style={{ backgroundColor: color }} />
+              {element}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
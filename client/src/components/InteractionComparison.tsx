@@ -12,7 +12,7 @@ interface InteractionComparisonProps {
 
 export function InteractionComparison({ resultA, resultB, pdbA, pdbB }: InteractionComparisonProps) {
   // Count interaction types
-  const countByType = (interactions: any[]) => {
+  const countByType = (typeCounts: Record<string, number>) => {
     const counts: Record<string, number> = {
       "Hydrogen Bond": 0,
       "Salt Bridge": 0,
@@ -20,17 +20,15 @@ export function InteractionComparison({ resultA, resultB, pdbA, pdbB }: Interact
       "Van der Waals": 0,
     };
     
-    interactions?.forEach((i: any) => {
-      if (counts.hasOwnProperty(i.type)) {
-        counts[i.type]++;
-      }
+    Object.keys(counts).forEach(type => {
+      counts[type] = typeCounts[type] || 0;
     });
     
     return counts;
   };
 
-  const countsA = countByType(resultA?.interactions || []);
-  const countsB = countByType(resultB?.interactions || []);
+  const countsA = countByType(resultA?.interactionStats?.typeCounts || {});
+  const countsB = countByType(resultB?.interactionStats?.typeCounts || {});
 
   const chartData = [
     { type: "H-Bonds", A: countsA["Hydrogen Bond"], B: countsB["Hydrogen Bond"] },
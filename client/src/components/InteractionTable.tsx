@@ -1,26 +1,115 @@
-import { useState, useMemo } from "react";
+import { useState, useEffect } from "react";
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
   flexRender,
   createColumnHelper,
   type SortingState,
+  type PaginationState,
 } from "@tanstack/react-table";
-import { Interaction } from "@shared/schema";
-import { ArrowUpDown, ChevronLeft, ChevronRight, Search, Info } from "lucide-react";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Interaction, InteractionTypeSchema, type SecondaryStructureCode } from "@shared/schema";
+import { useInteractions, type PairSideRef } from "@/hooks/use-analysis";
+import { SS_LABELS, ssColor } from "@/lib/secondary-structure";
+import { ArrowUpDown, ChevronLeft, ChevronRight, Search, Loader2 } from "lucide-react";
 import clsx from "clsx";
 
 interface InteractionTableProps {
-  data: Interaction[];
-  fullCount?: number;
+  // Session id, or one side of a comparison's pair
+  source: number | PairSideRef;
+  chains?: string[];
+  // Multi-model analyses report how many models contain each contact
+  showOccupancy?: boolean;
+  selectedId?: string | null;
+  onSelect?: (interaction: Interaction | null) => void;
+  // Residue picked in the viewer; applied to the chain and residue filters when it changes
+  residueFilter?: { chainId: string; residueSeq: number } | null;
+}
+
+// Residue/distance bounds are kept as typed text and sent only when they parse
+interface RangeFilters {
+  residueMin: string;
+  residueMax: string;
+  distanceMin: string;
+  distanceMax: string;
+}
+
+const EMPTY_RANGES: RangeFilters = { residueMin: "", residueMax: "", distanceMin: "", distanceMax: "" };
+
+function parseBound(value: string): number | undefined {
+  return value.trim() === "" || Number.isNaN(Number(value)) ? undefined : Number(value);
 }
 
 const columnHelper = createColumnHelper<Interaction>();
 
+// Geometry summary shown on hover for group-level interaction types
+function interactionDetail(interaction: Interaction): string | undefined {
+  if (interaction.ring) {
+    const { centroidDistance, angle, offset } = interaction.ring;
+    return `Centroid ${centroidDistance} Å, angle ${angle}°, offset ${offset} Å`;
+  }
+  if (interaction.saltBridge) {
+    const { groupA, groupB, centroidDistance } = interaction.saltBridge;
+    return `${groupA} – ${groupB}, centroid ${centroidDistance} Å`;
+  }
+  if (interaction.metal) {
+    const { metal, coordinationNumber, geometry } = interaction.metal;
+    return `${metal}: CN ${coordinationNumber}, ${geometry}`;
+  }
+  if (interaction.waterBridge) {
+    const { waterChain, waterResidue, waterSerial, distanceA, distanceB } = interaction.waterBridge;
+    return `via ${waterChain}:${waterResidue} (atom ${waterSerial}), legs ${distanceA} Å / ${distanceB} Å`;
+  }
+  if (interaction.halogenBond) {
+    const { cxaAngle, xayAngle } = interaction.halogenBond;
+    return `C–X···A ${cxaAngle}°` + (xayAngle !== null ? `, X···A–Y ${xayAngle}°` : "");
+  }
+  return undefined;
+}
+
+// Marks the donor/acceptor side of a hydrogen bond next to its residue
+function HBondRole({ interaction, side }: { interaction: Interaction; side: "A" | "B" }) {
+  if (!interaction.hbond) return null;
+  const isDonor = interaction.hbond.donor === side;
+  return (
+    <span
+      className={clsx(
+        "ml-1 px-1 rounded text-[9px] font-bold",
+        isDonor ? "bg-sky-100 text-sky-700" : "bg-rose-100 text-rose-700"
+      )}
+      title={isDonor ? "Hydrogen bond donor" : "Hydrogen bond acceptor"}
+    >
+      {isDonor ? "D" : "A"}
+    </span>
+  );
+}
+
+// Alternate location id of one endpoint, present when all conformers were kept
+function AltLocFlag({ altLoc }: { altLoc?: string }) {
+  if (!altLoc) return null;
+  return (
+    <span
+      className="ml-1 px-1 rounded text-[9px] font-bold bg-amber-100 text-amber-800"
+      title={`Alternate location ${altLoc}`}
+    >
+      alt {altLoc}
+    </span>
+  );
+}
+
+// DSSP state of one endpoint's residue
+function SsFlag({ ss }: { ss?: SecondaryStructureCode }) {
+  if (!ss) return null;
+  return (
+    <span
+      className="ml-1 px-1 rounded text-[9px] font-bold text-white"
+      style={{ backgroundColor: ssColor(ss) }}
+      title={SS_LABELS[ss]}
+    >
+      {ss === "-" ? "C" : ss}
+    </span>
+  );
+}
+
 const columns = [
   columnHelper.accessor("isIntraMolecular", {
     header: "Category",
@@ -43,7 +132,16 @@ const columns = [
         info.getValue() === "Hydrophobic" && "bg-orange-100 text-orange-800",
         info.getValue() === "Van der Waals" && "bg-gray-100 text-gray-800",
         info.getValue() === "Pi-Stacking" && "bg-pink-100 text-pink-800",
-      )}>
+        info.getValue() === "T-Shaped Pi-Stacking" && "bg-fuchsia-100 text-fuchsia-800",
+        info.getValue() === "Cation-Pi" && "bg-indigo-100 text-indigo-800",
+        info.getValue() === "Ionic Repulsion" && "bg-red-100 text-red-800",
+        info.getValue() === "Disulfide Bond" && "bg-yellow-100 text-yellow-800",
+        info.getValue() === "Metal Coordination" && "bg-slate-200 text-slate-800",
+        info.getValue() === "Halogen Bond" && "bg-lime-100 text-lime-800",
+        info.getValue() === "Water Bridge" && "bg-cyan-100 text-cyan-800",
+      )}
+        title={interactionDetail(info.row.original)}
+      >
         {info.getValue()}
       </span>
     ),
@@ -58,7 +156,14 @@ const columns = [
   }),
   columnHelper.accessor("residueA", {
     header: "Residue A",
-    cell: (info) => <span className="font-mono text-xs">{info.getValue()}</span>,
+    cell: (info) => (
+      <span className="font-mono text-xs">
+        {info.getValue()}
+        <HBondRole interaction={info.row.original} side="A" />
+        <AltLocFlag altLoc={info.row.original.altLocA} />
+        <SsFlag ss={info.row.original.ssA} />
+      </span>
+    ),
   }),
   columnHelper.accessor("proteinB", {
     header: "Protein B",
@@ -70,65 +175,117 @@ const columns = [
   }),
   columnHelper.accessor("residueB", {
     header: "Residue B",
-    cell: (info) => <span className="font-mono text-xs">{info.getValue()}</span>,
+    cell: (info) => (
+      <span className="font-mono text-xs">
+        {info.getValue()}
+        <HBondRole interaction={info.row.original} side="B" />
+        <AltLocFlag altLoc={info.row.original.altLocB} />
+        <SsFlag ss={info.row.original.ssB} />
+      </span>
+    ),
   }),
   columnHelper.accessor("distance", {
     header: "Distance (Å)",
     cell: (info) => <span className="font-mono text-xs font-semibold">{info.getValue().toFixed(2)}</span>,
   }),
+  columnHelper.accessor("occupancy", {
+    header: "Occupancy",
+    cell: (info) => {
+      const occupancy = info.getValue();
+      if (occupancy === undefined) return null;
+      return (
+        <div className="flex items-center gap-2" title={`Present in ${Math.round(occupancy * 100)}% of models`}>
+          <div className="w-12 h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${occupancy * 100}%` }} />
+          </div>
+          <span className="font-mono text-xs">{Math.round(occupancy * 100)}%</span>
+        </div>
+      );
+    },
+  }),
 ];
 
-export function InteractionTable({ data, fullCount }: InteractionTableProps) {
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [globalFilter, setGlobalFilter] = useState("");
+export function InteractionTable({ source, chains = [], showOccupancy = false, selectedId, onSelect, residueFilter }: InteractionTableProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: "distance", desc: false }]);
+  const [pagination, setPagination] = useState<PaginationState>({ pageIndex: 0, pageSize: 15 });
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<"all" | "inter" | "intra">("all");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [chainFilter, setChainFilter] = useState("");
+  const [ranges, setRanges] = useState<RangeFilters>(EMPTY_RANGES);
+
+  // Debounce free-text search so typing does not fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-  const isTruncated = fullCount && fullCount > data.length;
+  useEffect(() => {
+    if (!residueFilter) return;
+    setChainFilter(residueFilter.chainId);
+    setRanges({ ...EMPTY_RANGES, residueMin: String(residueFilter.residueSeq), residueMax: String(residueFilter.residueSeq) });
+  }, [residueFilter]);
 
-  const filteredData = useMemo(() => {
-    return data.filter(d => {
-      if (categoryFilter === "inter") return !d.isIntraMolecular;
-      if (categoryFilter === "intra") return d.isIntraMolecular;
-      return true;
-    });
-  }, [data, categoryFilter]);
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPagination(p => ({ ...p, pageIndex: 0 }));
+  }, [search, categoryFilter, typeFilter, chainFilter, ranges, sorting]);
+
+  const { data, isFetching } = useInteractions(source, {
+    page: pagination.pageIndex + 1,
+    pageSize: pagination.pageSize,
+    sortBy: sorting[0]?.id,
+    sortDir: sorting[0]?.desc ? "desc" : "asc",
+    category: categoryFilter,
+    type: typeFilter || undefined,
+    chain: chainFilter || undefined,
+    residueMin: parseBound(ranges.residueMin),
+    residueMax: parseBound(ranges.residueMax),
+    distanceMin: parseBound(ranges.distanceMin),
+    distanceMax: parseBound(ranges.distanceMax),
+    search: search || undefined,
+  });
+
+  const total = data?.total ?? 0;
 
   const table = useReactTable({
-    data: filteredData,
+    data: data?.items ?? [],
     columns,
     state: {
       sorting,
-      globalFilter,
+      pagination,
+      columnVisibility: { occupancy: showOccupancy },
     },
+    manualSorting: true,
+    manualPagination: true,
+    enableMultiSort: false,
+    pageCount: Math.max(1, Math.ceil(total / pagination.pageSize)),
     onSortingChange: setSorting,
-    onGlobalFilterChange: setGlobalFilter,
+    onPaginationChange: setPagination,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    initialState: {
-      pagination: { pageSize: 15 },
-      sorting: [{ id: "distance", desc: false }]
-    }
   });
 
+  const rangeInput = (key: keyof RangeFilters, placeholder: string, step: string) => (
+    <input
+      type="number"
+      step={step}
+      value={ranges[key]}
+      onChange={(e) => setRanges({ ...ranges, [key]: e.target.value })}
+      placeholder={placeholder}
+      className="w-20 px-2 py-1.5 text-xs bg-background border border-border rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-primary/20"
+      data-testid={`input-interaction-${key}`}
+    />
+  );
+
   return (
     <div className="space-y-4">
-      {isTruncated && (
-        <Alert className="bg-blue-50 border-blue-200 py-2">
-          <Info className="h-4 w-4 text-blue-600" />
-          <AlertDescription className="text-blue-700 text-xs">
-            Displaying the top 1,000 interactions out of {fullCount.toLocaleString()}. 
-            Use the "Download" buttons above to get the full dataset.
-          </AlertDescription>
-        </Alert>
-      )}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="relative flex-1 min-w-fit">
           <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
           <input
-            value={globalFilter ?? ""}
-            onChange={(e) => setGlobalFilter(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
             placeholder="Filter interactions..."
             className="w-full pl-9 pr-4 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
           />
@@ -151,8 +308,46 @@ export function InteractionTable({ data, fullCount }: InteractionTableProps) {
           ))}
         </div>
 
-        <div className="text-xs text-muted-foreground font-mono">
-          {table.getFilteredRowModel().rows.length} / {data.length}
+        <div className="text-xs text-muted-foreground font-mono flex items-center gap-2">
+          {isFetching && <Loader2 className="w-3 h-3 animate-spin" />}
+          {total.toLocaleString()} interactions
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap text-xs">
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid="select-interaction-type"
+        >
+          <option value="">All types</option>
+          {InteractionTypeSchema.options.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select
+          value={chainFilter}
+          onChange={(e) => setChainFilter(e.target.value)}
+          className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+          data-testid="select-interaction-chain"
+        >
+          <option value="">All chains</option>
+          {chains.map(chain => (
+            <option key={chain} value={chain}>Chain {chain}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Residues</span>
+          {rangeInput("residueMin", "from", "1")}
+          <span className="text-muted-foreground">–</span>
+          {rangeInput("residueMax", "to", "1")}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Distance (Å)</span>
+          {rangeInput("distanceMin", "min", "0.1")}
+          <span className="text-muted-foreground">–</span>
+          {rangeInput("distanceMax", "max", "0.1")}
         </div>
       </div>
 
@@ -183,7 +378,16 @@ export function InteractionTable({ data, fullCount }: InteractionTableProps) {
             <tbody className="divide-y divide-border">
               {table.getRowModel().rows.length > 0 ? (
                 table.getRowModel().rows.map((row) => (
-                  <tr key={row.id} className="hover:bg-muted/30 transition-colors">
+                  <tr
+                    key={row.id}
+                    onClick={onSelect && (() => onSelect(row.original.id === selectedId ? null : row.original))}
+                    className={clsx(
+                      "hover:bg-muted/30 transition-colors",
+                      onSelect && "cursor-pointer",
+                      row.original.id === selectedId && "bg-primary/10 hover:bg-primary/15"
+                    )}
+                    data-testid={`row-interaction-${row.original.id}`}
+                  >
                     {row.getVisibleCells().map((cell) => (
                       <td key={cell.id} className="px-4 py-2 text-foreground">
                         {flexRender(cell.column.columnDef.cell, cell.getContext())}
@@ -193,8 +397,8 @@ export function InteractionTable({ data, fullCount }: InteractionTableProps) {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={columns.length} className="px-4 py-8 text-center text-muted-foreground">
-                    No interactions found
+                  <td colSpan={table.getVisibleLeafColumns().length} className="px-4 py-8 text-center text-muted-foreground">
+                    {isFetching ? "Loading interactions..." : "No interactions found"}
                   </td>
                 </tr>
               )}
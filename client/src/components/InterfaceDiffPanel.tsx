@@ -0,0 +1,228 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, GitCompareArrows, Search } from "lucide-react";
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import type { InterfaceContact, InterfaceContactDiff, InterfaceContactStatus, InterfaceDiff } from "@shared/schema";
+
+interface InterfaceDiffPanelProps {
+  diff: InterfaceDiff;
+  pdbA: string;
+  pdbB: string;
+}
+
+const STATUS_STYLES: Record<InterfaceContactStatus, string> = {
+  conserved: "bg-emerald-100 text-emerald-800",
+  lost: "bg-rose-100 text-rose-800",
+  gained: "bg-sky-100 text-sky-800",
+};
+
+const SELECT_CLASS = "px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+function contactLabel(contact: InterfaceContact | null) {
+  if (!contact) return "";
+  const { residue1: r1, residue2: r2 } = contact;
+  return `${r1.chain}:${r1.residueName} ${r1.residueSeq} – ${r2.chain}:${r2.residueName} ${r2.residueSeq}`;
+}
+
+function chainPairOf(row: Pick<InterfaceContactDiff, "chainPairA" | "chainPairB">) {
+  return `${row.chainPairA ?? "—"} / ${row.chainPairB ?? "—"}`;
+}
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function InterfaceDiffPanel({ diff, pdbA, pdbB }: InterfaceDiffPanelProps) {
+  const [status, setStatus] = useState<InterfaceContactStatus | "all">("all");
+  const [chainPair, setChainPair] = useState("all");
+  const [type, setType] = useState("all");
+  const [search, setSearch] = useState("");
+
+  const types = useMemo(() => {
+    const all = new Set<string>();
+    diff.contacts.forEach(row => {
+      row.contactA?.types.forEach(t => all.add(t));
+      row.contactB?.types.forEach(t => all.add(t));
+    });
+    return Array.from(all).sort();
+  }, [diff]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return diff.contacts.filter(row => {
+      if (status !== "all" && row.status !== status) return false;
+      if (chainPair !== "all" && chainPairOf(row) !== chainPair) return false;
+      if (type !== "all" && !row.contactA?.types.includes(type) && !row.contactB?.types.includes(type)) return false;
+      if (query && !`${contactLabel(row.contactA)} ${contactLabel(row.contactB)}`.toLowerCase().includes(query)) return false;
+      return true;
+    });
+  }, [diff, status, chainPair, type, search]);
+
+  const exportCsv = () => {
+    const lines = [
+      ["Status", `Chain Pair (${pdbA})`, `Chain Pair (${pdbB})`, `Contact (${pdbA})`, `Types (${pdbA})`, `Interactions (${pdbA})`, `Contact (${pdbB})`, `Types (${pdbB})`, `Interactions (${pdbB})`].map(csvField).join(","),
+      ...rows.map(row => [
+        row.status,
+        row.chainPairA ?? "",
+        row.chainPairB ?? "",
+        contactLabel(row.contactA),
+        row.contactA?.types.join("; ") ?? "",
+        row.contactA?.interactionCount ?? "",
+        contactLabel(row.contactB),
+        row.contactB?.types.join("; ") ?? "",
+        row.contactB?.interactionCount ?? "",
+      ].map(csvField).join(",")),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `interface_diff_${pdbA}_vs_${pdbB}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <GitCompareArrows className="w-4 h-4" />
+          Interface Contact Diff ({pdbA} → {pdbB})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+          <div className="p-2 bg-emerald-50 rounded">
+            <div className="text-xs text-emerald-700">Conserved</div>
+            <div className="font-bold text-emerald-900" data-testid="text-diff-conserved">{diff.conserved}</div>
+          </div>
+          <div className="p-2 bg-rose-50 rounded">
+            <div className="text-xs text-rose-700">Lost</div>
+            <div className="font-bold text-rose-900" data-testid="text-diff-lost">{diff.lost}</div>
+          </div>
+          <div className="p-2 bg-sky-50 rounded">
+            <div className="text-xs text-sky-700">Gained</div>
+            <div className="font-bold text-sky-900" data-testid="text-diff-gained">{diff.gained}</div>
+          </div>
+          <div className="p-2 bg-muted rounded">
+            <div className="text-xs text-muted-foreground">Jaccard</div>
+            <div className="font-bold" data-testid="text-diff-jaccard">{diff.jaccard.toFixed(3)}</div>
+          </div>
+          <div className="p-2 bg-muted rounded">
+            <div className="text-xs text-muted-foreground">F-score</div>
+            <div className="font-bold" data-testid="text-diff-fscore">{diff.fScore.toFixed(3)}</div>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Inter-chain residue contacts of {pdbA} ({diff.contactsA}) and {pdbB} ({diff.contactsB}), matched after mapping
+          residues through the chain sequence alignments. F-score treats {pdbA} as the reference.
+          {diff.unmappedA > 0 && ` ${diff.unmappedA} contacts of ${pdbA} involve residues without a counterpart in ${pdbB}.`}
+        </p>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground border-b border-border">
+              <th className="text-left py-1">Chains ({pdbA} / {pdbB})</th>
+              <th className="text-right py-1">{pdbA}</th>
+              <th className="text-right py-1">{pdbB}</th>
+              <th className="text-right py-1">Conserved</th>
+              <th className="text-right py-1">Lost</th>
+              <th className="text-right py-1">Gained</th>
+              <th className="text-right py-1">Jaccard</th>
+              <th className="text-right py-1">F-score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.chainPairs.map(pair => (
+              <tr
+                key={chainPairOf(pair)}
+                className={clsx("border-b border-border/50 cursor-pointer hover:bg-muted/50", chainPair === chainPairOf(pair) && "bg-primary/5")}
+                onClick={() => setChainPair(chainPair === chainPairOf(pair) ? "all" : chainPairOf(pair))}
+                data-testid={`row-diff-chain-pair-${pair.chainPairB ?? pair.chainPairA}`}
+              >
+                <td className="py-1 font-mono">{chainPairOf(pair)}</td>
+                <td className="py-1 text-right">{pair.contactsA}</td>
+                <td className="py-1 text-right">{pair.contactsB}</td>
+                <td className="py-1 text-right">{pair.conserved}</td>
+                <td className="py-1 text-right">{pair.lost}</td>
+                <td className="py-1 text-right">{pair.gained}</td>
+                <td className="py-1 text-right">{pair.jaccard.toFixed(3)}</td>
+                <td className="py-1 text-right">{pair.fScore.toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select className={SELECT_CLASS} value={status} onChange={(e) => setStatus(e.target.value as InterfaceContactStatus | "all")} data-testid="select-diff-status">
+            <option value="all">All contacts</option>
+            <option value="conserved">Conserved</option>
+            <option value="lost">Lost</option>
+            <option value="gained">Gained</option>
+          </select>
+          <select className={SELECT_CLASS} value={chainPair} onChange={(e) => setChainPair(e.target.value)} data-testid="select-diff-chain-pair">
+            <option value="all">All chain pairs</option>
+            {diff.chainPairs.map(pair => (
+              <option key={chainPairOf(pair)} value={chainPairOf(pair)}>{chainPairOf(pair)}</option>
+            ))}
+          </select>
+          <select className={SELECT_CLASS} value={type} onChange={(e) => setType(e.target.value)} data-testid="select-diff-type">
+            <option value="all">All types</option>
+            {types.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <div className="relative flex-1 min-w-[10rem]">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <input
+              className={clsx(SELECT_CLASS, "w-full pl-8")}
+              placeholder="Residue, e.g. ASP 25"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              data-testid="input-diff-search"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={exportCsv} disabled={rows.length === 0} data-testid="button-diff-export">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+
+        <div className="max-h-[28rem] overflow-auto border border-border rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-muted">
+              <tr className="text-muted-foreground">
+                <th className="text-left p-2">Status</th>
+                <th className="text-left p-2">{pdbA}</th>
+                <th className="text-left p-2">Types</th>
+                <th className="text-left p-2">{pdbB}</th>
+                <th className="text-left p-2">Types</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.status}-${contactLabel(row.contactA)}-${contactLabel(row.contactB)}`} className="border-t border-border/50">
+                  <td className="p-2">
+                    <span className={clsx("px-2 py-0.5 rounded text-[10px] font-semibold uppercase", STATUS_STYLES[row.status])}>{row.status}</span>
+                  </td>
+                  <td className="p-2 font-mono">{contactLabel(row.contactA) || "—"}</td>
+                  <td className="p-2">{row.contactA ? `${row.contactA.types.join(", ")} (${row.contactA.interactionCount})` : ""}</td>
+                  <td className="p-2 font-mono">{contactLabel(row.contactB) || "—"}</td>
+                  <td className="p-2">{row.contactB ? `${row.contactB.types.join(", ")} (${row.contactB.interactionCount})` : ""}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-muted-foreground">No contacts match the filters.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">{rows.length} of {diff.contacts.length} contacts shown.</p>
+      </CardContent>
+    </Card>
+  );
+}
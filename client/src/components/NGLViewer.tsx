@@ -7,6 +7,30 @@ interface ProteinToLoad {
   pdbId?: string;
   pdbContent?: string;
   name: string;
+  // Uniform cartoon color, e.g. to tell superposed structures apart
+  color?: string;
+}
+
+// Pocket view around one ligand; contact endpoints are NGL atom selections ("401:A.O1")
+export interface LigandFocus {
+  chainId: string;
+  residueSeq: number;
+  pocket: Array<{ chainId: string; residueSeq: number }>;
+  contacts: Array<{ from: string; to: string; type: string }>;
+}
+
+// One interaction picked in the table: distance line(s) between the endpoint atoms
+// (two legs through the water for a water bridge) and both residues highlighted
+export interface InteractionFocus {
+  pairs: Array<[string, string]>;
+  residues: Array<{ chainId: string; residueSeq: number }>;
+}
+
+export interface PickedAtom {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  atomName: string;
 }
 
 interface NGLViewerProps {
@@ -14,9 +38,55 @@ interface NGLViewerProps {
   className?: string;
   highlightResidues?: Array<{ chainId: string; residueSeq: number }>;
   colorScheme?: string;
+  ligandFocus?: LigandFocus | null;
+  interactionFocus?: InteractionFocus | null;
+  onAtomPick?: (atom: PickedAtom) => void;
 }
 
-function NGLViewerComponent({ proteins = [], className, highlightResidues = [], colorScheme }: NGLViewerProps) {
+const CONTACT_COLORS: Record<string, [number, number, number]> = {
+  "Hydrogen Bond": [0.15, 0.39, 0.92],
+  "Salt Bridge": [0.58, 0.2, 0.92],
+  "Hydrophobic": [0.92, 0.49, 0.05],
+  "Pi-Stacking": [0.86, 0.15, 0.47],
+  "T-Shaped Pi-Stacking": [0.86, 0.15, 0.47],
+  "Cation-Pi": [0.31, 0.27, 0.9],
+  "Halogen Bond": [0.4, 0.64, 0.05],
+  "Metal Coordination": [0.28, 0.33, 0.41],
+  "Water Bridge": [0.03, 0.57, 0.7],
+};
+const DEFAULT_CONTACT_COLOR: [number, number, number] = [0.6, 0.6, 0.6];
+
+function atomPosition(structure: any, sele: string): number[] | null {
+  let position: number[] | null = null;
+  structure.eachAtom((atom: any) => {
+    if (!position) position = [atom.x, atom.y, atom.z];
+  }, new NGL.Selection(sele));
+  return position;
+}
+
+// NGL has no dashed line primitive, so contacts are drawn as runs of short cylinders
+function addDashedLine(shape: any, from: number[], to: number[], color: [number, number, number]) {
+  const dash = 0.25;
+  const gap = 0.2;
+  const delta = to.map((v, i) => v - from[i]);
+  const length = Math.hypot(delta[0], delta[1], delta[2]);
+  for (let start = 0; start < length; start += dash + gap) {
+    const end = Math.min(start + dash, length);
+    shape.addCylinder(
+      from.map((v, i) => v + delta[i] * (start / length)),
+      from.map((v, i) => v + delta[i] * (end / length)),
+      color,
+      0.06,
+    );
+  }
+}
+
+// Uploaded content may be legacy PDB or mmCIF; mmCIF opens with a data block header
+function getStructureExt(content: string) {
+  return /^\s*(#.*\s*)*data_/.test(content.substring(0, 4096)) ? "cif" : "pdb";
+}
+
+function NGLViewerComponent({ proteins = [], className, highlightResidues = [], colorScheme, ligandFocus, interactionFocus, onAtomPick }: NGLViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const stageRef = useRef<any>(null);
   const [loading, setLoading] = useState(false);
@@ -24,6 +94,9 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [loadedCount, setLoadedCount] = useState(0);
   const componentsRef = useRef<any[]>([]);
+  const contactShapeRef = useRef<any>(null);
+  const onAtomPickRef = useRef(onAtomPick);
+  onAtomPickRef.current = onAtomPick;
 
   // Initialize Stage
   useEffect(() => {
@@ -45,6 +118,17 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
       const handleResize = () => stage.handleResize();
       window.addEventListener("resize", handleResize);
 
+      stage.signals.clicked.add((pickingProxy: any) => {
+        const atom = pickingProxy?.atom;
+        if (!atom) return;
+        onAtomPickRef.current?.({
+          chainId: atom.chainname,
+          residueSeq: atom.resno,
+          residueName: atom.resname,
+          atomName: atom.atomname,
+        });
+      });
+
       return () => {
         window.removeEventListener("resize", handleResize);
         try { stage.dispose(); } catch (e) {}
@@ -65,6 +149,7 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
     setLoadedCount(0);
 
     stage.removeAllComponents();
+    contactShapeRef.current = null;
 
     let successCount = 0;
     let hasError = false;
@@ -88,7 +173,7 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
         }
 
         const loadPromise = protein.pdbContent
-          ? stage.loadFile(new Blob([protein.pdbContent], { type: 'text/plain' }), { ext: "pdb" })
+          ? stage.loadFile(new Blob([protein.pdbContent], { type: 'text/plain' }), { ext: getStructureExt(protein.pdbContent) })
           : protein.pdbId
           ? (() => {
               const pdbId = protein.pdbId.trim().toUpperCase();
@@ -102,7 +187,7 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
             console.log(`NGLViewer: Successfully loaded ${protein.name}`);
             // Add cartoon representation with medium quality
             component.addRepresentation("cartoon", {
-              colorScheme: colorScheme,
+              ...(protein.color ? { color: protein.color } : { colorScheme }),
               quality: "medium",
               aspectRatio: 5.0
             });
@@ -175,9 +260,9 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
     if (highlightResidues.length > 0) {
       componentsRef.current.forEach(component => {
         try {
-          // Use NGL's proper selection syntax: "resno 1 or resno 2 or ..."
+          // NGL selection "resno:chain", e.g. "25:A or 87:B"; chainless files match by number only
           const selectionString = highlightResidues
-            .map(r => `resno ${r.residueSeq}`)
+            .map(r => r.chainId ? `${r.residueSeq}:${r.chainId}` : `${r.residueSeq}`)
             .join(" or ");
           
           console.log("NGLViewer: Adding highlight with selection:", selectionString);
@@ -190,6 +275,7 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
               color: "hotpink",
               name: "highlight-interface",
             });
+            component.autoView(selectionString, 1000);
             console.log("NGLViewer: Highlight representation added successfully");
           }
         } catch (err) {
@@ -197,7 +283,86 @@ function NGLViewerComponent({ proteins = [], className, highlightResidues = [],
         }
       });
     }
-  }, [highlightResidues]);
+  }, [highlightResidues, loading, loadedCount]);
+
+  // Ligand pocket focus: ligand and lining residues as sticks, contacts as dashed lines
+  useEffect(() => {
+    const stage = stageRef.current;
+    const component = componentsRef.current[0];
+    if (!stage || !component || loading) return;
+
+    component.reprList
+      .filter((r: any) => r.name === "ligand-focus")
+      .forEach((repr: any) => component.removeRepresentation(repr));
+    if (contactShapeRef.current) {
+      stage.removeComponent(contactShapeRef.current);
+      contactShapeRef.current = null;
+    }
+
+    if (!ligandFocus) {
+      stage.autoView(1000);
+      return;
+    }
+
+    const ligandSele = `${ligandFocus.residueSeq}:${ligandFocus.chainId}`;
+    const pocketSele = ligandFocus.pocket.map(r => `${r.residueSeq}:${r.chainId}`).join(" or ");
+
+    component.addRepresentation("ball+stick", {
+      sele: ligandSele,
+      colorScheme: "element",
+      scale: 1.2,
+      name: "ligand-focus",
+    });
+    if (pocketSele) {
+      component.addRepresentation("licorice", {
+        sele: `(${pocketSele}) and not backbone`,
+        colorScheme: "element",
+        name: "ligand-focus",
+      });
+    }
+
+    const shape = new NGL.Shape("ligand-contacts");
+    ligandFocus.contacts.forEach(contact => {
+      const from = atomPosition(component.structure, contact.from);
+      const to = atomPosition(component.structure, contact.to);
+      if (from && to) addDashedLine(shape, from, to, CONTACT_COLORS[contact.type] ?? DEFAULT_CONTACT_COLOR);
+    });
+    if (ligandFocus.contacts.length > 0) {
+      contactShapeRef.current = stage.addComponentFromObject(shape);
+      contactShapeRef.current.addRepresentation("buffer");
+    }
+
+    component.autoView(pocketSele ? `${ligandSele} or ${pocketSele}` : ligandSele, 1000);
+  }, [ligandFocus, loading, loadedCount]);
+
+  // Interaction focus: measured distance between the endpoint atoms, both residues as sticks
+  useEffect(() => {
+    const component = componentsRef.current[0];
+    if (!stageRef.current || !component || loading) return;
+
+    component.reprList
+      .filter((r: any) => r.name === "interaction-focus")
+      .forEach((repr: any) => component.removeRepresentation(repr));
+    if (!interactionFocus) return;
+
+    const residueSele = interactionFocus.residues
+      .map(r => r.chainId ? `${r.residueSeq}:${r.chainId}` : `${r.residueSeq}`)
+      .join(" or ");
+    component.addRepresentation("ball+stick", {
+      sele: residueSele,
+      colorScheme: "element",
+      name: "interaction-focus",
+    });
+    component.addRepresentation("distance", {
+      atomPair: interactionFocus.pairs,
+      labelUnit: "angstrom",
+      labelSize: 1.5,
+      labelColor: "black",
+      color: "#e11d48",
+      name: "interaction-focus",
+    });
+    component.autoView(residueSele, 1000);
+  }, [interactionFocus, loading, loadedCount]);
 
   const toggleFullscreen = () => {
     if (!containerRef.current) return;
@@ -0,0 +1,170 @@
+import { NetworkEdge } from "@shared/schema";
+import { useDownloadUrls, useNetwork, type NetworkQuery } from "@/hooks/use-analysis";
+import { forceLayout } from "@/lib/force-layout";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+
+interface NetworkGraphProps {
+  sessionId: number;
+}
+
+const WIDTH = 560;
+const HEIGHT = 420;
+
+const CHAIN_COLORS = ["#2563eb", "#f97316", "#16a34a", "#9333ea", "#dc2626", "#0891b2", "#ca8a04", "#db2777"];
+
+const TYPE_COLORS: Record<string, string> = {
+  "Disulfide Bond": "#ca8a04",
+  "Metal Coordination": "#475569",
+  "Salt Bridge": "#9333ea",
+  "Hydrogen Bond": "#2563eb",
+  "Halogen Bond": "#65a30d",
+  "Pi-Stacking": "#db2777",
+  "T-Shaped Pi-Stacking": "#c026d3",
+  "Cation-Pi": "#4f46e5",
+  "Water Bridge": "#0891b2",
+  "Hydrophobic": "#ea580c",
+  "Ionic Repulsion": "#dc2626",
+  "Van der Waals": "#9ca3af",
+};
+
+function edgeTitle(edge: NetworkEdge): string {
+  const parts = [`${edge.source} – ${edge.target}`, `${edge.weight} contacts`];
+  if (edge.minDistance !== undefined) parts.push(`${edge.minDistance.toFixed(2)} Å`);
+  if (edge.buriedSurfaceArea !== undefined) parts.push(`BSA ${edge.buriedSurfaceArea.toFixed(0)} Å²`);
+  parts.push(edge.typeCounts
+    ? Object.entries(edge.typeCounts).map(([type, count]) => `${type}: ${count}`).join(", ")
+    : edge.types.join(", "));
+  return parts.join("\n");
+}
+
+// Two-level force-directed view: chains joined by contact counts, and the
+// residues of one interface (picked by clicking a chain–chain edge)
+export function NetworkGraph({ sessionId }: NetworkGraphProps) {
+  const [query, setQuery] = useState<NetworkQuery>({ level: "chains" });
+  const { data, isLoading, error } = useNetwork(sessionId, query);
+  const { networkUrl } = useDownloadUrls(sessionId);
+
+  const layout = useMemo(() => {
+    if (!data) return null;
+    const positions = forceLayout(data.nodes.map(n => n.id), data.edges, WIDTH, HEIGHT);
+    const chains = Array.from(new Set(data.nodes.map(n => n.chain)));
+    const maxNodeWeight = Math.max(...data.nodes.map(n => n.weight), 1);
+    const maxEdgeWeight = Math.max(...data.edges.map(e => e.weight), 1);
+    return { positions, chains, maxNodeWeight, maxEdgeWeight };
+  }, [data]);
+
+  const chainColor = (chain: string) => CHAIN_COLORS[(layout?.chains.indexOf(chain) ?? 0) % CHAIN_COLORS.length];
+  const isChains = query.level === "chains";
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        {!isChains && (
+          <button
+            onClick={() => setQuery({ level: "chains" })}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg border border-border hover:bg-muted/50 text-xs"
+            data-testid="button-network-back"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            Chains
+          </button>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {isChains ? "Click an edge to open that interface" : `Interface ${query.chainA} ↔ ${query.chainB}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <a
+            href={networkUrl(query, "graphml")}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg border border-border hover:bg-muted/50 text-xs"
+            data-testid="link-network-graphml"
+          >
+            <Download className="w-3.5 h-3.5" />
+            GraphML
+          </a>
+          <a
+            href={networkUrl(query, "cytoscape")}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg border border-border hover:bg-muted/50 text-xs"
+            data-testid="link-network-cytoscape"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Cytoscape JSON
+          </a>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-muted-foreground" /></div>
+      ) : error ? (
+        <div className="text-center text-destructive text-sm py-8">{(error as Error).message}</div>
+      ) : !data || !layout || data.edges.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          {isChains ? "No inter-chain contacts" : "No contacts in this interface"}
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full border border-border rounded-lg bg-white" data-testid="svg-network">
+          {data.edges.map((edge, idx) => {
+            const a = layout.positions.get(edge.source);
+            const b = layout.positions.get(edge.target);
+            if (!a || !b) return null;
+            const width = isChains
+              ? 1.5 + 6 * Math.log1p(edge.weight) / Math.log1p(layout.maxEdgeWeight)
+              : 1 + 2 * edge.weight / layout.maxEdgeWeight;
+            return (
+              <line
+                key={idx}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke={isChains ? "#94a3b8" : TYPE_COLORS[edge.type] ?? "#9ca3af"}
+                strokeWidth={width}
+                strokeOpacity={0.8}
+                className={isChains ? "cursor-pointer hover:stroke-primary" : undefined}
+                onClick={isChains ? () => setQuery({ level: "residues", chainA: edge.source, chainB: edge.target }) : undefined}
+                data-testid={`network-edge-${idx}`}
+              >
+                <title>{edgeTitle(edge)}</title>
+              </line>
+            );
+          })}
+          {data.nodes.map(node => {
+            const p = layout.positions.get(node.id)!;
+            const r = isChains ? 14 + 10 * Math.sqrt(node.weight / layout.maxNodeWeight) : 4 + 5 * Math.sqrt(node.weight / layout.maxNodeWeight);
+            return (
+              <g key={node.id} transform={`translate(${p.x},${p.y})`}>
+                <circle r={r} fill={chainColor(node.chain)} fillOpacity={0.85} stroke="#fff" strokeWidth={1.5}>
+                  <title>{`${node.label} · ${node.weight} contacts`}</title>
+                </circle>
+                <text
+                  y={isChains ? 4 : -r - 2}
+                  textAnchor="middle"
+                  fontSize={isChains ? 12 : 8}
+                  fontWeight={isChains ? 700 : 400}
+                  fill={isChains ? "#fff" : "#374151"}
+                  pointerEvents="none"
+                >
+                  {isChains ? node.label : node.label.split(":").pop()}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {data && !isChains && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-muted-foreground">
+          {Array.from(new Set(data.edges.map(e => e.type))).map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="w-3 h-0.5" style={{ backgroundColor: TYPE_COLORS[type] ?? "#9ca3af" }} />
+              {type}
+            </span>
+          ))}
+          {layout?.chains.map(chain => (
+            <span key={chain} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: chainColor(chain) }} />
+              {chain}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
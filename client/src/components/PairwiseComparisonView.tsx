@@ -0,0 +1,167 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Zap } from "lucide-react";
+import { BindingAffinityWidget } from "@/components/BindingAffinityWidget";
+import { InteractionCharts } from "@/components/Charts";
+import { NGLViewer } from "@/components/NGLViewer";
+import { StructureMetadataComparison } from "@/components/StructureMetadataComparison";
+import { InteractionComparison } from "@/components/InteractionComparison";
+import { StructureSimilarityMetrics } from "@/components/StructureSimilarityMetrics";
+import { StructureSuperposition } from "@/components/StructureSuperposition";
+import { SequenceAlignmentPanel } from "@/components/SequenceAlignmentPanel";
+import { InterfaceDiffPanel } from "@/components/InterfaceDiffPanel";
+import { InteractionTable } from "@/components/InteractionTable";
+import { usePairStructure } from "@/hooks/use-analysis";
+import type { ContactResidue, PairwiseComparison } from "@shared/schema";
+
+interface PairwiseComparisonViewProps {
+  // Comparison that computed the pair; serves its structures and interactions
+  comparisonId: number;
+  pair: PairwiseComparison;
+}
+
+function toHighlights(residues: ContactResidue[]) {
+  return residues.map(r => ({ chainId: r.chain, residueSeq: r.residueSeq }));
+}
+
+// Side-by-side comparison of two structures: affinity delta, superposition,
+// sequence alignment, interface diff and per-structure viewers
+export function PairwiseComparisonView({ comparisonId, pair }: PairwiseComparisonViewProps) {
+  const { nameA: pdbA, nameB: pdbB } = pair;
+  const stronger = pair.comparison.deltaBAI >= 0 ? pdbA : pdbB;
+  const { data: contentA } = usePairStructure({ comparisonId, side: "A" });
+  const { data: contentB } = usePairStructure({ comparisonId, side: "B" });
+
+  return (
+    <div className="space-y-6">
+      {/* Binding Affinity Comparison */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <DeltaCard
+          label="Binding Affinity Difference"
+          value={pair.comparison.deltaBAI}
+          percent={pair.comparison.percentDiff}
+          unit="BAI Units"
+        />
+        <Card className="col-span-2 border-primary/20 bg-primary/5">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Zap className="w-4 h-4 text-primary" />
+              Comparison Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-lg font-medium">
+              {stronger} shows stronger predicted binding
+              ({Math.abs(pair.comparison.deltaBAI).toFixed(1)} units higher).
+            </p>
+            <p className="text-sm mt-2 text-primary font-medium">
+              Interface residues (highlighted in pink) contribute disproportionately to binding stability and affinity.
+            </p>
+            <p className="text-xs text-muted-foreground mt-2 italic">
+              Relative structure-based comparison, not experimental free energy (ΔG).
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Metadata and Similarity Comparison */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <StructureMetadataComparison
+          pdbA={pdbA}
+          pdbB={pdbB}
+          resultA={pair.resultA}
+          resultB={pair.resultB}
+        />
+        <StructureSimilarityMetrics
+          resultA={pair.resultA}
+          resultB={pair.resultB}
+          pdbA={pdbA}
+          pdbB={pdbB}
+          superposition={pair.superposition}
+        />
+      </div>
+
+      {/* Superposed structures */}
+      <StructureSuperposition
+        superposition={pair.superposition}
+        contentB={contentB}
+        pdbA={pdbA}
+        pdbB={pdbB}
+      />
+
+      {/* Chain sequence alignment with interface positions */}
+      <SequenceAlignmentPanel
+        alignments={pair.sequenceAlignments}
+        pdbA={pdbA}
+        pdbB={pdbB}
+      />
+
+      {/* Residue-level interface contact diff */}
+      <InterfaceDiffPanel
+        diff={pair.interfaceDiff}
+        pdbA={pdbA}
+        pdbB={pdbB}
+      />
+
+      {/* Interaction Type Distribution */}
+      <InteractionComparison
+        resultA={pair.resultA}
+        resultB={pair.resultB}
+        pdbA={pdbA}
+        pdbB={pdbB}
+      />
+
+      {/* Structure Viewers and Charts */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+        {[
+          { side: "A" as const, name: pdbA, content: contentA, result: pair.resultA, highlights: pair.interfaceResiduesA, dot: "bg-blue-500" },
+          { side: "B" as const, name: pdbB, content: contentB, result: pair.resultB, highlights: pair.interfaceResiduesB, dot: "bg-orange-500" },
+        ].map(side => (
+          <div key={side.side} className="space-y-4">
+            <h3 className="font-bold text-center py-2 bg-muted rounded-lg flex items-center justify-center gap-2">
+              <div className={`w-2 h-2 rounded-full ${side.dot}`} />
+              {side.name}
+            </h3>
+            <Card className="border-border shadow-sm p-1 overflow-hidden">
+              <div className="h-[500px] w-full">
+                <NGLViewer
+                  proteins={side.content ? [{
+                    pdbContent: side.content,
+                    name: side.name
+                  }] : []}
+                  highlightResidues={toHighlights(side.highlights)}
+                  className="w-full h-full"
+                />
+              </div>
+            </Card>
+            <InteractionCharts stats={side.result.interactionStats} />
+            <BindingAffinityWidget data={side.result.bindingAffinity} />
+            <InteractionTable
+              source={{ comparisonId, side: side.side }}
+              chains={Array.from(new Set(side.result.chains.map((c: any) => c.chainId as string)))}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DeltaCard({ label, value, percent, unit }: { label: string, value: number, percent: number, unit: string }) {
+  const isPositive = value > 0;
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xs text-muted-foreground uppercase tracking-wider">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold flex items-baseline gap-2">
+          {isPositive ? '+' : ''}{value.toFixed(1)}
+          <span className="text-xs font-normal text-muted-foreground">{unit}</span>
+        </div>
+        <div className={`text-sm mt-1 font-semibold ${isPositive ? 'text-green-600' : 'text-blue-600'}`}>
+          {Math.abs(percent).toFixed(1)}% difference
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+import { SecondaryStructureContact } from "@shared/schema";
+import { SS_ELEMENT_COLORS } from "@/lib/secondary-structure";
+
+interface SecondaryStructureContactsProps {
+  data?: SecondaryStructureContact[];
+}
+
+const ELEMENT_COLORS: Record<SecondaryStructureContact["elements"], string[]> = {
+  "Helix–Helix": [SS_ELEMENT_COLORS.helix, SS_ELEMENT_COLORS.helix],
+  "Strand–Strand": [SS_ELEMENT_COLORS.strand, SS_ELEMENT_COLORS.strand],
+  "Helix–Strand": [SS_ELEMENT_COLORS.helix, SS_ELEMENT_COLORS.strand],
+  "Loop-mediated": [SS_ELEMENT_COLORS.loop, SS_ELEMENT_COLORS.loop],
+};
+
+// Interactions between polymer residues grouped by the structural elements they join
+export function SecondaryStructureContacts({ data }: SecondaryStructureContactsProps) {
+  const total = data?.reduce((sum, row) => sum + row.total, 0) ?? 0;
+  if (!data || total === 0) return null;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 shadow-sm">
+      <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider mb-4">Structural Elements</h3>
+      <table className="w-full text-sm">
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-semibold py-1">Elements</th>
+            <th className="text-right font-semibold py-1">All</th>
+            <th className="text-right font-semibold py-1">Inter-Chain</th>
+            <th className="text-right font-semibold py-1">Share</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {data.map(row => (
+            <tr key={row.elements} data-testid={`row-ss-${row.elements.toLowerCase().replace(/[^a-z]+/g, "-")}`}>
+              <td className="py-1.5 flex items-center gap-2">
+                <span className="flex gap-0.5">
+                  {ELEMENT_COLORS[row.elements].map((color, idx) => (
+                    <span key={idx} className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+                {row.elements}
+              </td>
+              <td className="py-1.5 text-right font-mono">{row.total}</td>
+              <td className="py-1.5 text-right font-mono text-blue-700">{row.inter}</td>
+              <td className="py-1.5 text-right font-mono text-muted-foreground">{((row.total / total) * 100).toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlignLeft } from "lucide-react";
+import { useMemo, useState, type ReactNode } from "react";
+import type { ChainSequenceAlignment, SequenceAlignmentColumn } from "@shared/schema";
+
+interface SequenceAlignmentPanelProps {
+  alignments: ChainSequenceAlignment[];
+  pdbA: string;
+  pdbB: string;
+}
+
+const BLOCK_SIZE = 60;
+
+function isGap(code: string) {
+  return code === "-";
+}
+
+function residueClass(code: string, isInterface: boolean, conserved: boolean) {
+  if (isGap(code)) return "text-muted-foreground/60 bg-muted";
+  if (conserved) return "bg-pink-500 text-white font-bold";
+  if (isInterface) return "bg-pink-100 text-pink-900";
+  return "";
+}
+
+function columnTitle(column: SequenceAlignmentColumn, chainA: string, chainB: string, pdbA: string, pdbB: string) {
+  const side = (pdb: string, chain: string, code: string, seq: number | null, isInterface: boolean) =>
+    isGap(code) ? `${pdb}: gap` : `${pdb} ${chain}:${code}${seq}${isInterface ? " (interface)" : ""}`;
+  return `${side(pdbA, chainA, column.codeA, column.residueSeqA, column.interfaceA)}\n${side(pdbB, chainB, column.codeB, column.residueSeqB, column.interfaceB)}`;
+}
+
+// First residue number of a block, or the nearest one after it when the block starts in a gap
+function blockStart(columns: SequenceAlignmentColumn[], key: "residueSeqA" | "residueSeqB") {
+  return columns.find(c => c[key] !== null)?.[key] ?? "";
+}
+
+export function SequenceAlignmentPanel({ alignments, pdbA, pdbB }: SequenceAlignmentPanelProps) {
+  const [selected, setSelected] = useState(0);
+  const [interfaceOnly, setInterfaceOnly] = useState(false);
+  const alignment = alignments[Math.min(selected, alignments.length - 1)];
+
+  const stats = useMemo(() => {
+    if (!alignment) return null;
+    const interfaceA = alignment.columns.filter(c => c.interfaceA).length;
+    const interfaceB = alignment.columns.filter(c => c.interfaceB).length;
+    const shared = alignment.columns.filter(c => c.interfaceA && c.interfaceB);
+    return {
+      interfaceA,
+      interfaceB,
+      shared: shared.length,
+      conserved: shared.filter(c => c.codeA === c.codeB).length,
+    };
+  }, [alignment]);
+
+  const blocks = useMemo(() => {
+    if (!alignment) return [];
+    const columns = interfaceOnly ? alignment.columns.filter(c => c.interfaceA || c.interfaceB) : alignment.columns;
+    const result: SequenceAlignmentColumn[][] = [];
+    for (let i = 0; i < columns.length; i += BLOCK_SIZE) result.push(columns.slice(i, i + BLOCK_SIZE));
+    return result;
+  }, [alignment, interfaceOnly]);
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <AlignLeft className="w-4 h-4" />
+          Sequence Alignment
+          {alignment && (
+            <Badge variant="outline" className="ml-auto font-normal">
+              {alignment.mode === "local" ? "Local (Smith–Waterman)" : "Global (Needleman–Wunsch)"}, BLOSUM62
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!alignment || !stats ? (
+          <p className="text-sm text-muted-foreground">
+            No chains of {pdbA} and {pdbB} share enough sequence to align.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {alignments.length > 1 && (
+                <select
+                  className="px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20"
+                  value={selected}
+                  onChange={(e) => setSelected(Number(e.target.value))}
+                  data-testid="select-alignment-chain"
+                >
+                  {alignments.map((a, index) => (
+                    <option key={`${a.chainA}-${a.chainB}`} value={index}>
+                      {pdbA} {a.chainA} ↔ {pdbB} {a.chainB}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={interfaceOnly}
+                  onChange={(e) => setInterfaceOnly(e.target.checked)}
+                  data-testid="checkbox-alignment-interface-only"
+                />
+                Interface columns only
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+              <div className="p-2 bg-muted rounded">
+                <div className="text-xs text-muted-foreground">Identity</div>
+                <div className="font-bold" data-testid="text-alignment-identity">{(alignment.identity * 100).toFixed(1)}%</div>
+              </div>
+              <div className="p-2 bg-muted rounded">
+                <div className="text-xs text-muted-foreground">Similarity</div>
+                <div className="font-bold">{(alignment.similarity * 100).toFixed(1)}%</div>
+              </div>
+              <div className="p-2 bg-muted rounded">
+                <div className="text-xs text-muted-foreground">Aligned / Gaps</div>
+                <div className="font-bold">{alignment.alignedResidues} / {alignment.gaps}</div>
+              </div>
+              <div className="p-2 bg-muted rounded">
+                <div className="text-xs text-muted-foreground">Score</div>
+                <div className="font-bold">{alignment.score}</div>
+              </div>
+              <div className="p-2 bg-pink-50 rounded">
+                <div className="text-xs text-pink-700">Conserved interface</div>
+                <div className="font-bold text-pink-900" data-testid="text-alignment-conserved">
+                  {stats.conserved} / {stats.shared}
+                </div>
+              </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                Observed residues: {pdbA} {alignment.chainA} {alignment.observedA}
+                {alignment.seqresA !== null && ` of ${alignment.seqresA.length} in SEQRES`};{" "}
+                {pdbB} {alignment.chainB} {alignment.observedB}
+                {alignment.seqresB !== null && ` of ${alignment.seqresB.length} in SEQRES`}.
+              </p>
+              <p>
+                Interface residues: {stats.interfaceA} in {pdbA}, {stats.interfaceB} in {pdbB}; {stats.shared} aligned
+                in both, {stats.conserved} of them identical.
+              </p>
+            </div>
+
+            <div className="overflow-x-auto border border-border rounded-lg p-3 font-mono text-xs leading-5 space-y-3" data-testid="alignment-blocks">
+              {blocks.map((block, index) => (
+                <div key={index} className="whitespace-nowrap">
+                  <AlignmentRow label={`${pdbA} ${alignment.chainA}`} start={blockStart(block, "residueSeqA")}>
+                    {block.map((c, k) => (
+                      <span
+                        key={k}
+                        className={`inline-block w-[1ch] text-center ${residueClass(c.codeA, c.interfaceA, c.interfaceA && c.interfaceB && c.codeA === c.codeB)}`}
+                        title={columnTitle(c, alignment.chainA, alignment.chainB, pdbA, pdbB)}
+                      >
+                        {c.codeA}
+                      </span>
+                    ))}
+                  </AlignmentRow>
+                  <AlignmentRow label="" start="">
+                    {block.map((c, k) => (
+                      <span key={k} className="inline-block w-[1ch] text-center text-muted-foreground">
+                        {!isGap(c.codeA) && c.codeA === c.codeB ? "|" : " "}
+                      </span>
+                    ))}
+                  </AlignmentRow>
+                  <AlignmentRow label={`${pdbB} ${alignment.chainB}`} start={blockStart(block, "residueSeqB")}>
+                    {block.map((c, k) => (
+                      <span
+                        key={k}
+                        className={`inline-block w-[1ch] text-center ${residueClass(c.codeB, c.interfaceB, c.interfaceA && c.interfaceB && c.codeA === c.codeB)}`}
+                        title={columnTitle(c, alignment.chainA, alignment.chainB, pdbA, pdbB)}
+                      >
+                        {c.codeB}
+                      </span>
+                    ))}
+                  </AlignmentRow>
+                </div>
+              ))}
+              {blocks.length === 0 && <p className="text-muted-foreground">No interface residues in the aligned region.</p>}
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-pink-500" />Conserved interface position</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-pink-100 border border-pink-200" />Interface residue</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-muted border border-border" />Gap</span>
+              <span>| identical residue</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AlignmentRow({ label, start, children }: { label: string; start: number | string; children: ReactNode }) {
+  return (
+    <div className="flex">
+      <span className="w-24 shrink-0 truncate text-muted-foreground">{label}</span>
+      <span className="w-12 shrink-0 text-right pr-2 text-muted-foreground">{start}</span>
+      <span>{children}</span>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Grid3x3 } from "lucide-react";
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import { clusterColor } from "@/lib/clusters";
+import type { ComparisonResult } from "@shared/schema";
+
+interface SimilarityMatrixProps {
+  results: ComparisonResult;
+  selected?: number[];
+  // Clicking an off-diagonal cell picks that pair for the side-by-side view
+  onSelectPair?: (a: number, b: number) => void;
+}
+
+type MatrixMetric = "jaccard" | "rmsd";
+
+// Values are printed in the cells up to this many structures
+const MAX_LABELLED = 12;
+
+// White to blue by similarity in [0, 1]
+function heat(similarity: number): string {
+  const t = Math.max(0, Math.min(1, similarity));
+  const channel = (from: number, to: number) => Math.round(from + (to - from) * t);
+  return `rgb(${channel(255, 29)}, ${channel(255, 78)}, ${channel(255, 216)})`;
+}
+
+// Pairwise interface Jaccard and RMSD of the compared structures, ordered by
+// cluster, with the cluster membership below
+export function SimilarityMatrix({ results, selected = [], onSelectPair }: SimilarityMatrixProps) {
+  const [metric, setMetric] = useState<MatrixMetric>("jaccard");
+  const { structures, similarity, clustering } = results;
+
+  // Cluster by cluster, best ranked first
+  const order = useMemo(
+    () => structures.slice().sort((x, y) => x.cluster - y.cluster || x.rank - y.rank).map(s => s.index),
+    [structures],
+  );
+
+  const maxRmsd = useMemo(
+    () => similarity.rmsd.reduce((max, row) => row.reduce<number>((m, d) => (d !== null && d > m ? d : m), max), 1),
+    [similarity],
+  );
+
+  const cell = (i: number, j: number) => {
+    if (metric === "jaccard") {
+      const value = similarity.jaccard[i][j];
+      return { text: value.toFixed(2), color: heat(value) };
+    }
+    const value = similarity.rmsd[i][j];
+    return value === null
+      ? { text: "—", color: "hsl(var(--muted))" }
+      : { text: value.toFixed(1), color: heat(1 - value / maxRmsd) };
+  };
+
+  const labelled = structures.length <= MAX_LABELLED;
+  const name = (index: number) => structures[index].name;
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Grid3x3 className="w-4 h-4" />
+          Pairwise Similarity
+          <div className="ml-auto flex bg-muted p-1 rounded-lg">
+            {([["jaccard", "Interface Jaccard"], ["rmsd", "CA RMSD"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMetric(value)}
+                className={clsx(
+                  "px-2 py-1 text-xs font-medium rounded-md transition-all",
+                  metric === value ? "bg-white text-primary shadow-sm" : "text-muted-foreground"
+                )}
+                data-testid={`button-matrix-${value}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-auto">
+          <table className="border-separate border-spacing-px text-[10px]">
+            <thead>
+              <tr>
+                <th />
+                {order.map(j => (
+                  <th key={j} className="align-bottom p-0">
+                    <div
+                      className={clsx("mx-auto whitespace-nowrap [writing-mode:vertical-rl] rotate-180 font-normal text-muted-foreground", labelled ? "max-h-24" : "max-h-16")}
+                      title={name(j)}
+                    >
+                      {name(j)}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {order.map(i => (
+                <tr key={i}>
+                  <th className="pr-2 text-right font-normal whitespace-nowrap max-w-[10rem] truncate">
+                    <span className="inline-flex items-center gap-1">
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: clusterColor(structures[i].cluster) }} />
+                      {name(i)}
+                    </span>
+                  </th>
+                  {order.map(j => {
+                    const { text, color } = cell(i, j);
+                    const pickable = !!onSelectPair && i !== j;
+                    return (
+                      <td
+                        key={j}
+                        className={clsx(
+                          "text-center",
+                          labelled ? "w-10 h-7" : "w-3 h-3 p-0",
+                          pickable && "cursor-pointer hover:outline hover:outline-1 hover:outline-primary",
+                          i !== j && selected.includes(i) && selected.includes(j) && "outline outline-2 outline-primary",
+                        )}
+                        style={{ backgroundColor: color }}
+                        onClick={pickable ? () => onSelectPair!(i, j) : undefined}
+                        title={`${name(i)} · ${name(j)}: ${text}${metric === "rmsd" && text !== "—" ? " Å" : ""}`}
+                      >
+                        {labelled && text}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {metric === "jaccard"
+            ? "Shared inter-chain residue contacts over all contacts of the two structures, after sequence-based residue mapping."
+            : `CA RMSD of the least-squares fit over sequence-paired residues; darker is closer (scale to ${maxRmsd.toFixed(1)} Å).`}
+          {onSelectPair && " Click a cell to pick that pair for the side-by-side comparison."}
+        </p>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium">
+            {clustering.clusters.length} cluster{clustering.clusters.length === 1 ? "" : "s"} (average linkage,{" "}
+            {clustering.metric === "interface" ? `interface distance ≤ ${clustering.threshold}` : `RMSD ≤ ${clustering.threshold} Å`})
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {clustering.clusters.map(cluster => (
+              <div key={cluster.id} className="border border-border rounded-lg px-2 py-1 text-xs" data-testid={`cluster-${cluster.id}`}>
+                <span className="inline-flex items-center gap-1 font-semibold">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: clusterColor(cluster.id) }} />
+                  Cluster {cluster.id}
+                </span>
+                <span className="text-muted-foreground"> · {cluster.members.length} · representative </span>
+                <span className="font-medium">{name(cluster.representative)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Activity, TrendingUp } from "lucide-react";
+import type { Superposition } from "@shared/schema";
 
 interface StructureSimilarityMetricsProps {
   resultA: any;
   resultB: any;
   pdbA: string;
   pdbB: string;
+  superposition?: Superposition | null;
 }
 
-export function StructureSimilarityMetrics({ resultA, resultB, pdbA, pdbB }: StructureSimilarityMetricsProps) {
+export function StructureSimilarityMetrics({ resultA, resultB, pdbA, pdbB, superposition }: StructureSimilarityMetricsProps) {
   // Calculate similarity metrics
   const getInterChainInteractions = (result: any) => {
-    return result?.interactions?.filter((i: any) => !i.isIntraMolecular).length || 0;
+    return result?.summary?.interProteinInteractions || 0;
   };
 
   const getIntraChainInteractions = (result: any) => {
-    return result?.interactions?.filter((i: any) => i.isIntraMolecular).length || 0;
+    return result?.summary?.intraProteinInteractions || 0;
   };
 
   const interA = getInterChainInteractions(resultA);
@@ -27,9 +29,8 @@ export function StructureSimilarityMetrics({ resultA, resultB, pdbA, pdbB }: Str
   const totalA = interA + intraA;
   const totalB = interB + intraB;
 
-  const similarity = totalA > 0 && totalB > 0 
-    ? ((Math.min(totalA, totalB) / Math.max(totalA, totalB)) * 100).toFixed(1)
-    : "N/A";
+  // TM-score of the CA superposition, shown as a percentage
+  const similarity = superposition ? (superposition.tmScore * 100).toFixed(1) : "N/A";
 
   const metrics = [
     { 
@@ -104,18 +105,22 @@ export function StructureSimilarityMetrics({ resultA, resultB, pdbA, pdbB }: Str
             </div>
           </div>
           <p className="text-xs text-muted-foreground leading-relaxed">
-            Based on interaction count similarity. Higher values indicate more structurally similar binding behavior.
+            {superposition
+              ? `TM-score of ${pdbA} superposed onto ${pdbB} (CA atoms). Above 50% the two generally share a fold.`
+              : "No residue correspondence between the chains, so the structures could not be superposed."}
           </p>
-          <div className="pt-2 border-t border-border space-y-1 text-xs">
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">{pdbA} Total:</span>
-              <span className="font-semibold">{totalA}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">{pdbB} Total:</span>
-              <span className="font-semibold">{totalB}</span>
+          {superposition && (
+            <div className="pt-2 border-t border-border space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">CA RMSD:</span>
+                <span className="font-semibold">{superposition.rmsd.toFixed(2)} Å</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Aligned residues:</span>
+                <span className="font-semibold">{superposition.alignedResidues}</span>
+              </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,138 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { NGLViewer } from "@/components/NGLViewer";
+import { Layers } from "lucide-react";
+import { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { Superposition } from "@shared/schema";
+
+interface StructureSuperpositionProps {
+  superposition: Superposition | null;
+  contentB: string | undefined;
+  pdbA: string;
+  pdbB: string;
+}
+
+const COLOR_A = "#3b82f6";
+const COLOR_B = "#f97316";
+
+// TM-score above 0.5 generally means the same fold (Xu & Zhang, 2010)
+function describeTmScore(tmScore: number): string {
+  if (tmScore >= 0.8) return "Nearly identical structures";
+  if (tmScore >= 0.5) return "Same fold";
+  if (tmScore >= 0.3) return "Partial structural similarity";
+  return "Unrelated structures";
+}
+
+export function StructureSuperposition({ superposition, contentB, pdbA, pdbB }: StructureSuperpositionProps) {
+  // B's structure text loads separately; nothing is shown until it arrives
+  const proteins = useMemo(() => superposition && contentB ? [
+    { pdbContent: superposition.superposedContentA, name: pdbA, color: COLOR_A },
+    { pdbContent: contentB, name: pdbB, color: COLOR_B },
+  ] : [], [superposition, contentB, pdbA, pdbB]);
+
+  const deviations = useMemo(() => (superposition?.residues ?? []).map((r, index) => ({
+    index,
+    label: `${r.chainB}:${r.residueNameB} ${r.residueSeqB}`,
+    labelA: `${r.chainA}:${r.residueNameA} ${r.residueSeqA}`,
+    deviation: r.deviation,
+  })), [superposition]);
+
+  if (!superposition) {
+    return (
+      <Card className="border-border">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Structural Superposition
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          No chains of {pdbA} and {pdbB} share enough sequence to pair residues for superposition.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Structural Superposition ({pdbA} onto {pdbB})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 bg-muted rounded">
+              <div className="text-xs text-muted-foreground">CA RMSD</div>
+              <div className="font-bold" data-testid="text-superposition-rmsd">{superposition.rmsd.toFixed(2)} Å</div>
+            </div>
+            <div className="p-2 bg-muted rounded">
+              <div className="text-xs text-muted-foreground">TM-score</div>
+              <div className="font-bold" data-testid="text-superposition-tmscore">{superposition.tmScore.toFixed(3)}</div>
+            </div>
+            <div className="p-2 bg-muted rounded">
+              <div className="text-xs text-muted-foreground">Aligned CA</div>
+              <div className="font-bold">{superposition.alignedResidues}</div>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {describeTmScore(superposition.tmScore)}. RMSD is the least-squares fit over all paired CA atoms;
+            the overlay and per-residue deviations use the TM-score superposition.
+          </p>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground border-b border-border">
+                <th className="text-left py-1">Chains</th>
+                <th className="text-right py-1">Aligned</th>
+                <th className="text-right py-1">Identity</th>
+                <th className="text-right py-1">RMSD (Å)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {superposition.chains.map(chain => (
+                <tr key={`${chain.chainA}-${chain.chainB}`} className="border-b border-border/50" data-testid={`row-superposition-chain-${chain.chainA}`}>
+                  <td className="py-1 font-mono">{chain.chainA} → {chain.chainB}</td>
+                  <td className="py-1 text-right">{chain.alignedResidues}</td>
+                  <td className="py-1 text-right">{(chain.sequenceIdentity * 100).toFixed(0)}%</td>
+                  <td className="py-1 text-right">{chain.rmsd.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={deviations} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="index" tick={false} label={{ value: "Aligned residue", position: "insideBottom", offset: 0, fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} label={{ value: "Deviation (Å)", angle: -90, position: "insideLeft", fontSize: 11 }} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: "#fff", border: "1px solid #ccc" }}
+                  labelFormatter={(_, payload) => {
+                    const entry = payload?.[0]?.payload;
+                    return entry ? `${entry.labelA} ↔ ${entry.label}` : "";
+                  }}
+                  formatter={(value: number) => [`${value.toFixed(2)} Å`, "Deviation"]}
+                />
+                <Line dataKey="deviation" stroke="#8b5cf6" strokeWidth={1} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="h-[420px] w-full border border-border rounded-lg overflow-hidden">
+            <NGLViewer proteins={proteins} className="w-full h-full" />
+          </div>
+          <div className="flex justify-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ backgroundColor: COLOR_A }} />{pdbA} (superposed)</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full" style={{ backgroundColor: COLOR_B }} />{pdbB}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
 import { useLocation } from "wouter";
-import type { AnalysisSession, ProteinSource } from "@shared/schema";
+import type { AnalysisConfig, AnalysisSession, AnalysisSessionList, CompareJob, ContactMap, InteractionNetwork, InteractionPage, ProteinSource } from "@shared/schema";
 
 async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
   const res = await fetch(url, { ...options, credentials: "include" });
@@ -28,10 +28,181 @@ export function useAnalysis(id: number | null) {
   });
 }
 
+// Comparison job, polled until it completes or fails
+export function useCompareJob(id: number | null) {
+  return useQuery({
+    queryKey: [api.compare.get.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.compare.get.path, { id: id! });
+      return await fetchJson<CompareJob>(url);
+    },
+    enabled: !!id,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "processing" ? 1000 : false;
+    },
+  });
+}
+
+// Structure text of one side of a comparison's pair, for the viewers
+export function usePairStructure({ comparisonId, side }: PairSideRef) {
+  return useQuery({
+    queryKey: [api.compare.pairStructure.path, comparisonId, side],
+    queryFn: async () => {
+      const url = buildUrl(api.compare.pairStructure.path, { id: comparisonId, side });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      return res.text();
+    },
+    staleTime: Infinity,
+  });
+}
+
+export interface AnalysisListFilters {
+  page: number;
+  pageSize: number;
+  pdbId?: string;
+  organism?: string;
+  method?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+}
+
+export function useAnalysisList(filters: AnalysisListFilters) {
+  return useQuery({
+    queryKey: [api.analysis.list.path, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") params.set(key, String(value));
+      });
+      return await fetchJson<AnalysisSessionList>(`${api.analysis.list.path}?${params}`);
+    },
+    placeholderData: (previous) => previous,
+    // Keep queued/running rows fresh while they are on screen
+    refetchInterval: (query) =>
+      query.state.data?.items.some(s => s.status === "pending" || s.status === "processing") ? 2000 : false,
+  });
+}
+
+export function useRenameAnalysis() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, title }: { id: number; title: string }) => {
+      const url = buildUrl(api.analysis.rename.path, { id });
+      return await fetchJson<AnalysisSession>(url, {
+        method: api.analysis.rename.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [api.analysis.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.analysis.get.path, id] });
+    },
+  });
+}
+
+export function useDeleteAnalysis() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.analysis.delete.path, { id });
+      const res = await fetch(url, { method: api.analysis.delete.method, credentials: "include" });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || `API Error: ${res.status}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.analysis.list.path] });
+    },
+  });
+}
+
+export interface InteractionQuery {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortDir?: "asc" | "desc";
+  type?: string;
+  chain?: string;
+  residueMin?: number;
+  residueMax?: number;
+  distanceMin?: number;
+  distanceMax?: number;
+  category?: "all" | "intra" | "inter";
+  search?: string;
+}
+
+// One side of a completed comparison's pair
+export type PairSideRef = { comparisonId: number; side: "A" | "B" };
+
+// Lists a session's interactions (by id) or those of a comparison pair side
+export function useInteractions(source: number | PairSideRef | null, query: InteractionQuery) {
+  return useQuery({
+    queryKey: [api.analysis.interactions.path, source, query],
+    queryFn: async () => {
+      if (!source) throw new Error("ID required");
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== "" && !Number.isNaN(value)) params.set(key, String(value));
+      });
+      const url = typeof source === "number"
+        ? buildUrl(api.analysis.interactions.path, { id: source })
+        : buildUrl(api.compare.pairInteractions.path, { id: source.comparisonId, side: source.side });
+      return await fetchJson<InteractionPage>(`${url}?${params}`);
+    },
+    enabled: !!source,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Chains are "PROTEIN:CHAIN" keys; the query waits until both are chosen
+export function useContactMap(id: number | null, chainA: string | null, chainB: string | null) {
+  return useQuery({
+    queryKey: [api.analysis.contactMap.path, id, chainA, chainB],
+    queryFn: async () => {
+      const params = new URLSearchParams({ chainA: chainA!, chainB: chainB! });
+      const url = buildUrl(api.analysis.contactMap.path, { id: id! });
+      return await fetchJson<ContactMap>(`${url}?${params}`);
+    },
+    enabled: !!id && !!chainA && !!chainB,
+  });
+}
+
+export interface NetworkQuery {
+  level: "chains" | "residues";
+  chainA?: string;
+  chainB?: string;
+}
+
+function networkParams(query: NetworkQuery, format: "json" | "graphml" | "cytoscape"): URLSearchParams {
+  const params = new URLSearchParams({ level: query.level, format });
+  if (query.chainA) params.set("chainA", query.chainA);
+  if (query.chainB) params.set("chainB", query.chainB);
+  return params;
+}
+
+export function useNetwork(id: number | null, query: NetworkQuery) {
+  return useQuery({
+    queryKey: [api.analysis.network.path, id, query],
+    queryFn: async () => {
+      const url = buildUrl(api.analysis.network.path, { id: id! });
+      return await fetchJson<InteractionNetwork>(`${url}?${networkParams(query, "json")}`);
+    },
+    enabled: !!id && (query.level === "chains" || (!!query.chainA && !!query.chainB)),
+  });
+}
+
 export interface CreateAnalysisRequest {
   title: string;
   proteinSource: ProteinSource;
   proteinContent: string;
+  config?: Partial<AnalysisConfig>;
 }
 
 export function useCreateAnalysis() {
@@ -65,5 +236,8 @@ export function useDownloadUrls(id: number) {
     interProteinUrl: buildUrl(api.analysis.downloadInterProtein.path, { id }),
     intraProteinUrl: buildUrl(api.analysis.downloadIntraProtein.path, { id }),
     structureUrl: buildUrl(api.analysis.downloadStructure.path, { id }),
+    ligandUrl: (ligandId: string) => buildUrl(api.analysis.downloadLigand.path, { id, ligandId: encodeURIComponent(ligandId) }),
+    networkUrl: (query: NetworkQuery, format: "graphml" | "cytoscape") =>
+      `${buildUrl(api.analysis.network.path, { id })}?${networkParams(query, format)}`,
   };
 }
@@ -0,0 +1,17 @@
+// Colors of structure clusters in the N-way comparison, cycled past ten clusters
+const CLUSTER_COLORS = [
+  "#3b82f6",
+  "#f97316",
+  "#10b981",
+  "#a855f7",
+  "#ef4444",
+  "#14b8a6",
+  "#eab308",
+  "#ec4899",
+  "#6366f1",
+  "#84cc16",
+];
+
+export function clusterColor(cluster: number): string {
+  return CLUSTER_COLORS[(cluster - 1) % CLUSTER_COLORS.length];
+}
@@ -0,0 +1,79 @@
+// Fruchterman–Reingold layout for the small graphs the network view draws
+// (tens to a few hundred nodes). Starts from a circle so the same graph
+// always settles into the same picture.
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+// Pull towards the centre per unit distance; keeps sparse graphs off the borders
+const GRAVITY = 1.5;
+
+export function forceLayout(ids: string[], links: LayoutLink[], width: number, height: number, iterations = 300): LayoutPositions {
+  const n = ids.length;
+  const positions: LayoutPositions = new Map();
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) / 3;
+  ids.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(n, 1);
+    positions.set(id, { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+  });
+  if (n < 2) return positions;
+
+  const k = 0.5 * Math.sqrt((width * height) / n);
+  const maxWeight = Math.max(...links.map(l => l.weight), 1);
+  const margin = 20;
+  let temperature = width / 10;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const shift = new Map(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < n; i++) {
+      const a = positions.get(ids[i])!;
+      for (let j = i + 1; j < n; j++) {
+        const b = positions.get(ids[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / dist;
+        const sa = shift.get(ids[i])!;
+        const sb = shift.get(ids[j])!;
+        sa.x += (dx / dist) * force; sa.y += (dy / dist) * force;
+        sb.x -= (dx / dist) * force; sb.y -= (dy / dist) * force;
+      }
+    }
+
+    // Heavier links pull harder (log-scaled so a few dense pairs do not dominate)
+    for (const link of links) {
+      const a = positions.get(link.source);
+      const b = positions.get(link.target);
+      if (!a || !b || a === b) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = ((dist * dist) / k) * (0.5 + Math.log1p(link.weight) / Math.log1p(maxWeight));
+      const sa = shift.get(link.source)!;
+      const sb = shift.get(link.target)!;
+      sa.x -= (dx / dist) * force; sa.y -= (dy / dist) * force;
+      sb.x += (dx / dist) * force; sb.y += (dy / dist) * force;
+    }
+
+    ids.forEach(id => {
+      const p = positions.get(id)!;
+      const s = shift.get(id)!;
+      s.x += (cx - p.x) * GRAVITY;
+      s.y += (cy - p.y) * GRAVITY;
+      const len = Math.sqrt(s.x * s.x + s.y * s.y) || 1;
+      const step = Math.min(len, temperature);
+      p.x = Math.min(width - margin, Math.max(margin, p.x + (s.x / len) * step));
+      p.y = Math.min(height - margin, Math.max(margin, p.y + (s.y / len) * step));
+    });
+    temperature *= 0.98;
+  }
+  return positions;
+}
@@ -0,0 +1,24 @@
+import type { SecondaryStructureCode } from "@shared/schema";
+
+// DSSP codes grouped into the three elements the UI distinguishes
+export const SS_LABELS: Record<SecondaryStructureCode, string> = {
+  H: "α-helix",
+  G: "3₁₀-helix",
+  I: "π-helix",
+  E: "Strand",
+  B: "Bridge",
+  T: "Turn",
+  "-": "Coil",
+};
+
+export const SS_ELEMENT_COLORS = {
+  helix: "#e11d48",
+  strand: "#d97706",
+  loop: "#9ca3af",
+};
+
+export function ssColor(code?: string): string {
+  if (code === "H" || code === "G" || code === "I") return SS_ELEMENT_COLORS.helix;
+  if (code === "E" || code === "B") return SS_ELEMENT_COLORS.strand;
+  return SS_ELEMENT_COLORS.loop;
+}
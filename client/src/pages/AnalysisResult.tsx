@@ -1,34 +1,168 @@
 import { useRoute } from "wouter";
-import { useAnalysis, useDownloadUrls } from "@/hooks/use-analysis";
-import { NGLViewer } from "@/components/NGLViewer";
+import { useAnalysis, useDownloadUrls, useInteractions } from "@/hooks/use-analysis";
+import { NGLViewer, type InteractionFocus, type LigandFocus, type PickedAtom } from "@/components/NGLViewer";
 import { InteractionTable } from "@/components/InteractionTable";
 import { InteractionCharts } from "@/components/Charts";
 import { BindingAffinityWidget } from "@/components/BindingAffinityWidget";
-import { DensityVisualization } from "@/components/DensityVisualization";
+import { DensityVisualization, type DensityResidue } from "@/components/DensityVisualization";
 import { ChainInteractionSummary } from "@/components/ChainInteractionSummary";
-import { Loader2, Download, AlertCircle, ArrowLeft, Dna, Zap, Link as LinkIcon, Info, Box, Activity, TrendingUp, Grid3x3 } from "lucide-react";
+import { BindingSites } from "@/components/BindingSites";
+import { SecondaryStructureContacts } from "@/components/SecondaryStructureContacts";
+import { ContactMap, type ContactSelection } from "@/components/ContactMap";
+import { NetworkGraph } from "@/components/NetworkGraph";
+import { Loader2, Download, AlertCircle, ArrowLeft, Dna, Zap, Link as LinkIcon, Info, Box, Activity, TrendingUp, Grid3x3, Pill, LayoutGrid } from "lucide-react";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { type AnalysisResult } from "@shared/schema";
-import React, { useState, useMemo } from "react";
+import { Progress } from "@/components/ui/progress";
+import { type AnalysisSummaryWithStats, type AnalysisConfig, type ModelSelection, type ParseReport, type BindingSite, type Interaction } from "@shared/schema";
+import React, { useState, useMemo, useCallback } from "react";
+
+function describeModels(models: ModelSelection): string {
+  const total = models.available.length;
+  if (models.mode === "single") return `Model ${models.analyzed[0]} of ${total}`;
+  if (models.mode === "consensus") return `Consensus of ${total} (≥ ${Math.round((models.consensusThreshold ?? 0) * 100)}%)`;
+  return `All ${total} models`;
+}
+
+function describeParseReport(report: ParseReport): string {
+  const parts = [
+    `${report.residuesWithAltLocs} residues with alternate locations (policy: ${report.altLocPolicy}, ${report.altLocAtomsDropped} atoms dropped)`,
+  ];
+  if (report.minOccupancy > 0) {
+    parts.push(`${report.lowOccupancyDropped} atoms below occupancy ${report.minOccupancy}`);
+  }
+  return parts.join("; ");
+}
+
+// NGL selection for one side of an interaction, e.g. "401:A.O1"
+function atomSelection(residue: string, chainId: string, atom: string): string {
+  return `${parseInt(residue.split(" ")[1])}:${chainId}.${atom.split(" ")[0]}`;
+}
+
+// Endpoints of one interaction for the viewer; water bridges are measured leg by leg
+function interactionFocusOf(i: Interaction): InteractionFocus {
+  const from = atomSelection(i.residueA, i.chainA, i.atomA);
+  const to = atomSelection(i.residueB, i.chainB, i.atomB);
+  const residues = [
+    { chainId: i.chainA, residueSeq: parseInt(i.residueA.split(" ")[1]) },
+    { chainId: i.chainB, residueSeq: parseInt(i.residueB.split(" ")[1]) },
+  ];
+  if (!i.waterBridge) return { pairs: [[from, to]], residues };
+  const water = atomSelection(i.waterBridge.waterResidue, i.waterBridge.waterChain, "O");
+  return {
+    pairs: [[from, water], [water, to]],
+    residues: [...residues, { chainId: i.waterBridge.waterChain, residueSeq: parseInt(i.waterBridge.waterResidue.split(" ")[1]) }],
+  };
+}
+
+// Contacts drawn in the pocket view: every specific contact plus, for residues
+// held only by van der Waals contacts, the closest one (input is distance-sorted)
+function pocketContacts(site: BindingSite, interactions: Interaction[]): LigandFocus["contacts"] {
+  const label = `${site.residueName} ${site.residueSeq}`;
+  const isLigand = (chainId: string, residue: string) => chainId === site.chainId && residue === label;
+  const covered = new Set<string>();
+  const contacts: LigandFocus["contacts"] = [];
+
+  interactions.forEach(i => {
+    const ligandIsA = isLigand(i.chainA, i.residueA);
+    if (i.ring || ligandIsA === isLigand(i.chainB, i.residueB)) return;
+    const partner = ligandIsA ? `${i.chainB}|${i.residueB}` : `${i.chainA}|${i.residueA}`;
+    if (i.type === "Van der Waals" && covered.has(partner)) return;
+    covered.add(partner);
+    const from = atomSelection(i.residueA, i.chainA, i.atomA);
+    const to = atomSelection(i.residueB, i.chainB, i.atomB);
+    if (i.waterBridge) {
+      // Drawn as its two legs through the water oxygen
+      const water = atomSelection(i.waterBridge.waterResidue, i.waterBridge.waterChain, "O");
+      contacts.push({ from, to: water, type: i.type }, { from: water, to, type: i.type });
+    } else {
+      contacts.push({ from, to, type: i.type });
+    }
+  });
+  return contacts;
+}
 
 export default function AnalysisResultPage() {
   const [match, params] = useRoute("/analysis/:id");
   const id = match ? parseInt(params.id) : null;
   const [showDensity, setShowDensity] = useState(false);
-  const [activeTab, setActiveTab] = useState<"interactions" | "chains">("interactions");
+  const [activeTab, setActiveTab] = useState<"interactions" | "chains" | "contacts" | "ligands">("interactions");
+  const [focusedSite, setFocusedSite] = useState<BindingSite | null>(null);
+  const [selectedContact, setSelectedContact] = useState<ContactSelection | null>(null);
+  const [chainView, setChainView] = useState<"list" | "network">("list");
+  const [selectedInteraction, setSelectedInteraction] = useState<Interaction | null>(null);
+  const [densityResidue, setDensityResidue] = useState<DensityResidue | null>(null);
+  const [pickedResidue, setPickedResidue] = useState<{ chainId: string; residueSeq: number } | null>(null);
 
   const { data: session, isLoading, error } = useAnalysis(id);
-  const { interProteinUrl, intraProteinUrl, structureUrl } = useDownloadUrls(id || 0);
+  const { interProteinUrl, intraProteinUrl, structureUrl, ligandUrl } = useDownloadUrls(id || 0);
 
-  const result = session?.result as unknown as AnalysisResult | undefined;
+  const result = session?.result as AnalysisSummaryWithStats | undefined;
+  const config = session?.config as AnalysisConfig | null | undefined;
   
-  // Interface residues calculation logic simplified for the new resultSummary structure
-  const interfaceResidues = useMemo(() => {
-    return []; // Future scope for the redesigned density-based visualization
+  const { data: ligandInteractions } = useInteractions(focusedSite ? id : null, {
+    page: 1,
+    pageSize: 500,
+    sortBy: "distance",
+    chain: focusedSite?.chainId,
+    residueMin: focusedSite?.residueSeq,
+    residueMax: focusedSite?.residueSeq,
+  });
+
+  const ligandFocus = useMemo<LigandFocus | null>(() => {
+    if (!focusedSite) return null;
+    return {
+      chainId: focusedSite.chainId,
+      residueSeq: focusedSite.residueSeq,
+      pocket: focusedSite.residues.map(r => ({ chainId: r.chainId, residueSeq: r.residueSeq })),
+      contacts: pocketContacts(focusedSite, ligandInteractions?.items ?? []),
+    };
+  }, [focusedSite, ligandInteractions]);
+
+  // The density bar or both residues of the contact-map cell last clicked
+  const highlightedResidues = useMemo(() => {
+    const chainId = (key: string) => key.split(":").pop() ?? "";
+    if (densityResidue) return [{ chainId: chainId(densityResidue.chain), residueSeq: densityResidue.residueSeq }];
+    if (!selectedContact) return [];
+    return [
+      { chainId: chainId(selectedContact.chainA), residueSeq: selectedContact.residueSeqA },
+      { chainId: chainId(selectedContact.chainB), residueSeq: selectedContact.residueSeqB },
+    ];
+  }, [selectedContact, densityResidue]);
+
+  const interactionFocus = useMemo(
+    () => selectedInteraction ? interactionFocusOf(selectedInteraction) : null,
+    [selectedInteraction],
+  );
+
+  // Atom picked in the viewer: show that residue's interactions in the table
+  const handleAtomPick = useCallback((atom: PickedAtom) => {
+    setPickedResidue({ chainId: atom.chainId, residueSeq: atom.residueSeq });
+    setActiveTab("interactions");
   }, []);
 
+  const chainKeys = useMemo(
+    () => (result?.chains || []).map((c: any) => `${c.proteinName}:${c.chainId}`),
+    [result?.chains],
+  );
+
+  if (session && (session.status === 'pending' || session.status === 'processing')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-full max-w-sm text-center space-y-4">
+          <Loader2 className="w-12 h-12 text-primary animate-spin mx-auto" />
+          <h2 className="text-xl font-semibold">Analyzing Structures...</h2>
+          <p className="text-muted-foreground capitalize" data-testid="text-job-stage">
+            {session.stage === 'queued' || !session.stage ? "Waiting in queue" : session.stage}
+          </p>
+          <Progress value={session.progress} data-testid="progress-job" />
+          <p className="text-xs text-muted-foreground font-mono">{session.progress}%</p>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading || !session) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -49,7 +183,9 @@ export default function AnalysisResultPage() {
             <AlertCircle className="w-6 h-6" />
           </div>
           <h2 className="text-xl font-bold text-destructive mb-2">Analysis Failed</h2>
-          <p className="text-muted-foreground mb-6">Could not process the structures provided.</p>
+          <p className="text-muted-foreground mb-6" data-testid="text-failure-reason">
+            {session?.errorMessage || "Could not process the structures provided."}
+          </p>
           <Link href="/" className="inline-block px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 font-medium">
             Try Again
           </Link>
@@ -227,6 +363,36 @@ export default function AnalysisResultPage() {
                   {session.proteinMetadata?.metadata ? "Rich" : "Basic"}
                 </Badge>
               </div>
+              {config && (
+                <div
+                  className="flex justify-between items-center text-sm"
+                  title={`Hydrophobic: ${config.hydrophobicResidues.join(", ")}; grid ${config.gridSize} Å`}
+                >
+                  <span className="text-muted-foreground">Cutoffs</span>
+                  <span className="font-medium font-mono text-xs" data-testid="text-analysis-cutoffs">
+                    {config.neighborCutoff} Å / {config.polarCutoff} Å polar
+                  </span>
+                </div>
+              )}
+              {result?.parseReport && (
+                <div
+                  className="flex justify-between items-center text-sm"
+                  title={describeParseReport(result.parseReport)}
+                >
+                  <span className="text-muted-foreground">Atoms kept</span>
+                  <span className="font-medium font-mono text-xs" data-testid="text-parse-report">
+                    {result.parseReport.atomsKept.toLocaleString()} / {result.parseReport.atomsParsed.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {result?.models && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">Models</span>
+                  <span className="font-medium text-xs" data-testid="text-analysis-models">
+                    {describeModels(result.models)}
+                  </span>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -281,12 +447,23 @@ export default function AnalysisResultPage() {
               </button>
             </div>
             {showDensity ? (
-              <div className="bg-white rounded-2xl border border-border shadow-sm p-4 h-96 shrink-0">
+              <div className="bg-white rounded-2xl border border-border shadow-sm p-4 h-[28rem] shrink-0 flex flex-col">
                 <h3 className="font-semibold text-sm mb-2 flex items-center gap-2">
                   <TrendingUp className="w-4 h-4 text-purple-600" />
                   Interaction Density Hotspots
                 </h3>
-                <DensityVisualization data={result?.interactionDensity} />
+                <div className="flex-1 min-h-0">
+                  <DensityVisualization
+                    data={result?.interactionDensity}
+                    profile={result?.residueProfile}
+                    selected={densityResidue}
+                    onSelect={(residue) => {
+                      setDensityResidue(residue);
+                      setSelectedContact(null);
+                      setShowDensity(false);
+                    }}
+                  />
+                </div>
               </div>
             ) : (
               <div className="bg-white rounded-2xl border border-border shadow-sm p-1 h-96 shrink-0">
@@ -296,7 +473,10 @@ export default function AnalysisResultPage() {
                     pdbContent: session.proteinMetadata.pdbContent || undefined,
                     name: session.proteinMetadata.name || "Protein"
                   }] : []}
-                  highlightResidues={interfaceResidues}
+                  highlightResidues={highlightedResidues}
+                  ligandFocus={ligandFocus}
+                  interactionFocus={interactionFocus}
+                  onAtomPick={handleAtomPick}
                   className="w-full h-full"
                 />
               </div>
@@ -307,7 +487,11 @@ export default function AnalysisResultPage() {
             </div>
             
             <div className="shrink-0">
-              <InteractionCharts interactions={result?.interactions || []} />
+              <InteractionCharts stats={result?.interactionStats} />
+            </div>
+
+            <div className="shrink-0">
+              <SecondaryStructureContacts data={result?.secondaryStructureContacts} />
             </div>
           </div>
 
@@ -336,19 +520,95 @@ export default function AnalysisResultPage() {
                 <Grid3x3 className="w-4 h-4" />
                 Chain Pairs
               </button>
+              <button
+                onClick={() => setActiveTab("contacts")}
+                data-testid="button-tab-contacts"
+                className={`flex-1 px-4 py-3 text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                  activeTab === "contacts"
+                    ? 'text-primary border-b-2 border-primary -mb-0.5'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <LayoutGrid className="w-4 h-4" />
+                Contact Map
+              </button>
+              <button
+                onClick={() => setActiveTab("ligands")}
+                data-testid="button-tab-ligands"
+                className={`flex-1 px-4 py-3 text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                  activeTab === "ligands"
+                    ? 'text-primary border-b-2 border-primary -mb-0.5'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                <Pill className="w-4 h-4" />
+                Binding Sites ({result?.bindingSites?.length ?? 0})
+              </button>
             </div>
 
             <div className="flex-1 overflow-hidden">
               {activeTab === "interactions" ? (
                 <div className="p-4 overflow-y-auto h-full">
-                  <InteractionTable 
-                    data={result?.interactions || []} 
-                    fullCount={result?.fullInteractionsCount}
+                  <InteractionTable
+                    source={session.id}
+                    chains={Array.from(new Set((result?.chains || []).map((c: any) => c.chainId as string)))}
+                    showOccupancy={!!result?.models && result.models.mode !== "single"}
+                    selectedId={selectedInteraction?.id}
+                    onSelect={(interaction) => {
+                      setSelectedInteraction(interaction);
+                      if (interaction) setShowDensity(false);
+                    }}
+                    residueFilter={pickedResidue}
+                  />
+                </div>
+              ) : activeTab === "chains" ? (
+                <div className="p-4 overflow-y-auto h-full space-y-3">
+                  <div className="flex justify-end">
+                    <div className="inline-flex rounded-lg border border-border p-0.5 text-xs">
+                      {(["list", "network"] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setChainView(view)}
+                          data-testid={`button-chain-view-${view}`}
+                          className={`px-3 py-1 rounded-md capitalize transition-colors ${
+                            chainView === view ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+                          }`}
+                        >
+                          {view}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {chainView === "list" ? (
+                    <ChainInteractionSummary data={result?.chainInteractionSummary} />
+                  ) : (
+                    <NetworkGraph sessionId={session.id} />
+                  )}
+                </div>
+              ) : activeTab === "contacts" ? (
+                <div className="p-4 overflow-y-auto h-full">
+                  <ContactMap
+                    sessionId={session.id}
+                    chains={chainKeys}
+                    selected={selectedContact}
+                    onSelect={(selection) => {
+                      setSelectedContact(selection);
+                      setDensityResidue(null);
+                      if (selection) setShowDensity(false);
+                    }}
                   />
                 </div>
               ) : (
                 <div className="p-4 overflow-y-auto h-full">
-                  <ChainInteractionSummary data={result?.chainInteractionSummary} />
+                  <BindingSites
+                    sites={result?.bindingSites}
+                    focusedLigandId={focusedSite?.ligandId}
+                    onFocus={(site) => {
+                      setFocusedSite(site);
+                      if (site) setShowDensity(false);
+                    }}
+                    downloadUrl={ligandUrl}
+                  />
                 </div>
               )}
             </div>
@@ -1,71 +1,171 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { api, buildUrl } from "@shared/routes";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, ArrowRightLeft, Zap } from "lucide-react";
-import { BindingAffinityWidget } from "@/components/BindingAffinityWidget";
-import { InteractionCharts } from "@/components/Charts";
-import { NGLViewer } from "@/components/NGLViewer";
-import { StructureMetadataComparison } from "@/components/StructureMetadataComparison";
-import { InteractionComparison } from "@/components/InteractionComparison";
-import { StructureSimilarityMetrics } from "@/components/StructureSimilarityMetrics";
+import { useCompareJob } from "@/hooks/use-analysis";
+import { Loader2, ArrowLeft, ArrowRightLeft, FilePlus, Plus, Zap } from "lucide-react";
 import { ComparisonReport } from "@/components/ComparisonReport";
+import { CompareSourcePicker } from "@/components/CompareSourcePicker";
+import { STRUCTURE_EXTENSIONS } from "@/components/AnalysisForm";
+import { ComparisonRanking } from "@/components/ComparisonRanking";
+import { SimilarityMatrix } from "@/components/SimilarityMatrix";
+import { PairwiseComparisonView } from "@/components/PairwiseComparisonView";
+import { clusterColor } from "@/lib/clusters";
+import type { AlignmentMode, ClusterMetric, CompareAnalysisRequest, CompareJob, CompareSource, ComparedEntry, PairwiseComparison } from "@shared/schema";
+
+const MAX_STRUCTURES = 50;
+const SELECT_CLASS = "px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+interface SourceEntry {
+  id: number;
+  source: CompareSource | null;
+}
+
+async function startComparison(data: CompareAnalysisRequest) {
+  const res = await apiRequest("POST", "/api/compare", data);
+  return res.json() as Promise<CompareJob>;
+}
+
+async function startPairComparison({ id, pair }: { id: number; pair: [number, number] }) {
+  const res = await apiRequest("POST", buildUrl(api.compare.pair.path, { id }), { pair });
+  return res.json() as Promise<CompareJob>;
+}
+
+function isRunning(job: CompareJob | undefined) {
+  return job?.status === "pending" || job?.status === "processing";
+}
 
 export default function ComparePage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [pdbA, setPdbA] = useState("");
-  const [pdbB, setPdbB] = useState("");
-  const [results, setResults] = useState<any>(null);
+  const nextId = useRef(2);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entries, setEntries] = useState<SourceEntry[]>([{ id: 0, source: null }, { id: 1, source: null }]);
+  const [referenceIndex, setReferenceIndex] = useState(0);
+  const [alignmentMode, setAlignmentMode] = useState<AlignmentMode>("global");
+  const [clusterBy, setClusterBy] = useState<ClusterMetric>("interface");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [pairJobId, setPairJobId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  // Side-by-side view, the comparison it was computed by and the structures
+  // (indices into the results) it shows
+  const [pair, setPair] = useState<PairwiseComparison | null>(null);
+  const [pairComparisonId, setPairComparisonId] = useState<number | null>(null);
+  const [pairIndices, setPairIndices] = useState<number[]>([]);
+
+  const { data: job } = useCompareJob(jobId);
+  const { data: pairJob } = useCompareJob(pairJobId);
+  const results = job?.status === "completed" ? job.result : null;
 
   const mutation = useMutation({
-    mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/compare", data);
-      return res.json();
-    },
-    onSuccess: (data) => {
-      setResults(data);
-      toast({ title: "Comparison Complete", description: "Successfully analyzed both structures." });
+    mutationFn: startComparison,
+    onSuccess: (data) => setJobId(data.id),
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Comparison Failed", description: error instanceof Error ? error.message : "Please check the structures and try again." });
+    }
+  });
+
+  const pairMutation = useMutation({
+    mutationFn: startPairComparison,
+    onSuccess: (data, { pair }) => {
+      setPairJobId(data.id);
+      setPairIndices(pair);
     },
-    onError: () => {
-      toast({ variant: "destructive", title: "Comparison Failed", description: "Please check the PDB IDs and try again." });
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Pairwise Comparison Failed", description: error instanceof Error ? error.message : "Please try again." });
     }
   });
 
+  useEffect(() => {
+    if (job?.status === "completed" && job.result) {
+      setPair(job.result.pair);
+      setPairComparisonId(job.id);
+      setPairIndices(job.result.pairIndices);
+      setSelected(job.result.pairIndices);
+      toast({ title: "Comparison Complete", description: `Successfully analyzed ${job.result.structures.length} structures.` });
+    } else if (job?.status === "failed") {
+      toast({ variant: "destructive", title: "Comparison Failed", description: job.errorMessage ?? "Please check the structures and try again." });
+      setJobId(null);
+    }
+  }, [job?.id, job?.status]);
+
+  useEffect(() => {
+    if (pairJob?.status === "completed" && pairJob.result) {
+      setPair(pairJob.result.pair);
+      setPairComparisonId(pairJob.id);
+      setPairJobId(null);
+    } else if (pairJob?.status === "failed") {
+      toast({ variant: "destructive", title: "Pairwise Comparison Failed", description: pairJob.errorMessage ?? "Please try again." });
+      setPairJobId(null);
+    }
+  }, [pairJob?.id, pairJob?.status]);
+
+  const comparing = mutation.isPending || isRunning(job);
+  const pairing = pairMutation.isPending || isRunning(pairJob);
+
+  const addEntries = (sources: Array<CompareSource | null>) => {
+    setEntries(current => current.concat(
+      sources.slice(0, MAX_STRUCTURES - current.length).map(source => ({ id: nextId.current++, source }))
+    ));
+  };
+
+  const removeEntry = (id: number) => {
+    const index = entries.findIndex(e => e.id === id);
+    setEntries(current => current.filter(e => e.id !== id));
+    if (index < referenceIndex || (index === referenceIndex && referenceIndex === entries.length - 1)) {
+      setReferenceIndex(r => Math.max(0, r - 1));
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    const valid = files.filter(file => STRUCTURE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext)));
+    if (valid.length < files.length) {
+      toast({ variant: "destructive", title: "Some files skipped", description: "Only .pdb, .ent and .cif files are supported" });
+    }
+    const sources = await Promise.all(valid.map(async file => ({ name: file.name.split('.')[0], content: await file.text() })));
+    // Fill empty slots first, then append
+    const empty = entries.filter(entry => !entry.source).map(entry => entry.id);
+    setEntries(current => current.map(entry => {
+      const slot = empty.indexOf(entry.id);
+      return slot >= 0 && slot < sources.length ? { ...entry, source: sources[slot] } : entry;
+    }));
+    addEntries(sources.slice(empty.length));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const handleCompare = () => {
-    if (!pdbA || !pdbB) {
-      toast({ variant: "destructive", title: "Missing Input", description: "Please provide both PDB IDs." });
+    const sources = entries.map(e => e.source);
+    if (sources.some(source => !source)) {
+      toast({ variant: "destructive", title: "Missing Input", description: "Please choose every structure or remove the empty ones." });
       return;
     }
+    const chosen = sources as CompareSource[];
     mutation.mutate({
-      title: `${pdbA} vs ${pdbB} Comparison`,
-      sourceA: { name: pdbA, pdbId: pdbA },
-      sourceB: { name: pdbB, pdbId: pdbB }
+      title: chosen.length <= 3 ? `${chosen.map((s, i) => s.name ?? `Structure ${i + 1}`).join(" vs ")} Comparison` : `${chosen.length}-Structure Comparison`,
+      sources: chosen,
+      referenceIndex,
+      alignmentMode,
+      clusterBy,
     });
   };
 
-  const getInterfaceResidues = (result: any) => {
-    if (!result || !result.interactions) return [];
-    const interInteractions = result.interactions.filter((i: any) => !i.isIntraMolecular);
-    const residues = new Set<string>();
-    interInteractions.forEach((i: any) => {
-      // Residue format is "RES SEQ", we need residueSeq as number
-      const seqA = parseInt(i.residueA.split(' ')[1]);
-      const seqB = parseInt(i.residueB.split(' ')[1]);
-      residues.add(`${i.chainA}:${seqA}`);
-      residues.add(`${i.chainB}:${seqB}`);
-    });
-    return Array.from(residues).map(r => {
-      const [chainId, residueSeq] = r.split(':');
-      return { chainId, residueSeq: parseInt(residueSeq) };
-    });
+  const toggleSelected = (index: number) => {
+    setSelected(current => current.includes(index) ? current.filter(i => i !== index) : current.concat(index).slice(-2));
+  };
+
+  const comparePair = () => {
+    if (!jobId || selected.length !== 2) return;
+    pairMutation.mutate({ id: jobId, pair: [selected[0], selected[1]] });
   };
 
+  const best = results?.structures.find(s => s.rank === 1);
+
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -75,43 +175,111 @@ export default function ComparePage() {
           </Button>
           <div>
             <h1 className="text-2xl font-bold">Structure Comparison</h1>
-            <p className="text-muted-foreground">Compare binding affinity and interactions between two structures</p>
+            <p className="text-muted-foreground">Rank and compare binding affinity and interfaces across structures</p>
           </div>
         </header>
 
         {!results ? (
-          <Card className="max-w-2xl mx-auto">
+          <Card className="max-w-4xl mx-auto">
             <CardHeader>
               <CardTitle>Select Structures to Compare</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>PDB ID A</Label>
-                  <Input placeholder="e.g. 1A2B" value={pdbA} onChange={(e) => setPdbA(e.target.value.toUpperCase())} maxLength={4} />
-                </div>
-                <div className="space-y-2">
-                  <Label>PDB ID B</Label>
-                  <Input placeholder="e.g. 3C4D" value={pdbB} onChange={(e) => setPdbB(e.target.value.toUpperCase())} maxLength={4} />
-                </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                {entries.map((entry, index) => (
+                  <CompareSourcePicker
+                    key={entry.id}
+                    label={`Structure ${index + 1}`}
+                    testId={`source-${index + 1}`}
+                    value={entry.source}
+                    onChange={(source) => setEntries(current => current.map(e => e.id === entry.id ? { ...e, source } : e))}
+                    onRemove={entries.length > 2 ? () => removeEntry(entry.id) : undefined}
+                  />
+                ))}
               </div>
-              <Button className="w-full" onClick={handleCompare} disabled={mutation.isPending}>
-                {mutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <ArrowRightLeft className="w-4 h-4 mr-2" />}
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => addEntries([null])} disabled={entries.length >= MAX_STRUCTURES} data-testid="button-add-structure">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add structure
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={entries.length >= MAX_STRUCTURES} data-testid="button-add-files">
+                  <FilePlus className="w-4 h-4 mr-2" />
+                  Add files
+                </Button>
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handleFiles}
+                  accept={STRUCTURE_EXTENSIONS.join(",")}
+                  multiple
+                  className="hidden"
+                />
+                <span className="text-xs text-muted-foreground self-center">{entries.length} of {MAX_STRUCTURES} structures</span>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                <label className="space-y-1">
+                  <span className="font-medium block">Reference</span>
+                  <select
+                    className={`${SELECT_CLASS} w-full`}
+                    value={referenceIndex}
+                    onChange={(e) => setReferenceIndex(Number(e.target.value))}
+                    data-testid="select-reference"
+                  >
+                    {entries.map((entry, index) => (
+                      <option key={entry.id} value={index}>
+                        Structure {index + 1}{entry.source?.name ? ` (${entry.source.name})` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="font-medium block">Sequence alignment</span>
+                  <select
+                    className={`${SELECT_CLASS} w-full`}
+                    value={alignmentMode}
+                    onChange={(e) => setAlignmentMode(e.target.value as AlignmentMode)}
+                    data-testid="select-alignment-mode"
+                  >
+                    <option value="global">Global (Needleman–Wunsch)</option>
+                    <option value="local">Local (Smith–Waterman)</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="font-medium block">Cluster by</span>
+                  <select
+                    className={`${SELECT_CLASS} w-full`}
+                    value={clusterBy}
+                    onChange={(e) => setClusterBy(e.target.value as ClusterMetric)}
+                    data-testid="select-cluster-by"
+                  >
+                    <option value="interface">Interface contacts (Jaccard)</option>
+                    <option value="rmsd">CA RMSD</option>
+                  </select>
+                </label>
+              </div>
+
+              <Button className="w-full" onClick={handleCompare} disabled={comparing || entries.some(e => !e.source)}>
+                {comparing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <ArrowRightLeft className="w-4 h-4 mr-2" />}
                 Run Comparison Analysis
               </Button>
+
+              {job && isRunning(job) && (
+                <div className="space-y-2 text-center">
+                  <p className="text-sm text-muted-foreground capitalize" data-testid="text-compare-stage">
+                    {job.stage === "queued" ? "Waiting in queue" : job.stage}
+                  </p>
+                  <Progress value={job.progress} data-testid="progress-compare" />
+                  <p className="text-xs text-muted-foreground font-mono">{job.progress}%</p>
+                </div>
+              )}
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-6">
-            {/* Binding Affinity Comparison */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <DeltaCard 
-                label="Binding Affinity Difference" 
-                value={results.comparison.deltaBAI}
-                percent={results.comparison.percentDiff}
-                unit="BAI Units"
-              />
-              <Card className="col-span-2 border-primary/20 bg-primary/5">
+            {best && (
+              <Card className="border-primary/20 bg-primary/5">
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm flex items-center gap-2">
                     <Zap className="w-4 h-4 text-primary" />
@@ -120,93 +288,60 @@ export default function ComparePage() {
                 </CardHeader>
                 <CardContent>
                   <p className="text-lg font-medium">
-                    {results.comparison.winner === 'A' ? pdbA : pdbB} shows stronger predicted binding 
-                    ({Math.abs(results.comparison.deltaBAI).toFixed(1)} units higher).
-                  </p>
-                  <p className="text-sm mt-2 text-primary font-medium">
-                    Interface residues (highlighted in pink) contribute disproportionately to binding stability and affinity.
+                    {best.name} shows the strongest predicted binding of {results.structures.length} structures
+                    (BAI {best.bindingAffinityIndex.toFixed(1)}); they form {results.clustering.clusters.length}{" "}
+                    cluster{results.clustering.clusters.length === 1 ? "" : "s"}.
                   </p>
                   <p className="text-xs text-muted-foreground mt-2 italic">
                     Relative structure-based comparison, not experimental free energy (ΔG).
                   </p>
                 </CardContent>
               </Card>
-            </div>
+            )}
 
-            {/* Metadata and Similarity Comparison */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <StructureMetadataComparison 
-                pdbA={pdbA}
-                pdbB={pdbB}
-                resultA={results.resultA}
-                resultB={results.resultB}
-              />
-              <StructureSimilarityMetrics 
-                resultA={results.resultA}
-                resultB={results.resultB}
-                pdbA={pdbA}
-                pdbB={pdbB}
-              />
+            {/* One column per structure, in ranking order */}
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(13rem,1fr))] gap-4">
+              {results.structures.slice().sort((x, y) => x.rank - y.rank).map(entry => (
+                <StructureColumn
+                  key={entry.index}
+                  entry={entry}
+                  isReference={entry.index === results.referenceIndex}
+                  selected={selected.includes(entry.index)}
+                  onToggle={() => toggleSelected(entry.index)}
+                />
+              ))}
             </div>
 
-            {/* Interaction Type Distribution */}
-            <InteractionComparison 
-              resultA={results.resultA}
-              resultB={results.resultB}
-              pdbA={pdbA}
-              pdbB={pdbB}
+            <ComparisonRanking
+              structures={results.structures}
+              referenceIndex={results.referenceIndex}
+              selected={selected}
+              onToggle={toggleSelected}
             />
 
-            {/* Structure Viewers and Charts */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
-              <div className="space-y-4">
-                <h3 className="font-bold text-center py-2 bg-muted rounded-lg flex items-center justify-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-blue-500" />
-                  {pdbA}
-                </h3>
-                <Card className="border-border shadow-sm p-1 overflow-hidden">
-                  <div className="h-[500px] w-full">
-                    <NGLViewer 
-                      proteins={[{
-                        pdbId: pdbA,
-                        pdbContent: results.contentA,
-                        name: pdbA
-                      }]}
-                      highlightResidues={getInterfaceResidues(results.resultA)}
-                      className="w-full h-full"
-                    />
-                  </div>
-                </Card>
-                <InteractionCharts interactions={results.resultA.interactions} />
-                <BindingAffinityWidget data={results.resultA.bindingAffinity} />
-              </div>
-              <div className="space-y-4">
-                <h3 className="font-bold text-center py-2 bg-muted rounded-lg flex items-center justify-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-orange-500" />
-                  {pdbB}
-                </h3>
-                <Card className="border-border shadow-sm p-1 overflow-hidden">
-                  <div className="h-[500px] w-full">
-                    <NGLViewer 
-                      proteins={[{
-                        pdbId: pdbB,
-                        pdbContent: results.contentB,
-                        name: pdbB
-                      }]}
-                      highlightResidues={getInterfaceResidues(results.resultB)}
-                      className="w-full h-full"
-                    />
-                  </div>
-                </Card>
-                <InteractionCharts interactions={results.resultB.interactions} />
-                <BindingAffinityWidget data={results.resultB.bindingAffinity} />
-              </div>
-            </div>
+            <SimilarityMatrix results={results} selected={selected} onSelectPair={(a, b) => setSelected([a, b])} />
+
+            {results.structures.length > 2 && (
+              <Button
+                className="w-full"
+                variant="secondary"
+                onClick={comparePair}
+                disabled={selected.length !== 2 || pairing || selected.every(i => pairIndices.includes(i))}
+                data-testid="button-compare-pair"
+              >
+                {pairing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <ArrowRightLeft className="w-4 h-4 mr-2" />}
+                {selected.length === 2
+                  ? `Compare ${results.structures[selected[0]].name} and ${results.structures[selected[1]].name} side by side`
+                  : "Select two structures to compare side by side"}
+              </Button>
+            )}
+
+            {pair && pairComparisonId && <PairwiseComparisonView comparisonId={pairComparisonId} pair={pair} />}
 
             {/* Export Section */}
-            <ComparisonReport pdbA={pdbA} pdbB={pdbB} results={results} />
+            <ComparisonReport results={results} pair={pair} />
 
-            <Button variant="outline" className="w-full" onClick={() => setResults(null)}>
+            <Button variant="outline" className="w-full" onClick={() => { setJobId(null); setPair(null); }}>
               Start New Comparison
             </Button>
           </div>
@@ -216,21 +351,45 @@ export default function ComparePage() {
   );
 }
 
-function DeltaCard({ label, value, percent, unit }: { label: string, value: number, percent: number, unit: string }) {
-  const isPositive = value > 0;
+function StructureColumn({ entry, isReference, selected, onToggle }: { entry: ComparedEntry; isReference: boolean; selected: boolean; onToggle: () => void }) {
+  const types = Object.entries(entry.interactionStats.typeCounts).sort((a, b) => b[1] - a[1]).slice(0, 4);
   return (
-    <Card>
-      <CardHeader className="pb-2">
-        <CardTitle className="text-xs text-muted-foreground uppercase tracking-wider">{label}</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="text-2xl font-bold flex items-baseline gap-2">
-          {isPositive ? '+' : ''}{value.toFixed(1)}
-          <span className="text-xs font-normal text-muted-foreground">{unit}</span>
+    <Card
+      className={`border-t-4 cursor-pointer transition-shadow ${selected ? "ring-2 ring-primary/40" : "hover:shadow-md"}`}
+      style={{ borderTopColor: clusterColor(entry.cluster) }}
+      onClick={onToggle}
+      data-testid={`card-structure-${entry.index}`}
+    >
+      <CardContent className="p-3 space-y-2 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-bold text-sm truncate" title={entry.name}>{entry.name}</span>
+          <span className="font-bold text-muted-foreground">#{entry.rank}</span>
         </div>
-        <div className={`text-sm mt-1 font-semibold ${isPositive ? 'text-green-600' : 'text-blue-600'}`}>
-          {Math.abs(percent).toFixed(1)}% difference
+        <div className="flex items-baseline gap-2">
+          <span className="text-xl font-bold">{entry.bindingAffinityIndex.toFixed(1)}</span>
+          <span className="text-muted-foreground">BAI · {entry.bindingCategory ?? "N/A"}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+          <span className="text-muted-foreground">Interface contacts</span><span className="text-right">{entry.interfaceContacts}</span>
+          <span className="text-muted-foreground">Interface residues</span><span className="text-right">{entry.interfaceResidues}</span>
+          <span className="text-muted-foreground">H-bonds / salt br.</span><span className="text-right">{entry.interfaceHydrogenBonds} / {entry.interfaceSaltBridges}</span>
+          {isReference ? (
+            <span className="col-span-2 text-primary font-medium">Reference</span>
+          ) : (
+            <>
+              <span className="text-muted-foreground">Jaccard / RMSD</span>
+              <span className="text-right">{entry.jaccardToReference.toFixed(2)} / {entry.rmsdToReference?.toFixed(1) ?? "—"}</span>
+            </>
+          )}
+        </div>
+        <div className="border-t border-border pt-2 space-y-0.5">
+          {types.map(([type, count]) => (
+            <div key={type} className="flex justify-between text-muted-foreground">
+              <span>{type}</span><span>{count}</span>
+            </div>
+          ))}
         </div>
+        <div className="text-muted-foreground">Cluster {entry.cluster}</div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useAnalysisList, useRenameAnalysis, useDeleteAnalysis, type AnalysisListFilters } from "@/hooks/use-analysis";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, History, Loader2, Pencil, Trash2, X } from "lucide-react";
+import type { AnalysisSessionListItem } from "@shared/schema";
+import clsx from "clsx";
+
+const PAGE_SIZE = 20;
+const ALL_STATUSES = "all";
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  processing: "bg-blue-100 text-blue-800",
+  pending: "bg-amber-100 text-amber-800",
+};
+
+type FilterFields = Omit<AnalysisListFilters, "page" | "pageSize">;
+
+export default function HistoryPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [draft, setDraft] = useState<FilterFields>({});
+  const [filters, setFilters] = useState<FilterFields>({});
+  const [editing, setEditing] = useState<{ id: number; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AnalysisSessionListItem | null>(null);
+
+  const { data, isLoading, isFetching } = useAnalysisList({ ...filters, page, pageSize: PAGE_SIZE });
+  const renameAnalysis = useRenameAnalysis();
+  const deleteAnalysis = useDeleteAnalysis();
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Date inputs give calendar days; widen the bounds to cover both whole days
+    setFilters({
+      ...draft,
+      from: draft.from ? `${draft.from}T00:00:00` : undefined,
+      to: draft.to ? `${draft.to}T23:59:59.999` : undefined,
+    });
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setDraft({});
+    setFilters({});
+    setPage(1);
+  };
+
+  const saveTitle = async () => {
+    if (!editing || !editing.title.trim()) return;
+    try {
+      await renameAnalysis.mutateAsync({ id: editing.id, title: editing.title.trim() });
+      setEditing(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Rename failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteAnalysis.mutateAsync(pendingDelete.id);
+      toast({ title: "Analysis deleted", description: pendingDelete.title });
+      if (data && data.items.length === 1 && page > 1) setPage(page - 1);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Analysis History</h1>
+            <p className="text-muted-foreground">Search, reopen and manage previous analysis sessions</p>
+          </div>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={applyFilters} className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="filter-pdb">PDB ID</Label>
+                <Input
+                  id="filter-pdb"
+                  placeholder="e.g. 1CRN"
+                  value={draft.pdbId ?? ""}
+                  onChange={(e) => setDraft({ ...draft, pdbId: e.target.value.toUpperCase() })}
+                  data-testid="input-filter-pdb"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-organism">Organism</Label>
+                <Input
+                  id="filter-organism"
+                  placeholder="e.g. Homo sapiens"
+                  value={draft.organism ?? ""}
+                  onChange={(e) => setDraft({ ...draft, organism: e.target.value })}
+                  data-testid="input-filter-organism"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-method">Method</Label>
+                <Input
+                  id="filter-method"
+                  placeholder="e.g. X-RAY"
+                  value={draft.method ?? ""}
+                  onChange={(e) => setDraft({ ...draft, method: e.target.value })}
+                  data-testid="input-filter-method"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={draft.status ?? ALL_STATUSES}
+                  onValueChange={(value) => setDraft({ ...draft, status: value === ALL_STATUSES ? undefined : value })}
+                >
+                  <SelectTrigger data-testid="select-filter-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="processing">Processing</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-from">From</Label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={draft.from ?? ""}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value || undefined })}
+                  data-testid="input-filter-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-to">To</Label>
+                <Input
+                  id="filter-to"
+                  type="date"
+                  value={draft.to ?? ""}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value || undefined })}
+                  data-testid="input-filter-to"
+                />
+              </div>
+              <div className="col-span-full flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={clearFilters} data-testid="button-clear-filters">
+                  Clear
+                </Button>
+                <Button type="submit" data-testid="button-apply-filters">
+                  Apply Filters
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <History className="w-5 h-5 text-primary" />
+              Sessions
+              {data && <span className="text-sm font-normal text-muted-foreground">({data.total.toLocaleString()})</span>}
+            </CardTitle>
+            {isFetching && !isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : !data || data.items.length === 0 ? (
+              <div className="text-center text-muted-foreground py-12">No analysis sessions found</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>PDB ID</TableHead>
+                    <TableHead>Organism</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Chains</TableHead>
+                    <TableHead className="text-right">Interactions</TableHead>
+                    <TableHead className="text-right">Inter-Chain</TableHead>
+                    <TableHead className="text-right">BAI</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map((session) => (
+                    <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                      <TableCell className="font-medium max-w-xs">
+                        {editing?.id === session.id ? (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              autoFocus
+                              value={editing.title}
+                              onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") saveTitle();
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                              className="h-8"
+                              data-testid={`input-rename-${session.id}`}
+                            />
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={saveTitle} disabled={renameAnalysis.isPending}>
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(null)}>
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <Link href={`/analysis/${session.id}`} className="hover:text-primary hover:underline truncate block">
+                            {session.title}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{session.pdbId || "Upload"}</TableCell>
+                      <TableCell className="italic text-xs">{session.organism || "N/A"}</TableCell>
+                      <TableCell className="text-xs">{session.method || "N/A"}</TableCell>
+                      <TableCell>
+                        <span
+                          className={clsx("inline-flex px-2 py-0.5 rounded-full text-xs font-semibold capitalize", STATUS_STYLES[session.status])}
+                          title={session.status === "failed" ? session.errorMessage ?? undefined : undefined}
+                        >
+                          {session.status === "processing" ? `${session.stage} ${session.progress}%` : session.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{session.summary?.totalChains ?? "–"}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{session.summary?.totalInteractions.toLocaleString() ?? "–"}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{session.summary?.interProteinInteractions.toLocaleString() ?? "–"}</TableCell>
+                      <TableCell className="text-right">
+                        {session.bindingAffinityIndex !== null ? (
+                          <Badge variant="outline" className="font-mono">{session.bindingAffinityIndex}</Badge>
+                        ) : "–"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {session.createdAt ? new Date(session.createdAt).toLocaleString() : "–"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => setEditing({ id: session.id, title: session.title })}
+                            data-testid={`button-rename-${session.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => setPendingDelete(session)}
+                            data-testid={`button-delete-${session.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {data && data.total > 0 && (
+              <div className="flex items-center justify-between pt-4">
+                <div className="text-sm text-muted-foreground">
+                  Page <span className="font-medium text-foreground">{page}</span> of{" "}
+                  <span className="font-medium text-foreground">{pageCount}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="icon" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its statistics will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} data-testid="button-confirm-delete">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
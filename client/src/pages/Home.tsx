@@ -1,5 +1,5 @@
 import { AnalysisForm } from "@/components/AnalysisForm";
-import { Dna, ArrowRight, ArrowRightLeft, Grid3x3 } from "lucide-react";
+import { Dna, ArrowRight, ArrowRightLeft, Grid3x3, History } from "lucide-react";
 import { Link } from "wouter";
 
 export default function Home() {
@@ -15,6 +15,10 @@ export default function Home() {
             <span className="font-bold text-lg tracking-tight">BioInteract</span>
           </div>
           <nav className="flex items-center gap-6">
+            <Link href="/history" className="text-sm font-medium text-primary hover:underline transition-colors flex items-center gap-1">
+              <History className="w-4 h-4" />
+              History
+            </Link>
             <Link href="/multi-viewer" className="text-sm font-medium text-primary hover:underline transition-colors flex items-center gap-1">
               <Grid3x3 className="w-4 h-4" />
               Multi-Viewer
@@ -0,0 +1,3 @@
+ALTER TABLE "analysis_sessions" ADD COLUMN "stage" text;--> statement-breakpoint
+ALTER TABLE "analysis_sessions" ADD COLUMN "progress" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "analysis_sessions" ADD COLUMN "error_message" text;
\ No newline at end of file
@@ -0,0 +1,47 @@
+CREATE TABLE "interactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"interaction_id" text NOT NULL,
+	"protein_a" text NOT NULL,
+	"chain_a" text NOT NULL,
+	"residue_a" text NOT NULL,
+	"residue_seq_a" integer,
+	"atom_a" text NOT NULL,
+	"protein_b" text NOT NULL,
+	"chain_b" text NOT NULL,
+	"residue_b" text NOT NULL,
+	"residue_seq_b" integer,
+	"atom_b" text NOT NULL,
+	"distance" double precision NOT NULL,
+	"type" text NOT NULL,
+	"is_intra_molecular" boolean NOT NULL,
+	"details" jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "interactions" ADD CONSTRAINT "interactions_session_id_analysis_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."analysis_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "interactions_session_distance_idx" ON "interactions" USING btree ("session_id","distance");--> statement-breakpoint
+CREATE INDEX "interactions_session_type_idx" ON "interactions" USING btree ("session_id","type");--> statement-breakpoint
+CREATE INDEX "interactions_session_chain_a_idx" ON "interactions" USING btree ("session_id","chain_a","residue_seq_a");--> statement-breakpoint
+CREATE INDEX "interactions_session_chain_b_idx" ON "interactions" USING btree ("session_id","chain_b","residue_seq_b");--> statement-breakpoint
+-- Move interactions of existing sessions out of the result_summary blob
+INSERT INTO "interactions" ("session_id", "interaction_id", "protein_a", "chain_a", "residue_a", "residue_seq_a", "atom_a", "protein_b", "chain_b", "residue_b", "residue_seq_b", "atom_b", "distance", "type", "is_intra_molecular", "details")
+SELECT
+	s."id",
+	i->>'id',
+	i->>'proteinA',
+	i->>'chainA',
+	i->>'residueA',
+	NULLIF(substring(split_part(i->>'residueA', ' ', 2) from '^-?[0-9]+'), '')::integer,
+	i->>'atomA',
+	i->>'proteinB',
+	i->>'chainB',
+	i->>'residueB',
+	NULLIF(substring(split_part(i->>'residueB', ' ', 2) from '^-?[0-9]+'), '')::integer,
+	i->>'atomB',
+	(i->>'distance')::double precision,
+	i->>'type',
+	(i->>'isIntraMolecular')::boolean,
+	NULLIF(jsonb_strip_nulls(jsonb_build_object('hbond', i->'hbond', 'ring', i->'ring', 'saltBridge', i->'saltBridge', 'metal', i->'metal', 'halogenBond', i->'halogenBond')), '{}'::jsonb)
+FROM "analysis_sessions" s, jsonb_array_elements(s."result_summary"->'interactions') AS i
+WHERE jsonb_typeof(s."result_summary"->'interactions') = 'array';--> statement-breakpoint
+UPDATE "analysis_sessions" SET "result_summary" = "result_summary" - 'interactions' - 'fullInteractionsCount' WHERE "result_summary" ? 'interactions';
@@ -0,0 +1 @@
+ALTER TABLE "interactions" ADD COLUMN "occupancy" double precision;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "chain_pair_stats" ADD COLUMN "buried_surface_area" double precision;--> statement-breakpoint
+ALTER TABLE "chain_pair_stats" ADD COLUMN "interface_residue_count" integer;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "comparisons" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"stage" text DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"structure_count" integer NOT NULL,
+	"request" jsonb NOT NULL,
+	"result" jsonb,
+	"pair_content_a" text,
+	"pair_content_b" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "interactions" ALTER COLUMN "session_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "comparison_id" integer;--> statement-breakpoint
+ALTER TABLE "interactions" ADD COLUMN "comparison_side" text;--> statement-breakpoint
+ALTER TABLE "interactions" ADD CONSTRAINT "interactions_comparison_id_comparisons_id_fk" FOREIGN KEY ("comparison_id") REFERENCES "public"."comparisons"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "interactions_comparison_distance_idx" ON "interactions" USING btree ("comparison_id","comparison_side","distance");
\ No newline at end of file
@@ -46,19 +46,22 @@ async function buildAll() {
   ];
   const externals = allDeps.filter((dep) => !allowlist.includes(dep));
 
-  await esbuild({
-    entryPoints: ["server/index.ts"],
-    platform: "node",
+  const serverOptions = {
+    platform: "node" as const,
     bundle: true,
-    format: "cjs",
-    outfile: "dist/index.cjs",
+    format: "cjs" as const,
     define: {
       "process.env.NODE_ENV": '"production"',
     },
     minify: true,
     external: externals,
-    logLevel: "info",
-  });
+    logLevel: "info" as const,
+  };
+
+  await esbuild({ ...serverOptions, entryPoints: ["server/index.ts"], outfile: "dist/index.cjs" });
+
+  // analysis worker thread, loaded by server/jobs.ts from next to index.cjs
+  await esbuild({ ...serverOptions, entryPoints: ["server/worker.ts"], outfile: "dist/worker.cjs" });
 }
 
 buildAll().catch((err) => {
@@ -14,6 +14,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Uploaded structures travel inline in the JSON body (up to 50 for a comparison)
+    limit: "50mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -64,6 +66,11 @@ app.use((req, res, next) => {
   const { migrate } = await import("drizzle-orm/pglite/migrator");
   await migrate(db, { migrationsFolder: "./migrations" });
 
+  // Pick up analysis and comparison jobs interrupted by the previous shutdown
+  const { resumePendingJobs } = await import("./jobs");
+  const resumed = await resumePendingJobs();
+  if (resumed > 0) log(`resuming ${resumed} pending job(s)`, "jobs");
+
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
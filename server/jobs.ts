@@ -0,0 +1,376 @@
+import { Worker } from "worker_threads";
+import path from "path";
+import { pathToFileURL } from "url";
+import { eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  analysisSessions,
+  proteinMetadata,
+  interactionTypeCounts,
+  chainPairStats,
+  comparisons,
+  AnalysisConfigSchema,
+  DEFAULT_ANALYSIS_CONFIG,
+  type AnalysisResult,
+  type AnalysisSummary,
+  type CompareJob,
+  type CompareJobStage,
+  type CompareSource,
+} from "@shared/schema";
+import { storage, type CompareRequest } from "./storage";
+import { fetchStructureFromRCSB, fetchPDBMetadata } from "./services/pdb";
+import type { ComparedSource, ComparisonRun, ComparisonStage } from "./services/comparison";
+import type { AnalysisWorkerInput, AnalysisWorkerStage, CompareWorkerInput, WorkerInput, WorkerMessage } from "./worker";
+
+// === ANALYSIS JOB QUEUE ===
+// Analysis sessions double as persistent job records: a session in 'pending'
+// or 'processing' state is an unfinished job and is re-queued on startup.
+
+export type JobStage = "queued" | "fetching" | "parsing" | "analyzing" | "saving" | "done";
+
+// Share of the 0-100 progress scale covered by each stage
+const STAGE_RANGES: Record<JobStage, [number, number]> = {
+  queued: [0, 0],
+  fetching: [0, 10],
+  parsing: [10, 20],
+  analyzing: [20, 90],
+  saving: [90, 100],
+  done: [100, 100],
+};
+
+// Analysis sessions and comparisons share these worker slots
+const MAX_CONCURRENT_JOBS = 2;
+
+function spawnWorker(workerData: WorkerInput): Worker {
+  if (process.env.NODE_ENV === "production") {
+    return new Worker(path.resolve(__dirname, "worker.cjs"), { workerData });
+  }
+  // tsx's loader hooks are not inherited by worker threads, so in development
+  // the worker registers them before importing the TypeScript entry
+  const entry = pathToFileURL(path.resolve(import.meta.dirname, "worker.ts")).href;
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+const queue: Array<{ key: string; run: () => Promise<void> }> = [];
+const running = new Set<string>();
+
+function enqueue(key: string, run: () => Promise<void>) {
+  if (running.has(key) || queue.some(task => task.key === key)) return;
+  queue.push({ key, run });
+  drainQueue();
+}
+
+export function enqueueAnalysisJob(sessionId: number) {
+  enqueue(`analysis:${sessionId}`, () => runAnalysisJob(sessionId));
+}
+
+export function enqueueCompareJob(comparisonId: number) {
+  enqueue(`compare:${comparisonId}`, () => runCompareJob(comparisonId));
+}
+
+// Re-queues sessions and comparisons left unfinished by a previous server process
+export async function resumePendingJobs(): Promise<number> {
+  const pending = await db.select({ id: analysisSessions.id })
+    .from(analysisSessions)
+    .where(inArray(analysisSessions.status, ["pending", "processing"]))
+    .orderBy(analysisSessions.createdAt);
+  const pendingComparisons = await db.select({ id: comparisons.id })
+    .from(comparisons)
+    .where(inArray(comparisons.status, ["pending", "processing"]))
+    .orderBy(comparisons.createdAt);
+
+  pending.forEach(session => enqueueAnalysisJob(session.id));
+  pendingComparisons.forEach(comparison => enqueueCompareJob(comparison.id));
+  return pending.length + pendingComparisons.length;
+}
+
+function drainQueue() {
+  while (running.size < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const task = queue.shift()!;
+    running.add(task.key);
+    task.run().finally(() => {
+      running.delete(task.key);
+      drainQueue();
+    });
+  }
+}
+
+// `write` stores a stage and its 0-100 progress on the job's record
+function createProgressReporter<S extends string>(
+  ranges: Record<S, [number, number]>,
+  write: (stage: S, progress: number) => Promise<unknown>,
+  label: string,
+) {
+  let last = { stage: "", progress: -1 };
+  // Writes are chained so they land in order and can be awaited before the final update
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const report = (stage: S, fraction = 0) => {
+    const [start, end] = ranges[stage];
+    const progress = Math.round(start + (end - start) * Math.min(1, Math.max(0, fraction)));
+    if (stage === last.stage && progress === last.progress) return;
+    last = { stage, progress };
+    pending = pending
+      .then(() => write(stage, progress))
+      .catch(error => console.error(`Failed to record progress for ${label}:`, error));
+  };
+
+  return { report, flush: () => pending };
+}
+
+function runWorker(input: AnalysisWorkerInput, onProgress: (stage: AnalysisWorkerStage, fraction: number) => void): Promise<AnalysisResult>;
+function runWorker(input: CompareWorkerInput, onProgress: (stage: ComparisonStage, fraction: number) => void): Promise<ComparisonRun>;
+function runWorker<S extends AnalysisWorkerStage | ComparisonStage>(input: WorkerInput, onProgress: (stage: S, fraction: number) => void): Promise<AnalysisResult | ComparisonRun> {
+  return new Promise((resolve, reject) => {
+    const worker = spawnWorker(input);
+    let settled = false;
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "progress") {
+        // The worker only posts stages of its own task
+        onProgress(message.stage as S, message.fraction);
+      } else if (message.type === "result") {
+        settled = true;
+        resolve(message.result);
+      } else {
+        settled = true;
+        reject(new Error(message.message));
+      }
+    });
+    worker.on("error", error => {
+      settled = true;
+      reject(error);
+    });
+    worker.on("exit", code => {
+      if (!settled) reject(new Error(`Analysis worker exited unexpectedly (code ${code})`));
+    });
+  });
+}
+
+async function runAnalysisJob(sessionId: number) {
+  const progress = createProgressReporter(STAGE_RANGES, (stage, value) => db.update(analysisSessions)
+    .set({ status: "processing", stage, progress: value })
+    .where(eq(analysisSessions.id, sessionId)), `job ${sessionId}`);
+
+  try {
+    const [session] = await db.select().from(analysisSessions).where(eq(analysisSessions.id, sessionId));
+    if (!session) return;
+    let [protein] = await db.select().from(proteinMetadata).where(eq(proteinMetadata.id, session.proteinId!));
+    if (!protein) throw new Error("Protein record for this session no longer exists");
+
+    // 1. Fetch structure and metadata for RCSB entries
+    progress.report("fetching");
+    let content = protein.pdbContent;
+    if (!content && protein.pdbId) {
+      try {
+        content = await fetchStructureFromRCSB(protein.pdbId);
+      } catch (error) {
+        throw new Error(`Could not fetch PDB ID ${protein.pdbId}`);
+      }
+    }
+    if (!content) throw new Error("No PDB content");
+
+    if (protein.sourceType === 'rcsb' && (!protein.pdbContent || !protein.metadata)) {
+      const meta = protein.metadata ? null : await fetchPDBMetadata(protein.pdbId!);
+      [protein] = await db.update(proteinMetadata)
+        .set({
+          pdbContent: content, // Store content for visualization
+          ...(meta ? {
+            resolution: meta.resolution ? parseFloat(meta.resolution as any) : null,
+            organism: meta.organism || null,
+            method: meta.method || null,
+            year: meta.year || null,
+            metadata: meta,
+          } : {}),
+        })
+        .where(eq(proteinMetadata.id, protein.id))
+        .returning();
+    }
+    progress.report("fetching", 1);
+
+    // 2. Parse and analyze in a worker thread
+    const config = AnalysisConfigSchema.parse(session.config ?? {});
+    const result = await runWorker({ task: "analysis", content, name: protein.name, config }, progress.report);
+
+    // 3. Persist statistics; rows from an interrupted earlier attempt are replaced
+    progress.report("saving");
+    await db.delete(interactionTypeCounts).where(eq(interactionTypeCounts.sessionId, sessionId));
+    await db.delete(chainPairStats).where(eq(chainPairStats.sessionId, sessionId));
+
+    const { interactions, ...summary } = result;
+    await storage.replaceInteractions(sessionId, interactions);
+
+    const typeCounts: Record<string, number> = {};
+    interactions.forEach(i => {
+      typeCounts[i.type] = (typeCounts[i.type] || 0) + 1;
+    });
+
+    await Promise.all(Object.entries(typeCounts).map(([type, count]) =>
+      db.insert(interactionTypeCounts).values({
+        sessionId,
+        interactionType: type,
+        interactionCount: count,
+      })
+    ));
+
+    if (result.chainInteractionSummary) {
+      await Promise.all(result.chainInteractionSummary.map(stat =>
+        db.insert(chainPairStats).values({
+          sessionId,
+          chainA: stat.chainA,
+          chainB: stat.chainB,
+          interCount: stat.interCount,
+          intraCount: stat.intraCount,
+          buriedSurfaceArea: stat.buriedSurfaceArea,
+          interfaceResidueCount: stat.buriedSurfaceArea === null ? null : stat.interfaceResidues.length,
+        })
+      ));
+    }
+
+    await progress.flush();
+    await db.update(analysisSessions)
+      .set({ status: "completed", stage: "done", progress: 100, errorMessage: null, resultSummary: summary })
+      .where(eq(analysisSessions.id, sessionId));
+  } catch (error) {
+    console.error(`Analysis job ${sessionId} failed:`, error);
+    await progress.flush();
+    await db.update(analysisSessions)
+      .set({ status: "failed", errorMessage: error instanceof Error ? error.message : String(error) })
+      .where(eq(analysisSessions.id, sessionId));
+  }
+}
+
+// === COMPARISON JOBS ===
+// Comparisons are persisted like analysis sessions. The row keeps the
+// submitted request; the job resolves its sources when it runs and stores the
+// result, the pair's interactions and the pair's structure text, so nothing
+// outlives the run in memory.
+
+const COMPARE_STAGE_RANGES: Record<CompareJobStage, [number, number]> = {
+  queued: [0, 0],
+  fetching: [0, 10],
+  analyzing: [10, 80],
+  comparing: [80, 100],
+  done: [100, 100],
+};
+
+// Sources resolved at once; each may download an entry from RCSB
+const MAX_CONCURRENT_FETCHES = 4;
+
+// Maps items in order with at most `limit` calls of `fn` in flight
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  return results;
+}
+
+async function resolveCompareSource(source: CompareSource, fallbackName: string): Promise<ComparedSource> {
+  const fetchRcsb = async (pdbId: string) => {
+    try {
+      return await fetchStructureFromRCSB(pdbId);
+    } catch {
+      throw new Error(`Could not fetch PDB ID ${pdbId}`);
+    }
+  };
+
+  if (source.sessionId !== undefined) {
+    const session = await storage.getAnalysisSession(source.sessionId);
+    if (!session || session.status !== "completed" || !session.resultSummary) {
+      throw new Error(`Analysis session ${source.sessionId} is no longer available`);
+    }
+    const [protein] = await db.select().from(proteinMetadata).where(eq(proteinMetadata.id, session.proteinId!)).limit(1);
+    const content = protein?.pdbContent || (protein?.pdbId ? await fetchRcsb(protein.pdbId) : null);
+    if (!content) throw new Error(`No structure available for analysis session ${source.sessionId}`);
+    return {
+      name: source.name ?? protein.name,
+      content,
+      config: AnalysisConfigSchema.parse(session.config ?? {}),
+      result: {
+        ...(session.resultSummary as AnalysisSummary),
+        interactions: await storage.getInteractions(session.id),
+        interactionStats: await storage.getInteractionStats(session.id),
+      },
+    };
+  }
+
+  if (source.content !== undefined) {
+    return { name: source.name ?? fallbackName, content: source.content, config: DEFAULT_ANALYSIS_CONFIG };
+  }
+
+  const pdbId = source.pdbId!.toUpperCase();
+  return { name: source.name ?? pdbId, content: await fetchRcsb(pdbId), config: DEFAULT_ANALYSIS_CONFIG };
+}
+
+async function runCompareJob(comparisonId: number) {
+  const progress = createProgressReporter(COMPARE_STAGE_RANGES, (stage, value) => db.update(comparisons)
+    .set({ status: "processing", stage, progress: value })
+    .where(eq(comparisons.id, comparisonId)), `comparison ${comparisonId}`);
+
+  try {
+    const [row] = await db.select({ request: comparisons.request }).from(comparisons).where(eq(comparisons.id, comparisonId));
+    if (!row) return;
+    const { sources: requested, referenceIndex, alignmentMode, clusterBy, clusterThreshold, pair } = row.request as CompareRequest;
+
+    // 1. Resolve sources: stored sessions, uploads and RCSB entries
+    progress.report("fetching");
+    let resolved = 0;
+    const sources = await mapConcurrent(requested, MAX_CONCURRENT_FETCHES, async (source, i) => {
+      const compared = await resolveCompareSource(source, `Structure ${i + 1}`);
+      progress.report("fetching", ++resolved / requested.length);
+      return compared;
+    });
+
+    // 2. Analyze and compare in a worker thread
+    const { result, pairInteractions } = await runWorker(
+      { task: "compare", sources, options: { referenceIndex, alignmentMode, clusterBy, clusterThreshold, pair } },
+      progress.report,
+    );
+
+    // 3. Persist the pair's interactions, then the result
+    const [a, b] = result.pairIndices;
+    await storage.replaceComparisonInteractions(comparisonId, "A", pairInteractions[0]);
+    await storage.replaceComparisonInteractions(comparisonId, "B", pairInteractions[1]);
+    await progress.flush();
+    await db.update(comparisons)
+      .set({
+        status: "completed",
+        stage: "done",
+        progress: 100,
+        errorMessage: null,
+        result,
+        pairContentA: sources[a].content,
+        pairContentB: sources[b].content,
+      })
+      .where(eq(comparisons.id, comparisonId));
+  } catch (error) {
+    console.error(`Comparison job ${comparisonId} failed:`, error);
+    await progress.flush();
+    await db.update(comparisons)
+      .set({ status: "failed", errorMessage: error instanceof Error ? error.message : String(error) })
+      .where(eq(comparisons.id, comparisonId));
+  }
+}
+
+// Queues the full comparison of two structures of an earlier comparison as a
+// new one over the same submitted sources; undefined when that one is gone
+export async function enqueueComparePairJob(comparisonId: number, [a, b]: [number, number]): Promise<CompareJob | undefined> {
+  const [row] = await db.select({ request: comparisons.request }).from(comparisons).where(eq(comparisons.id, comparisonId));
+  if (!row) return undefined;
+  const request = row.request as CompareRequest;
+  const job = await storage.createComparison({
+    ...request,
+    sources: [request.sources[a], request.sources[b]],
+    referenceIndex: 0,
+    pair: [0, 1],
+  });
+  enqueueCompareJob(job.id);
+  return job;
+}
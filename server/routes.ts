@@ -2,11 +2,21 @@ import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
-import { parsePDB, analyzeInteractions, calculateBindingAffinityIndex, generateInteractionCSV, generateInterProteinCSV, generateIntraProteinCSV, generateStructureCSV, fetchPDBMetadata } from "./services/pdb";
+import { parseStructure, fetchStructureFromRCSB, generateInteractionCSV, generateInterProteinCSV, generateIntraProteinCSV, generateStructureCSV, fetchPDBMetadata } from "./services/pdb";
 import { z } from "zod";
-import { analysisSessions, proteinMetadata, interactionTypeCounts, chainPairStats, type AnalysisResult } from "@shared/schema";
+import { analysisSessions, proteinMetadata, interactionTypeCounts, chainPairStats, AnalysisConfigSchema, type AnalysisSummary, type ContactMapResidue } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
+import { enqueueAnalysisJob, enqueueCompareJob, enqueueComparePairJob } from "./jobs";
+import { buildChainNetwork, buildResidueNetwork, toCytoscapeJson, toGraphML } from "./services/network";
+
+// Resolves a "PROTEIN:CHAIN" key against the chains of a stored result
+function findChain(summary: AnalysisSummary, key: string): { protein: string; chain: string } | null {
+  const split = key.lastIndexOf(':');
+  const protein = key.substring(0, split);
+  const chain = key.substring(split + 1);
+  return summary.chains.some((c: any) => c.proteinName === protein && c.chainId === chain) ? { protein, chain } : null;
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -17,96 +27,169 @@ export async function registerRoutes(
   app.post(api.analysis.create.path, async (req, res) => {
     try {
       const input = req.body;
-      let pdbContent = input.proteinContent;
-
-      if (!pdbContent && input.proteinSource.pdbId) {
-        try {
-          const pdbIdUpper = input.proteinSource.pdbId.toUpperCase();
-          const fetchUrl = `https://files.rcsb.org/download/${pdbIdUpper}.pdb`;
-          const rcsbRes = await fetch(fetchUrl);
-          if (!rcsbRes.ok) throw new Error(`HTTP ${rcsbRes.status}`);
-          pdbContent = await rcsbRes.text();
-        } catch (error) {
-          return res.status(400).json({ message: `Could not fetch PDB ID ${input.proteinSource.pdbId}` });
-        }
-      }
 
-      if (!pdbContent) return res.status(400).json({ message: "No PDB content" });
-
-      const atoms = parsePDB(pdbContent, input.proteinSource.name);
-      if (atoms.length === 0) return res.status(400).json({ message: "Invalid PDB content" });
+      const parsedConfig = AnalysisConfigSchema.safeParse(input.config ?? {});
+      if (!parsedConfig.success) {
+        const issue = parsedConfig.error.issues[0];
+        return res.status(400).json({ message: `Invalid analysis settings: ${issue.message}`, field: issue.path.join('.') });
+      }
+      const config = parsedConfig.data;
 
-      const result = analyzeInteractions({ [input.proteinSource.name]: atoms });
-      result.bindingAffinity = calculateBindingAffinityIndex(result);
+      if (!input.proteinContent && !input.proteinSource.pdbId) return res.status(400).json({ message: "No PDB content" });
 
-      // 1. Ensure Protein Metadata exists
+      // 1. Ensure Protein Metadata exists (RCSB content and metadata are fetched by the job)
       let proteinId: number;
       const existingProtein = input.proteinSource.pdbId ? await db.select().from(proteinMetadata).where(eq(proteinMetadata.pdbId, input.proteinSource.pdbId.toUpperCase())).limit(1) : [];
       
       if (existingProtein.length > 0) {
         proteinId = existingProtein[0].id;
       } else {
-        let meta: any = null;
-        if (input.proteinSource.pdbId) {
-          meta = await fetchPDBMetadata(input.proteinSource.pdbId);
-        }
-
         const [newProtein] = await db.insert(proteinMetadata).values({
           pdbId: input.proteinSource.pdbId?.toUpperCase(),
           name: input.proteinSource.name,
           sourceType: input.proteinSource.pdbId ? 'rcsb' : 'upload',
-          resolution: meta?.resolution ? parseFloat(meta.resolution) : null,
-          organism: meta?.organism || null,
-          method: meta?.method || null,
-          year: meta?.year || null,
-          metadata: meta || null,
-          pdbContent: pdbContent, // Store content for visualization
+          pdbContent: input.proteinContent || null, // Store content for visualization
         }).returning();
         proteinId = newProtein.id;
       }
 
-      // 2. Save Analysis Session
+      // 2. Save Analysis Session and hand it to the background job queue
       const [session] = await db.insert(analysisSessions).values({
         proteinId,
         title: input.title,
-        status: "completed",
-        resultSummary: result,
+        status: "pending",
+        stage: "queued",
+        config,
       }).returning();
 
-      // 3. Save Interaction Type Counts
-      const typeCounts: Record<string, number> = {};
-      result.interactions.forEach(i => {
-        typeCounts[i.type] = (typeCounts[i.type] || 0) + 1;
-      });
-
-      await Promise.all(Object.entries(typeCounts).map(([type, count]) => 
-        db.insert(interactionTypeCounts).values({
-          sessionId: session.id,
-          interactionType: type,
-          interactionCount: count,
-        })
-      ));
-
-      // 4. Save Chain Pair Stats
-      if (result.chainInteractionSummary) {
-        await Promise.all(result.chainInteractionSummary.map(stat => 
-          db.insert(chainPairStats).values({
-            sessionId: session.id,
-            chainA: stat.chainA,
-            chainB: stat.chainB,
-            interCount: stat.interCount,
-            intraCount: stat.intraCount,
-          })
-        ));
-      }
+      enqueueAnalysisJob(session.id);
 
-      res.status(201).json({ ...session, result: result });
+      res.status(201).json(session);
     } catch (err) {
       console.error(err);
       res.status(500).json({ message: "Internal Server Error" });
     }
   });
 
+  // List Analyses (history page)
+  app.get(api.analysis.list.path, async (req, res) => {
+    const parsed = api.analysis.list.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    res.json(await storage.listAnalysisSessions(parsed.data));
+  });
+
+  // Rename Analysis
+  app.patch(api.analysis.rename.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = api.analysis.rename.input.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const session = await storage.renameAnalysisSession(id, parsed.data.title);
+    if (!session) return res.status(404).json({ message: "Not found" });
+    res.json(session);
+  });
+
+  // Delete Analysis
+  app.delete(api.analysis.delete.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const deleted = await storage.deleteAnalysisSession(id);
+    if (!deleted) return res.status(404).json({ message: "Not found" });
+    res.status(204).end();
+  });
+
+  // Query Interactions (paged, sorted, filtered)
+  app.get(api.analysis.interactions.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = api.analysis.interactions.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const page = await storage.queryInteractions(id, parsed.data);
+    if (!page) return res.status(404).json({ message: "Not found" });
+    res.json(page);
+  });
+
+  // Residue contact map between two chains (or within one)
+  app.get(api.analysis.contactMap.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = api.analysis.contactMap.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const session = await storage.getAnalysisSession(id);
+    const summary = session?.resultSummary as AnalysisSummary | null | undefined;
+    if (!summary) return res.status(404).json({ message: "Analysis session or result not found" });
+
+    const { chainA, chainB } = parsed.data;
+    const a = findChain(summary, chainA);
+    const b = findChain(summary, chainB);
+    if (!a || !b) return res.status(404).json({ message: "Chain not found in this analysis" });
+
+    const contacts = await storage.getContactMap(id, a, b);
+
+    // Axes cover every residue when surface data is stored (otherwise the
+    // interacting ones), plus any contact residue outside that list (waters)
+    const residuesOf = (key: string, fromContacts: ContactMapResidue[]) => {
+      const bySeq = new Map<number, ContactMapResidue>();
+      (summary.residueSasa?.[key] ?? summary.interactionDensity?.[key] ?? [])
+        .forEach((r: any) => bySeq.set(r.residueSeq, { residueSeq: r.residueSeq, residueName: r.residueName }));
+      fromContacts.forEach(r => { if (!bySeq.has(r.residueSeq)) bySeq.set(r.residueSeq, r); });
+      return Array.from(bySeq.values()).sort((x, y) => x.residueSeq - y.residueSeq);
+    };
+
+    res.json({
+      chainA,
+      chainB,
+      residuesA: residuesOf(chainA, contacts.map(c => ({ residueSeq: c.residueSeqA, residueName: c.residueNameA }))),
+      residuesB: residuesOf(chainB, contacts.map(c => ({ residueSeq: c.residueSeqB, residueName: c.residueNameB }))),
+      contacts,
+    });
+  });
+
+  // Interaction network of chains, or of the residues in one interface
+  app.get(api.analysis.network.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = api.analysis.network.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const session = await storage.getAnalysisSession(id);
+    const summary = session?.resultSummary as AnalysisSummary | null | undefined;
+    if (!summary) return res.status(404).json({ message: "Analysis session or result not found" });
+
+    const { level, chainA, chainB, format } = parsed.data;
+    let network;
+    if (level === "chains") {
+      network = buildChainNetwork(summary);
+    } else {
+      const a = findChain(summary, chainA!);
+      const b = findChain(summary, chainB!);
+      if (!a || !b) return res.status(404).json({ message: "Chain not found in this analysis" });
+      network = buildResidueNetwork(chainA!, chainB!, await storage.getContactMap(id, a, b));
+    }
+
+    if (format === "json") return res.json(network);
+
+    const name = level === "chains"
+      ? `analysis_${id}_chain_network`
+      : `analysis_${id}_interface_${chainA}_${chainB}`.replace(/[^A-Za-z0-9_-]+/g, "-");
+    if (format === "graphml") {
+      res.attachment(`${name}.graphml`);
+      res.type('application/graphml+xml');
+      return res.send(toGraphML(network));
+    }
+    res.attachment(`${name}.cyjs`);
+    res.json(toCytoscapeJson(network));
+  });
+
   // Get Analysis
   app.get(api.analysis.get.path, async (req, res) => {
     const id = parseInt(req.params.id);
@@ -138,13 +221,11 @@ export async function registerRoutes(
       }
     }
 
-    const result = session.resultSummary as any;
-    // Optimization: Truncate for UI
-    if (result && Array.isArray(result.interactions) && result.interactions.length > 1000) {
-      result.fullInteractionsCount = result.interactions.length;
-      result.interactions = result.interactions.slice(0, 1000);
-    }
-    
+    // Interactions are paged through their own endpoint; the detail carries chart aggregates only
+    const result = session.resultSummary
+      ? { ...(session.resultSummary as AnalysisSummary), interactionStats: await storage.getInteractionStats(id) }
+      : null;
+
     res.json({ ...session, proteinMetadata: protein, result });
   });
 
@@ -156,8 +237,7 @@ export async function registerRoutes(
       return res.status(404).json({ message: "Analysis session or result not found" });
     }
 
-    const result = session.resultSummary as unknown as AnalysisResult;
-    const csv = generateInterProteinCSV(result.interactions);
+    const csv = generateInterProteinCSV(await storage.getInteractions(id, { intra: false }));
     
     res.header('Content-Type', 'text/csv');
     res.attachment(`analysis_${id}_inter-protein.csv`);
@@ -172,14 +252,34 @@ export async function registerRoutes(
       return res.status(404).json({ message: "Analysis session or result not found" });
     }
 
-    const result = session.resultSummary as unknown as AnalysisResult;
-    const csv = generateIntraProteinCSV(result.interactions);
+    const csv = generateIntraProteinCSV(await storage.getInteractions(id, { intra: true }));
     
     res.header('Content-Type', 'text/csv');
     res.attachment(`analysis_${id}_intra-protein.csv`);
     res.send(csv);
   });
 
+  // Download one ligand's contacts as CSV
+  app.get(api.analysis.downloadLigand.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const session = await storage.getAnalysisSession(id);
+    const site = (session?.resultSummary as AnalysisSummary | null)?.bindingSites
+      ?.find(s => s.ligandId === req.params.ligandId);
+    if (!site) {
+      return res.status(404).json({ message: "Ligand not found in this analysis" });
+    }
+
+    // Pairs inside the ligand itself are not binding-site contacts
+    const label = `${site.residueName} ${site.residueSeq}`;
+    const contacts = (await storage.getResidueInteractions(id, site.chainId, label))
+      .filter(i => !(i.chainA === i.chainB && i.residueA === label && i.residueB === label));
+    const csv = generateInteractionCSV(contacts);
+
+    res.header('Content-Type', 'text/csv');
+    res.attachment(`analysis_${id}_ligand_${site.residueName}${site.residueSeq}${site.chainId}.csv`);
+    res.send(csv);
+  });
+
   // Download Structure/Coordinates CSV
   app.get(api.analysis.downloadStructure.path, async (req, res) => {
     const id = parseInt(req.params.id);
@@ -198,14 +298,12 @@ export async function registerRoutes(
       let content: string;
       
       if (source.pdbId) {
-        const rcsbRes = await fetch(`https://files.rcsb.org/download/${source.pdbId.toUpperCase()}.pdb`);
-        if (!rcsbRes.ok) throw new Error("Failed to fetch");
-        content = await rcsbRes.text();
+        content = await fetchStructureFromRCSB(source.pdbId);
       } else {
         return res.status(400).json({ message: "Cannot generate structure CSV for uploaded files" });
       }
 
-      const atoms = parsePDB(content, source.name);
+      const atoms = parseStructure(content, source.name);
       allAtoms.push(...atoms);
 
       if (allAtoms.length === 0) {
@@ -221,50 +319,84 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/compare", async (req, res) => {
+  // Queue a comparison. Sources are resolved, parsed and analyzed by the job;
+  // session sources are checked here so a bad id is reported against its field.
+  app.post(api.compare.run.path, async (req, res) => {
+    const parsed = api.compare.run.input.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+
     try {
-      const input = req.body;
-      const fetchPDB = async (pdbId: string) => {
-        const response = await fetch(`https://files.rcsb.org/download/${pdbId.toUpperCase()}.pdb`);
-        if (!response.ok) throw new Error(`Could not fetch PDB ${pdbId}`);
-        return response.text();
-      };
-
-      const [contentA, contentB] = await Promise.all([
-        fetchPDB(input.sourceA.pdbId),
-        fetchPDB(input.sourceB.pdbId)
-      ]);
-
-      const atomsA = parsePDB(contentA, input.sourceA.name);
-      const atomsB = parsePDB(contentB, input.sourceB.name);
-
-      const resultA = analyzeInteractions({ [input.sourceA.name]: atomsA });
-      const resultB = analyzeInteractions({ [input.sourceB.name]: atomsB });
-
-      resultA.bindingAffinity = calculateBindingAffinityIndex(resultA);
-      resultB.bindingAffinity = calculateBindingAffinityIndex(resultB);
-
-      const baiA = resultA.bindingAffinity?.bindingAffinityIndex || 0;
-      const baiB = resultB.bindingAffinity?.bindingAffinityIndex || 0;
-
-      const deltaBAI = baiA - baiB;
-      const percentDiff = baiB !== 0 ? (deltaBAI / baiB) * 100 : 0;
-
-      res.json({
-        resultA,
-        resultB,
-        contentA,
-        contentB,
-        comparison: {
-          deltaBAI,
-          percentDiff,
-          winner: baiA >= baiB ? 'A' : 'B'
+      const { sources } = parsed.data;
+      for (let i = 0; i < sources.length; i++) {
+        const sessionId = sources[i].sessionId;
+        if (sessionId === undefined) continue;
+        const session = await storage.getAnalysisSession(sessionId);
+        if (!session) return res.status(404).json({ message: `Analysis session ${sessionId} not found` });
+        if (session.status !== "completed" || !session.resultSummary) {
+          return res.status(400).json({
+            message: `Analysis session ${sessionId} has not completed (status: ${session.status})`,
+            field: `sources.${i}.sessionId`,
+          });
         }
-      });
+      }
+
+      const job = await storage.createComparison(parsed.data);
+      enqueueCompareJob(job.id);
+      res.status(202).json(job);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Comparison job status, with the result once completed
+  app.get(api.compare.get.path, async (req, res) => {
+    const job = await storage.getComparison(parseInt(req.params.id));
+    if (!job) return res.status(404).json({ message: "Comparison not found" });
+    res.json(job);
+  });
+
+  // Queue the side-by-side comparison of two structures of an earlier comparison
+  app.post(api.compare.pair.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = api.compare.pair.input.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const job = await storage.getComparison(id);
+    if (!job) return res.status(404).json({ message: "Comparison not found" });
+    if (parsed.data.pair.some(i => i >= job.structureCount)) {
+      return res.status(400).json({ message: "pair must point at two of the compared structures", field: "pair" });
+    }
+    res.status(202).json(await enqueueComparePairJob(id, parsed.data.pair));
+  });
+
+  // Paged interactions of one side of a completed comparison's pair
+  app.get(api.compare.pairInteractions.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    const side = req.params.side;
+    if (side !== "A" && side !== "B") return res.status(404).json({ message: "Not found" });
+    const parsed = api.compare.pairInteractions.input.safeParse(req.query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return res.status(400).json({ message: issue.message, field: issue.path.join('.') });
+    }
+    const page = await storage.queryComparisonInteractions(id, side, parsed.data);
+    if (!page) return res.status(404).json({ message: "Comparison not found or not completed" });
+    res.json(page);
+  });
+
+  // Structure text of one side of a completed comparison's pair, for the viewers
+  app.get(api.compare.pairStructure.path, async (req, res) => {
+    const side = req.params.side;
+    if (side !== "A" && side !== "B") return res.status(404).json({ message: "Not found" });
+    const content = await storage.getComparisonPairContent(parseInt(req.params.id), side);
+    if (!content) return res.status(404).json({ message: "Comparison not found or not completed" });
+    res.type('text/plain').send(content);
+  });
+
   return httpServer;
 }
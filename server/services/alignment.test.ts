@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { alignSequences, blosum62 } from "./alignment";
+
+describe("blosum62", () => {
+  it("looks up substitution scores symmetrically", () => {
+    assert.equal(blosum62("W", "W"), 11);
+    assert.equal(blosum62("A", "R"), -1);
+    assert.equal(blosum62("R", "A"), -1);
+  });
+
+  it("scores selenocysteine as cysteine and unknown codes as X", () => {
+    assert.equal(blosum62("U", "C"), 9);
+    assert.equal(blosum62("J", "A"), blosum62("X", "A"));
+  });
+});
+
+describe("alignSequences", () => {
+  it("aligns identical sequences without gaps", () => {
+    const alignment = alignSequences("HEAGAWGHEE", "HEAGAWGHEE");
+    assert.equal(alignment.alignedA, "HEAGAWGHEE");
+    assert.equal(alignment.identities, 10);
+    assert.equal(alignment.gaps, 0);
+    assert.equal(alignment.score, Array.from("HEAGAWGHEE").reduce((sum, c) => sum + blosum62(c, c), 0));
+  });
+
+  it("opens one affine gap for an internal deletion", () => {
+    const alignment = alignSequences("MKWVTFISLLFLFSSAYS", "MKWVISLLFLFSSAYS");
+    assert.equal(alignment.alignedB, "MKWV--ISLLFLFSSAYS");
+    assert.equal(alignment.identities, 16);
+    assert.equal(alignment.gaps, 2);
+    assert.deepEqual(alignment.pairs.slice(3, 5), [[3, 3], [6, 4]]);
+  });
+
+  it("leaves end gaps of a global alignment unpenalized", () => {
+    const alignment = alignSequences("GGGMKWVTFISLL", "MKWVTFISLL");
+    assert.equal(alignment.alignedA, "GGGMKWVTFISLL");
+    assert.equal(alignment.alignedB, "---MKWVTFISLL");
+    assert.deepEqual([alignment.startA, alignment.startB], [0, 0]);
+    assert.equal(alignment.score, Array.from("MKWVTFISLL").reduce((sum, c) => sum + blosum62(c, c), 0));
+  });
+
+  it("reports only the best-scoring segment of a local alignment", () => {
+    const alignment = alignSequences("PPPPPWHEAGAWPPPP", "DDDDHEAGAWDDDD", "local");
+    assert.equal(alignment.mode, "local");
+    assert.equal(alignment.alignedA, "HEAGAW");
+    assert.equal(alignment.alignedB, "HEAGAW");
+    assert.deepEqual([alignment.startA, alignment.startB], [6, 4]);
+    assert.equal(alignment.score, 38);
+    assert.deepEqual(alignment.pairs[0], [6, 4]);
+  });
+
+  it("counts positives separately from identities", () => {
+    // I/V and K/R score positively without being identical
+    const alignment = alignSequences("AIKW", "AVRW");
+    assert.deepEqual([alignment.identities, alignment.positives], [2, 4]);
+  });
+});
@@ -0,0 +1,189 @@
+import type { AlignmentMode } from "@shared/schema";
+
+// Pairwise sequence alignment with BLOSUM62 and affine gap penalties (Gotoh).
+// Global alignments (Needleman–Wunsch) leave end gaps unpenalized, which suits
+// chains whose constructs differ in length; local alignments (Smith–Waterman)
+// report the best-scoring segment only.
+
+const GAP_OPEN = -10;
+const GAP_EXTEND = -0.5;
+
+const BLOSUM62_ORDER = "ARNDCQEGHILKMFPSTWYVBZX*";
+const BLOSUM62_ROWS = [
+  " 4 -1 -2 -2  0 -1 -1  0 -2 -1 -1 -1 -1 -2 -1  1  0 -3 -2  0 -2 -1  0 -4",
+  "-1  5  0 -2 -3  1  0 -2  0 -3 -2  2 -1 -3 -2 -1 -1 -3 -2 -3 -1  0 -1 -4",
+  "-2  0  6  1 -3  0  0  0  1 -3 -3  0 -2 -3 -2  1  0 -4 -2 -3  3  0 -1 -4",
+  "-2 -2  1  6 -3  0  2 -1 -1 -3 -4 -1 -3 -3 -1  0 -1 -4 -3 -3  4  1 -1 -4",
+  " 0 -3 -3 -3  9 -3 -4 -3 -3 -1 -1 -3 -1 -2 -3 -1 -1 -2 -2 -1 -3 -3 -2 -4",
+  "-1  1  0  0 -3  5  2 -2  0 -3 -2  1  0 -3 -1  0 -1 -2 -1 -2  0  3 -1 -4",
+  "-1  0  0  2 -4  2  5 -2  0 -3 -3  1 -2 -3 -1  0 -1 -3 -2 -2  1  4 -1 -4",
+  " 0 -2  0 -1 -3 -2 -2  6 -2 -4 -4 -2 -3 -3 -2  0 -2 -2 -3 -3 -1 -2 -1 -4",
+  "-2  0  1 -1 -3  0  0 -2  8 -3 -3 -1 -2 -1 -2 -1 -2 -2  2 -3  0  0 -1 -4",
+  "-1 -3 -3 -3 -1 -3 -3 -4 -3  4  2 -3  1  0 -3 -2 -1 -3 -1  3 -3 -3 -1 -4",
+  "-1 -2 -3 -4 -1 -2 -3 -4 -3  2  4 -2  2  0 -3 -2 -1 -2 -1  1 -4 -3 -1 -4",
+  "-1  2  0 -1 -3  1  1 -2 -1 -3 -2  5 -1 -3 -1  0 -1 -3 -2 -2  0  1 -1 -4",
+  "-1 -1 -2 -3 -1  0 -2 -3 -2  1  2 -1  5  0 -2 -1 -1 -1 -1  1 -3 -1 -1 -4",
+  "-2 -3 -3 -3 -2 -3 -3 -3 -1  0  0 -3  0  6 -4 -2 -2  1  3 -1 -3 -3 -1 -4",
+  "-1 -2 -2 -1 -3 -1 -1 -2 -2 -3 -3 -1 -2 -4  7 -1 -1 -4 -3 -2 -2 -1 -2 -4",
+  " 1 -1  1  0 -1  0  0  0 -1 -2 -2  0 -1 -2 -1  4  1 -3 -2 -2  0  0  0 -4",
+  " 0 -1  0 -1 -1 -1 -1 -2 -2 -1 -1 -1 -1 -2 -1  1  5 -2 -2  0 -1 -1  0 -4",
+  "-3 -3 -4 -4 -2 -2 -3 -2 -2 -3 -2 -3 -1  1 -4 -3 -2 11  2 -3 -4 -3 -2 -4",
+  "-2 -2 -2 -3 -2 -1 -2 -3  2 -1 -1 -2 -1  3 -3 -2 -2  2  7 -1 -3 -2 -1 -4",
+  " 0 -3 -3 -3 -1 -2 -2 -3 -3  3  1 -2  1 -1 -2 -2  0 -3 -1  4 -3 -2 -1 -4",
+  "-2 -1  3  4 -3  0  1 -1  0 -3 -4  0 -3 -3 -2  0 -1 -4 -3 -3  4  1 -1 -4",
+  "-1  0  0  1 -3  3  4 -2  0 -3 -3  1 -1 -3 -1  0 -1 -3 -2 -2  1  4 -1 -4",
+  " 0 -1 -1 -1 -2 -1 -1 -1 -1 -1 -1 -1 -1 -1 -2  0  0 -2 -1 -1 -1 -1 -1 -4",
+  "-4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4  1",
+].map(row => row.trim().split(/\s+/).map(Number));
+
+const RESIDUE_INDEX = new Map(Array.from(BLOSUM62_ORDER).map((code, i) => [code, i]));
+// Selenocysteine and pyrrolysine score as their closest standard residues
+const SUBSTITUTES: Record<string, string> = { U: "C", O: "K" };
+
+function residueIndex(code: string): number {
+  return RESIDUE_INDEX.get(SUBSTITUTES[code] ?? code) ?? RESIDUE_INDEX.get("X")!;
+}
+
+export function blosum62(a: string, b: string): number {
+  return BLOSUM62_ROWS[residueIndex(a)][residueIndex(b)];
+}
+
+export interface SequenceAlignment {
+  mode: AlignmentMode;
+  // Gapped sequences of equal length ('-' marks a gap); for local alignments
+  // only the aligned segment, starting at startA / startB
+  alignedA: string;
+  alignedB: string;
+  startA: number;
+  startB: number;
+  // Index pairs [i in a, j in b] of aligned (non-gap) positions
+  pairs: Array<[number, number]>;
+  identities: number;
+  // Aligned pairs with a positive BLOSUM62 score
+  positives: number;
+  gaps: number;
+  score: number;
+}
+
+// Three-state Gotoh recursion: M (pair), X (gap in b), Y (gap in a)
+export function alignSequences(a: string, b: string, mode: AlignmentMode = "global"): SequenceAlignment {
+  const local = mode === "local";
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const size = rows * cols;
+  const M = new Float64Array(size).fill(-Infinity);
+  const X = new Float64Array(size).fill(-Infinity);
+  const Y = new Float64Array(size).fill(-Infinity);
+  // Back-pointers: which state each cell of each matrix came from (0 M, 1 X, 2 Y, 3 start)
+  const tM = new Uint8Array(size);
+  const tX = new Uint8Array(size);
+  const tY = new Uint8Array(size);
+
+  // Leading end gaps are free in both modes
+  for (let i = 0; i < rows; i++) { M[i * cols] = 0; tM[i * cols] = 3; }
+  for (let j = 0; j < cols; j++) { M[j] = 0; tM[j] = 3; }
+
+  const best3 = (m: number, x: number, y: number): [number, number] =>
+    m >= x && m >= y ? [m, 0] : x >= y ? [x, 1] : [y, 2];
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cell = i * cols + j;
+      const diag = (i - 1) * cols + j - 1;
+      const up = (i - 1) * cols + j;
+      const left = i * cols + j - 1;
+
+      const [prev, from] = best3(M[diag], X[diag], Y[diag]);
+      M[cell] = prev + blosum62(a[i - 1], b[j - 1]);
+      tM[cell] = from;
+      if (local && M[cell] < 0) { M[cell] = 0; tM[cell] = 3; }
+
+      const openX = M[up] + GAP_OPEN;
+      const extendX = X[up] + GAP_EXTEND;
+      X[cell] = openX >= extendX ? openX : extendX;
+      tX[cell] = openX >= extendX ? 0 : 1;
+
+      const openY = M[left] + GAP_OPEN;
+      const extendY = Y[left] + GAP_EXTEND;
+      Y[cell] = openY >= extendY ? openY : extendY;
+      tY[cell] = openY >= extendY ? 0 : 2;
+    }
+  }
+
+  // End cell: best M anywhere (local) or best on the last row/column (free trailing gaps)
+  let end = 0;
+  let endScore = -Infinity;
+  let endState = 0;
+  const consider = (cell: number) => {
+    const [score, state] = local ? [M[cell], 0] : best3(M[cell], X[cell], Y[cell]);
+    if (score > endScore) { endScore = score; end = cell; endState = state; }
+  };
+  if (local) {
+    for (let cell = 0; cell < size; cell++) consider(cell);
+  } else {
+    for (let i = 0; i < rows; i++) consider(i * cols + cols - 1);
+    for (let j = 0; j < cols; j++) consider((rows - 1) * cols + j);
+  }
+
+  let i = Math.floor(end / cols);
+  let j = end % cols;
+  const endI = i;
+  const endJ = j;
+  let state = endState;
+  let alignedA = "";
+  let alignedB = "";
+  const pairs: Array<[number, number]> = [];
+  while (i > 0 || j > 0) {
+    const cell = i * cols + j;
+    if (state === 0) {
+      if (tM[cell] === 3 || i === 0 || j === 0) break;
+      alignedA = a[i - 1] + alignedA;
+      alignedB = b[j - 1] + alignedB;
+      pairs.push([i - 1, j - 1]);
+      state = tM[cell];
+      i--;
+      j--;
+    } else if (state === 1) {
+      alignedA = a[i - 1] + alignedA;
+      alignedB = "-" + alignedB;
+      state = tX[cell];
+      i--;
+    } else {
+      alignedA = "-" + alignedA;
+      alignedB = b[j - 1] + alignedB;
+      state = tY[cell];
+      j--;
+    }
+  }
+  const startA = i;
+  const startB = j;
+
+  // Global alignments span both sequences; unaligned ends become end gaps
+  if (!local) {
+    alignedA = a.substring(0, startA) + "-".repeat(startB) + alignedA + a.substring(endI) + "-".repeat(b.length - endJ);
+    alignedB = "-".repeat(startA) + b.substring(0, startB) + alignedB + "-".repeat(a.length - endI) + b.substring(endJ);
+  }
+  pairs.reverse();
+
+  let identities = 0;
+  let positives = 0;
+  for (const [p, q] of pairs) {
+    if (a[p] === b[q]) identities++;
+    if (blosum62(a[p], b[q]) > 0) positives++;
+  }
+  let gaps = 0;
+  for (let k = 0; k < alignedA.length; k++) if (alignedA[k] === "-" || alignedB[k] === "-") gaps++;
+
+  return {
+    mode,
+    alignedA,
+    alignedB,
+    startA: local ? startA : 0,
+    startB: local ? startB : 0,
+    pairs,
+    identities,
+    positives,
+    gaps,
+    score: endScore,
+  };
+}
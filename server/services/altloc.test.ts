@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisConfigSchema } from "@shared/schema";
+import { isAltLocConflict, selectAtoms } from "./altloc";
+import { parsePDB } from "./pdb";
+import { atom, readFixture } from "./fixtures";
+
+const config = (fields: object) => AnalysisConfigSchema.parse(fields);
+
+describe("selectAtoms", () => {
+  // Model 1 has SER 1 OG as alternates A (0.35) and B (0.65) and a water at 0.2
+  const atoms = parsePDB(readFixture("altloc-models.pdb"), "test");
+  const serials = (fields: object) => selectAtoms(atoms, config(fields)).atoms.map(a => a.serial);
+
+  it("keeps the best-occupied conformer by default", () => {
+    assert.deepEqual(serials({}), [1, 2, 4, 5, 6, 7, 8]);
+  });
+
+  it("keeps the first listed conformer or all of them", () => {
+    assert.deepEqual(serials({ altLocPolicy: "first" }), [1, 2, 3, 5, 6, 7, 8]);
+    assert.deepEqual(serials({ altLocPolicy: "all" }), [1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("drops atoms below the occupancy floor", () => {
+    assert.deepEqual(serials({ minOccupancy: 0.5 }), [1, 2, 4, 6, 7, 8]);
+  });
+
+  it("reports what was dropped", () => {
+    const { report } = selectAtoms(atoms, config({ minOccupancy: 0.5 }));
+    assert.deepEqual(report, {
+      atomsParsed: 8,
+      atomsKept: 6,
+      altLocPolicy: "highest",
+      residuesWithAltLocs: 1,
+      altLocAtomsDropped: 1,
+      minOccupancy: 0.5,
+      lowOccupancyDropped: 1,
+    });
+  });
+
+  it("picks conformers per residue, never mixing alternates within one", () => {
+    const mixed = [
+      atom({ name: "CB", resName: "VAL", resSeq: 3, altLoc: "A", occupancy: 0.6 }),
+      atom({ name: "CG1", resName: "VAL", resSeq: 3, altLoc: "A", occupancy: 0.4 }),
+      atom({ name: "CB", resName: "VAL", resSeq: 3, altLoc: "B", occupancy: 0.5 }),
+      atom({ name: "CG1", resName: "VAL", resSeq: 3, altLoc: "B", occupancy: 0.55 }),
+    ];
+    // Mean occupancy: A 0.5, B 0.525
+    assert.deepEqual(selectAtoms(mixed, config({})).atoms.map(a => a.altLoc), ["B", "B"]);
+  });
+});
+
+describe("isAltLocConflict", () => {
+  it("flags different alternates of the same residue only", () => {
+    const a = atom({ name: "OG", resName: "SER", resSeq: 1, altLoc: "A" });
+    assert.equal(isAltLocConflict(a, { ...a, altLoc: "B" }), true);
+    assert.equal(isAltLocConflict(a, { ...a, altLoc: "" }), false);
+    assert.equal(isAltLocConflict(a, { ...a, altLoc: "B", resSeq: 2 }), false);
+  });
+});
@@ -0,0 +1,87 @@
+import type { Atom, AnalysisConfig, ParseReport } from "@shared/schema";
+import { residueKey } from "./structure";
+
+// Alternate-location and occupancy filtering applied to parsed atoms before
+// analysis. Conformers are chosen per residue so a side chain is never mixed
+// from two alternates.
+
+function conformerKey(atom: Atom): string {
+  return `${atom.model}|${residueKey(atom)}`;
+}
+
+// Alternate id kept for each residue that has alternates, or null to keep all
+function chooseConformers(atoms: Atom[], policy: AnalysisConfig["altLocPolicy"]): Map<string, string> | null {
+  if (policy === "all") return null;
+
+  // Per residue: alternate ids in file order with their occupancy totals
+  const alternates = new Map<string, Map<string, { occupancy: number; count: number }>>();
+  for (const atom of atoms) {
+    if (!atom.altLoc) continue;
+    const key = conformerKey(atom);
+    let byId = alternates.get(key);
+    if (!byId) {
+      byId = new Map();
+      alternates.set(key, byId);
+    }
+    const entry = byId.get(atom.altLoc) ?? { occupancy: 0, count: 0 };
+    entry.occupancy += atom.occupancy;
+    entry.count++;
+    byId.set(atom.altLoc, entry);
+  }
+
+  const chosen = new Map<string, string>();
+  alternates.forEach((byId, key) => {
+    let best: string | null = null;
+    let bestOccupancy = -Infinity;
+    byId.forEach(({ occupancy, count }, id) => {
+      if (best === null) best = id;
+      if (policy === "highest" && occupancy / count > bestOccupancy) {
+        best = id;
+        bestOccupancy = occupancy / count;
+      }
+    });
+    chosen.set(key, best!);
+  });
+  return chosen;
+}
+
+export function selectAtoms(atoms: Atom[], config: AnalysisConfig): { atoms: Atom[]; report: ParseReport } {
+  const chosen = chooseConformers(atoms, config.altLocPolicy);
+  const residuesWithAltLocs = new Set<string>();
+  let altLocAtomsDropped = 0;
+  let lowOccupancyDropped = 0;
+
+  const kept = atoms.filter(atom => {
+    if (atom.altLoc) {
+      const key = conformerKey(atom);
+      residuesWithAltLocs.add(key);
+      if (chosen && chosen.get(key) !== atom.altLoc) {
+        altLocAtomsDropped++;
+        return false;
+      }
+    }
+    if (atom.occupancy < config.minOccupancy) {
+      lowOccupancyDropped++;
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    atoms: kept,
+    report: {
+      atomsParsed: atoms.length,
+      atomsKept: kept.length,
+      altLocPolicy: config.altLocPolicy,
+      residuesWithAltLocs: residuesWithAltLocs.size,
+      altLocAtomsDropped,
+      minOccupancy: config.minOccupancy,
+      lowOccupancyDropped,
+    },
+  };
+}
+
+// Under the "all" policy, two alternates of the same residue never coexist
+export function isAltLocConflict(a: Atom, b: Atom): boolean {
+  return a.altLoc !== '' && b.altLoc !== '' && a.altLoc !== b.altLoc && residueKey(a) === residueKey(b);
+}
@@ -0,0 +1,184 @@
+import type { Atom, RingGeometry } from "@shared/schema";
+import { add, centroid, cross, distance, dot, lineAngle, normalize, scale, spatialBuckets, sub, vec, type Vec3 } from "./geometry";
+import type { Residue, ResidueIndex } from "./structure";
+
+// Geometric criteria follow PLIP (Salentin et al., 2015)
+export const PI_STACK_MAX_DISTANCE = 5.5;
+export const PI_STACK_MAX_OFFSET = 2.0;
+export const PI_STACK_PARALLEL_MAX_ANGLE = 30;
+export const PI_STACK_TSHAPED_MIN_ANGLE = 60;
+export const CATION_PI_MAX_DISTANCE = 6.0;
+export const CATION_PI_MAX_OFFSET = 2.0;
+
+const PURINE_RINGS = [
+  { name: 'Ring5', atoms: ['C4', 'C5', 'N7', 'C8', 'N9'] },
+  { name: 'Ring6', atoms: ['N1', 'C2', 'N3', 'C4', 'C5', 'C6'] },
+];
+const PYRIMIDINE_RINGS = [
+  { name: 'Ring6', atoms: ['N1', 'C2', 'N3', 'C4', 'C5', 'C6'] },
+];
+
+// Aromatic ring atoms by residue (amino acids and nucleotide bases)
+const RING_DEFINITIONS: Record<string, Array<{ name: string; atoms: string[] }>> = {
+  PHE: [{ name: 'Ring6', atoms: ['CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ'] }],
+  TYR: [{ name: 'Ring6', atoms: ['CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ'] }],
+  TRP: [
+    { name: 'Ring5', atoms: ['CG', 'CD1', 'NE1', 'CE2', 'CD2'] },
+    { name: 'Ring6', atoms: ['CD2', 'CE2', 'CZ2', 'CH2', 'CZ3', 'CE3'] },
+  ],
+  HIS: [{ name: 'Ring5', atoms: ['CG', 'ND1', 'CD2', 'CE1', 'NE2'] }],
+  A: PURINE_RINGS, G: PURINE_RINGS, DA: PURINE_RINGS, DG: PURINE_RINGS,
+  C: PYRIMIDINE_RINGS, U: PYRIMIDINE_RINGS, DC: PYRIMIDINE_RINGS, DT: PYRIMIDINE_RINGS, DU: PYRIMIDINE_RINGS,
+};
+
+// Positively charged groups that engage aromatic faces
+const CATION_DEFINITIONS: Record<string, { name: string; atoms: string[] }> = {
+  LYS: { name: 'NZ (N)', atoms: ['NZ'] },
+  ARG: { name: 'Guanidinium (centroid)', atoms: ['NE', 'NH1', 'NH2'] },
+};
+
+export interface AromaticRing {
+  residue: Residue;
+  name: string;
+  atoms: Atom[];
+  centroid: Vec3;
+  normal: Vec3;
+}
+
+export interface CationGroup {
+  residue: Residue;
+  name: string;
+  atoms: Atom[];
+  center: Vec3;
+}
+
+export interface RingContact {
+  type: "Pi-Stacking" | "T-Shaped Pi-Stacking" | "Cation-Pi";
+  residueA: Residue;
+  residueB: Residue;
+  labelA: string;
+  labelB: string;
+  anchorA: Atom;
+  anchorB: Atom;
+  geometry: RingGeometry;
+}
+
+function ringNormal(points: Vec3[], center: Vec3): Vec3 {
+  // Sum of consecutive cross products is robust to slight non-planarity
+  let n = vec(0, 0, 0);
+  for (let i = 0; i < points.length; i++) {
+    const a = sub(points[i], center);
+    const b = sub(points[(i + 1) % points.length], center);
+    n = add(n, cross(a, b));
+  }
+  return normalize(n);
+}
+
+// In-plane displacement of `point` from the ring centroid
+function planarOffset(ring: AromaticRing, point: Vec3): number {
+  const v = sub(point, ring.centroid);
+  const along = dot(v, ring.normal);
+  return distance(v, scale(ring.normal, along));
+}
+
+function round(value: number, digits = 2) {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+export function perceiveRings(residues: ResidueIndex): AromaticRing[] {
+  const rings: AromaticRing[] = [];
+  residues.forEach(residue => {
+    const definitions = RING_DEFINITIONS[residue.resName];
+    if (!definitions) return;
+    for (const def of definitions) {
+      const atoms = def.atoms.map(name => residue.byName.get(name));
+      if (atoms.some(a => !a)) continue; // incomplete side chain
+      const ringAtoms = atoms as Atom[];
+      const center = centroid(ringAtoms);
+      rings.push({ residue, name: def.name, atoms: ringAtoms, centroid: center, normal: ringNormal(ringAtoms, center) });
+    }
+  });
+  return rings;
+}
+
+export function perceiveCations(residues: ResidueIndex): CationGroup[] {
+  const cations: CationGroup[] = [];
+  residues.forEach(residue => {
+    const def = CATION_DEFINITIONS[residue.resName];
+    if (!def) return;
+    const atoms = def.atoms.map(name => residue.byName.get(name)).filter((a): a is Atom => !!a);
+    if (atoms.length === 0) return;
+    cations.push({ residue, name: def.name, atoms, center: centroid(atoms) });
+  });
+  return cations;
+}
+
+export function detectRingInteractions(residues: ResidueIndex): RingContact[] {
+  const contacts: RingContact[] = [];
+  const rings = perceiveRings(residues);
+  const cations = perceiveCations(residues);
+
+  // π–π stacking: parallel (face-to-face / offset) and perpendicular (T-shaped)
+  const ringsNear = spatialBuckets(rings, r => r.centroid, PI_STACK_MAX_DISTANCE);
+  const ringOrder = new Map(rings.map((ring, i) => [ring, i]));
+  rings.forEach((ringA, i) => {
+    for (const ringB of ringsNear(ringA.centroid)) {
+      if (ringOrder.get(ringB)! <= i || ringB.residue === ringA.residue) continue;
+
+      const d = distance(ringA.centroid, ringB.centroid);
+      if (d > PI_STACK_MAX_DISTANCE) continue;
+
+      const planeAngle = lineAngle(ringA.normal, ringB.normal);
+      const offset = Math.min(planarOffset(ringA, ringB.centroid), planarOffset(ringB, ringA.centroid));
+      if (offset > PI_STACK_MAX_OFFSET) continue;
+
+      let type: RingContact["type"] | null = null;
+      if (planeAngle <= PI_STACK_PARALLEL_MAX_ANGLE) type = "Pi-Stacking";
+      else if (planeAngle >= PI_STACK_TSHAPED_MIN_ANGLE) type = "T-Shaped Pi-Stacking";
+      if (!type) continue;
+
+      contacts.push({
+        type,
+        residueA: ringA.residue,
+        residueB: ringB.residue,
+        labelA: `${ringA.name} (centroid)`,
+        labelB: `${ringB.name} (centroid)`,
+        anchorA: ringA.atoms[0],
+        anchorB: ringB.atoms[0],
+        geometry: { centroidDistance: round(d), angle: round(planeAngle, 1), offset: round(offset) },
+      });
+    }
+  });
+
+  // Cation–π: cationic group sitting over the aromatic face
+  const cationsNear = spatialBuckets(cations, c => c.center, CATION_PI_MAX_DISTANCE);
+  for (const ring of rings) {
+    for (const cation of cationsNear(ring.centroid)) {
+      if (cation.residue === ring.residue) continue;
+
+      const d = distance(ring.centroid, cation.center);
+      if (d > CATION_PI_MAX_DISTANCE) continue;
+
+      const offset = planarOffset(ring, cation.center);
+      if (offset > CATION_PI_MAX_OFFSET) continue;
+
+      contacts.push({
+        type: "Cation-Pi",
+        residueA: cation.residue,
+        residueB: ring.residue,
+        labelA: cation.name,
+        labelB: `${ring.name} (centroid)`,
+        anchorA: cation.atoms[0],
+        anchorB: ring.atoms[0],
+        geometry: {
+          centroidDistance: round(d),
+          angle: round(lineAngle(ring.normal, sub(cation.center, ring.centroid)), 1),
+          offset: round(offset),
+        },
+      });
+    }
+  }
+
+  return contacts;
+}
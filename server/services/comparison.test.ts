@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Atom, ComparedStructure, Interaction } from "@shared/schema";
+import { compareStructures, type ComparedInput, type ComparisonOptions } from "./comparison";
+import { summarizeInteractions } from "./pdb";
+import { atom } from "./fixtures";
+
+const CHAINS = { A: ["MET", "LYS", "ASP", "SER", "LEU", "GLU"], B: ["TRP", "TYR", "PHE", "HIS", "TRP", "ASN"] };
+
+// Two six-residue chains as a CA helix or a straight strand, chain B shifted along x
+function trace(shape: "helix" | "strand"): Atom[] {
+  return Object.entries(CHAINS).flatMap(([chainID, resNames], c) => resNames.map((resName, i) => {
+    const angle = (i * 100 * Math.PI) / 180;
+    const position = shape === "helix"
+      ? { x: 2.3 * Math.cos(angle), y: 2.3 * Math.sin(angle), z: 1.5 * i }
+      : { x: 0, y: 0, z: 3.3 * i };
+    return atom({ name: "CA", resName, resSeq: i + 1, chainID, element: "C", ...position, x: position.x + 12 * c });
+  }));
+}
+
+function contact(seqA: number, seqB: number): Interaction {
+  return {
+    id: `${seqA}-${seqB}`,
+    proteinA: "test", chainA: "A", residueA: `${CHAINS.A[seqA - 1]} ${seqA}`, atomA: "CA (C)",
+    proteinB: "test", chainB: "B", residueB: `${CHAINS.B[seqB - 1]} ${seqB}`, atomB: "CA (C)",
+    distance: 3.5,
+    type: "Hydrogen Bond",
+    isIntraMolecular: false,
+  };
+}
+
+function input(name: string, shape: "helix" | "strand", contacts: Array<[number, number]>, bai: number): ComparedInput {
+  const interactions = contacts.map(([a, b]) => contact(a, b));
+  // Only the fields the comparison reads
+  const result = {
+    interactions,
+    bindingAffinity: { bindingAffinityIndex: bai, bindingCategory: "Moderate" },
+    interactionStats: summarizeInteractions(interactions),
+  } as unknown as ComparedStructure;
+  return { name, content: "", atoms: trace(shape), result };
+}
+
+// Interfaces group 0 with 1 and 2 with 3; shapes group 0 with 2 and 1 with 3
+const inputs = [
+  input("s0", "helix", [[2, 3], [4, 5]], 10),
+  input("s1", "strand", [[2, 3], [4, 5]], 20),
+  input("s2", "helix", [[1, 6], [3, 2]], 30),
+  input("s3", "strand", [[1, 6], [3, 2]], 40),
+];
+const options = (fields: Partial<ComparisonOptions>): ComparisonOptions => ({ referenceIndex: 0, alignmentMode: "global", clusterBy: "interface", ...fields });
+
+describe("compareStructures", () => {
+  const result = compareStructures(inputs, options({}));
+
+  it("fills symmetric similarity matrices", () => {
+    assert.deepEqual(result.similarity.jaccard, [[1, 1, 0, 0], [1, 1, 0, 0], [0, 0, 1, 1], [0, 0, 1, 1]]);
+    const { rmsd } = result.similarity;
+    assert.equal(rmsd[0][2], 0);
+    assert.equal(rmsd[1][3], 0);
+    assert.ok(rmsd[0][1]! > 2);
+    assert.equal(rmsd[0][1], rmsd[1][0]);
+  });
+
+  it("ranks structures by binding affinity index", () => {
+    assert.deepEqual(result.structures.map(s => s.rank), [4, 3, 2, 1]);
+    assert.deepEqual(result.structures.map(s => s.jaccardToReference), [1, 1, 0, 0]);
+  });
+
+  it("clusters on interface similarity, best-ranked cluster first", () => {
+    assert.equal(result.clustering.threshold, 0.5);
+    assert.deepEqual(result.clustering.clusters, [
+      { id: 1, members: [2, 3], representative: 3 },
+      { id: 2, members: [0, 1], representative: 1 },
+    ]);
+    assert.deepEqual(result.structures.map(s => s.cluster), [2, 2, 1, 1]);
+  });
+
+  it("clusters on CA RMSD when asked", () => {
+    const byRmsd = compareStructures(inputs, options({ clusterBy: "rmsd" }));
+    assert.deepEqual(byRmsd.clustering.clusters.map(c => c.members), [[1, 3], [0, 2]]);
+  });
+
+  it("keeps every structure apart below the threshold", () => {
+    const strict = compareStructures(inputs, options({ clusterBy: "rmsd", clusterThreshold: -1 }));
+    assert.equal(strict.clustering.clusters.length, 4);
+  });
+
+  it("details the reference against the best-ranked other structure unless a pair is chosen", () => {
+    assert.deepEqual(result.pairIndices, [0, 3]);
+    assert.equal(result.pair.interfaceDiff.conserved, 0);
+    const chosen = compareStructures(inputs, options({ pair: [0, 1] }));
+    assert.deepEqual([chosen.pair.nameA, chosen.pair.nameB], ["s0", "s1"]);
+    assert.equal(chosen.pair.interfaceDiff.jaccard, 1);
+    assert.equal("interactions" in chosen.pair.resultA, false);
+  });
+});
@@ -0,0 +1,228 @@
+import type { AlignmentMode, AnalysisConfig, AnalysisSummaryWithStats, Atom, ClusterMetric, ComparedEntry, ComparedStructure, ComparisonResult, ContactResidue, Interaction, InterfaceDiff, PairwiseComparison, StructureCluster } from "@shared/schema";
+import { parseStructure, analyzeInteractions, calculateBindingAffinityIndex, selectReportedAtoms, summarizeInteractions } from "./pdb";
+import { parseSecondaryStructureRecords } from "./secondary";
+import { alignStructureSequences, chainTraces, pairChains } from "./sequence";
+import { diffInterfaces } from "./interfaceDiff";
+import { pairedRmsd, superposeStructures } from "./superposition";
+
+// N-way comparison: structures are ranked by BAI, compared pairwise on their
+// interface contacts (Jaccard) and CA RMSD, and grouped by average-linkage
+// clustering. One pair, the reference and the best-ranked other structure
+// unless chosen, also gets the full side-by-side comparison.
+
+// A structure as resolved by the compare job, before parsing
+export interface ComparedSource {
+  name: string;
+  content: string;
+  // Settings the result was computed with; they also pick the atoms (conformers,
+  // model) the comparison reads
+  config: AnalysisConfig;
+  // Stored result of a completed analysis session, used instead of re-analyzing
+  result?: ComparedStructure;
+}
+
+export interface ComparedInput {
+  name: string;
+  content: string;
+  atoms: Atom[];
+  result: ComparedStructure;
+}
+
+export interface ComparisonOptions {
+  referenceIndex: number;
+  alignmentMode: AlignmentMode;
+  clusterBy: ClusterMetric;
+  clusterThreshold?: number;
+  pair?: [number, number];
+}
+
+const DEFAULT_CLUSTER_THRESHOLDS: Record<ClusterMetric, number> = {
+  interface: 0.5, // 1 − Jaccard
+  rmsd: 2, // Å
+};
+
+export type ComparisonStage = "analyzing" | "comparing";
+
+// The pair's interactions travel apart from the result so the job can store
+// them as rows instead of inside the result document
+export interface ComparisonRun {
+  result: ComparisonResult;
+  pairInteractions: [Interaction[], Interaction[]];
+}
+
+function analyzeComparedStructure({ name, content, config }: ComparedSource, atoms: Atom[], onProgress?: (fraction: number) => void): ComparedStructure {
+  const result = analyzeInteractions({ [name]: atoms }, config, onProgress, { [name]: parseSecondaryStructureRecords(content) });
+  result.bindingAffinity = calculateBindingAffinityIndex(result);
+  return { ...result, interactionStats: summarizeInteractions(result.interactions) };
+}
+
+function interfaceMetrics(result: ComparedStructure) {
+  const inter = result.interactions.filter(i => !i.isIntraMolecular);
+  const contacts = new Set<string>();
+  const residues = new Set<string>();
+  inter.forEach(i => {
+    const residueA = `${i.chainA}:${i.residueA}`;
+    const residueB = `${i.chainB}:${i.residueB}`;
+    residues.add(residueA);
+    residues.add(residueB);
+    contacts.add(residueA < residueB ? `${residueA}|${residueB}` : `${residueB}|${residueA}`);
+  });
+  return {
+    interChainInteractions: inter.length,
+    interfaceContacts: contacts.size,
+    interfaceResidues: residues.size,
+    interfaceHydrogenBonds: inter.filter(i => i.type === "Hydrogen Bond").length,
+    interfaceSaltBridges: inter.filter(i => i.type === "Salt Bridge").length,
+  };
+}
+
+// Agglomerative clustering, merging the two closest clusters (mean pairwise
+// distance) until none are within `threshold`
+function averageLinkage(distance: number[][], threshold: number): number[][] {
+  let clusters = distance.map((_, i) => [i]);
+  const linkage = (x: number[], y: number[]) =>
+    x.reduce((sum, i) => sum + y.reduce((s, j) => s + distance[i][j], 0), 0) / (x.length * y.length);
+
+  while (clusters.length > 1) {
+    let best = { d: Infinity, x: -1, y: -1 };
+    for (let x = 0; x < clusters.length; x++) {
+      for (let y = x + 1; y < clusters.length; y++) {
+        const d = linkage(clusters[x], clusters[y]);
+        if (d < best.d) best = { d, x, y };
+      }
+    }
+    if (best.d > threshold) break;
+    const merged = clusters[best.x].concat(clusters[best.y]).sort((a, b) => a - b);
+    clusters = clusters.filter((_, k) => k !== best.x && k !== best.y).concat([merged]);
+  }
+  return clusters;
+}
+
+// Residues in inter-chain interactions, in order of first appearance
+function interfaceResidueList(result: ComparedStructure): ContactResidue[] {
+  const residues = new Map<string, ContactResidue>();
+  result.interactions.filter(i => !i.isIntraMolecular).forEach(i => {
+    [[i.chainA, i.residueA], [i.chainB, i.residueB]].forEach(([chain, label]) => {
+      const [residueName, seq] = label.split(' ');
+      const residueSeq = parseInt(seq);
+      if (!Number.isNaN(residueSeq) && !residues.has(`${chain}:${residueSeq}`)) {
+        residues.set(`${chain}:${residueSeq}`, { chain, residueSeq, residueName });
+      }
+    });
+  });
+  return Array.from(residues.values());
+}
+
+function withoutInteractions({ interactions, ...summary }: ComparedStructure): AnalysisSummaryWithStats {
+  return summary;
+}
+
+function pairwiseDetail(a: ComparedInput, b: ComparedInput, interfaceDiff: InterfaceDiff, alignmentMode: AlignmentMode): PairwiseComparison {
+  const baiA = a.result.bindingAffinity?.bindingAffinityIndex || 0;
+  const baiB = b.result.bindingAffinity?.bindingAffinityIndex || 0;
+  const deltaBAI = baiA - baiB;
+  return {
+    nameA: a.name,
+    nameB: b.name,
+    resultA: withoutInteractions(a.result),
+    resultB: withoutInteractions(b.result),
+    interfaceResiduesA: interfaceResidueList(a.result),
+    interfaceResiduesB: interfaceResidueList(b.result),
+    superposition: superposeStructures(a.atoms, b.atoms),
+    sequenceAlignments: alignStructureSequences(a, b, alignmentMode),
+    interfaceDiff,
+    comparison: {
+      deltaBAI,
+      percentDiff: baiB !== 0 ? (deltaBAI / baiB) * 100 : 0,
+    },
+  };
+}
+
+export function compareStructures(inputs: ComparedInput[], options: ComparisonOptions, onProgress?: (fraction: number) => void): ComparisonResult {
+  const n = inputs.length;
+  const pairCount = (n * (n - 1)) / 2;
+  let done = 0;
+  const traces = inputs.map(input => chainTraces(input.atoms));
+  const jaccard: number[][] = inputs.map((_, i) => inputs.map((_, j) => (i === j ? 1 : 0)));
+  const rmsd: Array<Array<number | null>> = inputs.map((_, i) => inputs.map((_, j) => (i === j ? 0 : null)));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const pairings = pairChains(traces[i], traces[j]);
+      const diff = diffInterfaces(pairings, inputs[i].result, inputs[j].result);
+      jaccard[i][j] = jaccard[j][i] = diff.jaccard;
+      rmsd[i][j] = rmsd[j][i] = pairedRmsd(pairings);
+      onProgress?.(++done / pairCount);
+    }
+  }
+
+  const threshold = options.clusterThreshold ?? DEFAULT_CLUSTER_THRESHOLDS[options.clusterBy];
+  const distance = options.clusterBy === "interface"
+    ? jaccard.map(row => row.map(s => 1 - s))
+    : rmsd.map(row => row.map(d => d ?? Infinity));
+
+  const bai = inputs.map(input => input.result.bindingAffinity?.bindingAffinityIndex || 0);
+  const metrics = inputs.map(input => interfaceMetrics(input.result));
+  const order = inputs.map((_, i) => i).sort((x, y) =>
+    bai[y] - bai[x] || metrics[y].interfaceContacts - metrics[x].interfaceContacts || x - y);
+  const rank = new Array<number>(n);
+  order.forEach((index, position) => { rank[index] = position + 1; });
+
+  const meanDistance = (i: number, members: number[]) =>
+    members.length > 1 ? members.reduce((sum, j) => sum + (i === j ? 0 : distance[i][j]), 0) / (members.length - 1) : 0;
+  const clusters: StructureCluster[] = averageLinkage(distance, threshold)
+    .sort((x, y) => Math.min(...x.map(i => rank[i])) - Math.min(...y.map(i => rank[i])))
+    .map((members, k) => ({
+      id: k + 1,
+      members,
+      representative: members.reduce((best, i) => {
+        const d = meanDistance(i, members) - meanDistance(best, members);
+        return d < 0 || (d === 0 && rank[i] < rank[best]) ? i : best;
+      }),
+    }));
+  const clusterOf = new Array<number>(n);
+  clusters.forEach(cluster => cluster.members.forEach(i => { clusterOf[i] = cluster.id; }));
+
+  const reference = options.referenceIndex;
+  const [a, b] = options.pair ?? [reference, order.find(i => i !== reference)!];
+  const structures: ComparedEntry[] = inputs.map((input, i) => ({
+    index: i,
+    name: input.name,
+    rank: rank[i],
+    cluster: clusterOf[i],
+    bindingAffinityIndex: bai[i],
+    bindingCategory: input.result.bindingAffinity?.bindingCategory ?? null,
+    totalInteractions: input.result.interactions.length,
+    ...metrics[i],
+    jaccardToReference: jaccard[reference][i],
+    rmsdToReference: rmsd[reference][i],
+    interactionStats: input.result.interactionStats,
+  }));
+
+  return {
+    referenceIndex: reference,
+    structures,
+    similarity: { jaccard, rmsd },
+    clustering: { metric: options.clusterBy, threshold, clusters },
+    pairIndices: [a, b],
+    pair: pairwiseDetail(inputs[a], inputs[b], diffInterfaces(pairChains(traces[a], traces[b]), inputs[a].result, inputs[b].result), options.alignmentMode),
+  };
+}
+
+// Parses and analyzes every source, then compares them. CPU-bound: runs in the
+// job worker thread.
+export function runComparison(sources: ComparedSource[], options: ComparisonOptions, onProgress?: (stage: ComparisonStage, fraction: number) => void): ComparisonRun {
+  const inputs = sources.map((source, i): ComparedInput => {
+    onProgress?.("analyzing", i / sources.length);
+    const parsed = parseStructure(source.content, source.name);
+    if (parsed.length === 0) throw new Error(`No atoms found in ${source.name}`);
+    const result = source.result
+      ?? analyzeComparedStructure(source, parsed, onProgress && (fraction => onProgress("analyzing", (i + fraction) / sources.length)));
+    // Chain traces and superposition use the same atoms the result was computed from
+    const atoms = selectReportedAtoms(parsed, source.config);
+    return { name: source.name, content: source.content, atoms, result };
+  });
+  const result = compareStructures(inputs, options, onProgress && (fraction => onProgress("comparing", fraction)));
+  const [a, b] = result.pairIndices;
+  return { result, pairInteractions: [inputs[a].result.interactions, inputs[b].result.interactions] };
+}
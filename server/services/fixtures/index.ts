@@ -0,0 +1,31 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type { Atom } from "@shared/schema";
+
+// Inputs shared by the service tests: structure files kept next to this
+// module, and a builder for hand-placed atoms.
+
+export function readFixture(name: string): string {
+  return readFileSync(path.join(import.meta.dirname, name), "utf8");
+}
+
+// Atom with the remaining fields defaulted; the element is the name's first letter
+export function atom(fields: Partial<Atom> & Pick<Atom, "name" | "resName" | "resSeq">): Atom {
+  return {
+    serial: 0,
+    altLoc: "",
+    chainID: "A",
+    iCode: "",
+    x: 0,
+    y: 0,
+    z: 0,
+    occupancy: 1,
+    tempFactor: 0,
+    element: fields.name[0],
+    charge: "",
+    proteinName: "test",
+    model: 1,
+    hetero: false,
+    ...fields,
+  };
+}
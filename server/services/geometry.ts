@@ -0,0 +1,88 @@
+// Minimal 3D vector helpers used by the interaction geometry checks.
+export type Vec3 = { x: number; y: number; z: number };
+
+export function vec(x: number, y: number, z: number): Vec3 {
+  return { x, y, z };
+}
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scale(a: Vec3, factor: number): Vec3 {
+  return { x: a.x * factor, y: a.y * factor, z: a.z * factor };
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+export function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+export function normalize(a: Vec3): Vec3 {
+  const length = norm(a);
+  return length === 0 ? { x: 0, y: 0, z: 0 } : scale(a, 1 / length);
+}
+
+export function distance(a: Vec3, b: Vec3): number {
+  return norm(sub(a, b));
+}
+
+export function distanceSq(a: Vec3, b: Vec3): number {
+  const d = sub(a, b);
+  return dot(d, d);
+}
+
+// Angle at vertex b (a-b-c), in degrees
+export function angle(a: Vec3, b: Vec3, c: Vec3): number {
+  const u = normalize(sub(a, b));
+  const v = normalize(sub(c, b));
+  const cos = Math.min(1, Math.max(-1, dot(u, v)));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+// Angle between two direction vectors folded into 0-90 degrees (orientation-free)
+export function lineAngle(u: Vec3, v: Vec3): number {
+  const cos = Math.min(1, Math.abs(dot(normalize(u), normalize(v))));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+export function centroid(points: Vec3[]): Vec3 {
+  const sum = points.reduce((acc, p) => add(acc, p), vec(0, 0, 0));
+  return scale(sum, 1 / points.length);
+}
+
+// Buckets items by a cubic grid and returns a lookup of everything in the
+// 27 cells around a point, so neighbour searches stay linear in complex size.
+export function spatialBuckets<T>(items: T[], position: (item: T) => Vec3, cellSize: number) {
+  const grid: Record<string, T[]> = {};
+  const cell = (p: Vec3) => [Math.floor(p.x / cellSize), Math.floor(p.y / cellSize), Math.floor(p.z / cellSize)];
+  for (const item of items) {
+    const key = cell(position(item)).join(',');
+    if (!grid[key]) grid[key] = [];
+    grid[key].push(item);
+  }
+  return (p: Vec3) => {
+    const [x, y, z] = cell(p);
+    const found: T[] = [];
+    for (let dx = -1; dx <= 1; dx++)
+      for (let dy = -1; dy <= 1; dy++)
+        for (let dz = -1; dz <= 1; dz++)
+          found.push(...(grid[`${x + dx},${y + dy},${z + dz}`] || []));
+    return found;
+  };
+}
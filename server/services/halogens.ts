@@ -0,0 +1,53 @@
+import type { Atom, HalogenBondGeometry } from "@shared/schema";
+import { angle, distance } from "./geometry";
+import { bondedNeighbors, getResidue, type ResidueIndex } from "./structure";
+
+// σ-hole criteria after PLIP: X···A distance and C–X···A / X···A–Y angles
+export const HALOGEN_BOND_MAX_DISTANCE = 4.0;
+export const HALOGEN_BOND_MIN_CXA_ANGLE = 135;
+export const HALOGEN_BOND_XAY_ANGLE_RANGE: [number, number] = [90, 150];
+
+const HALOGENS = ['CL', 'BR', 'I'];
+const ACCEPTOR_ELEMENTS = ['O', 'N', 'S'];
+
+export function isHalogen(atom: Atom): boolean {
+  return HALOGENS.includes(atom.element.toUpperCase());
+}
+
+function checkHalogenAcceptor(halogen: Atom, acceptor: Atom, residues: ResidueIndex): HalogenBondGeometry | null {
+  if (!isHalogen(halogen) || !ACCEPTOR_ELEMENTS.includes(acceptor.element.toUpperCase())) return null;
+  if (distance(halogen, acceptor) > HALOGEN_BOND_MAX_DISTANCE) return null;
+
+  const halogenResidue = getResidue(residues, halogen);
+  const acceptorResidue = getResidue(residues, acceptor);
+  if (!halogenResidue || halogenResidue === acceptorResidue) return null;
+
+  // C–I bonds reach ~2.15 Å, so widen the covalent search for the halogen carbon
+  const carbon = bondedNeighbors(halogenResidue, halogen, 2.3).find(a => a.element.toUpperCase() === 'C');
+  if (!carbon) return null;
+
+  const cxaAngle = angle(carbon, halogen, acceptor);
+  if (cxaAngle < HALOGEN_BOND_MIN_CXA_ANGLE) return null;
+
+  let xayAngle: number | null = null;
+  const antecedent = acceptorResidue ? bondedNeighbors(acceptorResidue, acceptor)[0] : undefined;
+  if (antecedent) {
+    xayAngle = angle(halogen, acceptor, antecedent);
+    const [min, max] = HALOGEN_BOND_XAY_ANGLE_RANGE;
+    if (xayAngle < min || xayAngle > max) return null;
+  }
+
+  return {
+    halogen: "A",
+    cxaAngle: Math.round(cxaAngle * 10) / 10,
+    xayAngle: xayAngle !== null ? Math.round(xayAngle * 10) / 10 : null,
+  };
+}
+
+// Checks the pair in both orientations; `halogen` refers to the argument order.
+export function evaluateHalogenBond(atomA: Atom, atomB: Atom, residues: ResidueIndex): HalogenBondGeometry | null {
+  const aDonates = checkHalogenAcceptor(atomA, atomB, residues);
+  if (aDonates) return aDonates;
+  const bDonates = checkHalogenAcceptor(atomB, atomA, residues);
+  return bDonates ? { ...bDonates, halogen: "B" } : null;
+}
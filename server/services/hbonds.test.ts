@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Atom } from "@shared/schema";
+import { evaluateHydrogenBond, getPolarType } from "./hbonds";
+import { buildResidueIndex, getResidue } from "./structure";
+import { atom } from "./fixtures";
+
+// Serine OG donating along +x to an aspartate OD1 `gap` Å away, with both
+// antecedents on the far side of the bond
+function serineToAspartate(gap: number, extra: Atom[] = []) {
+  const og = atom({ name: "OG", resName: "SER", resSeq: 1, x: 1.43 });
+  const od1 = atom({ name: "OD1", resName: "ASP", resSeq: 5, x: 1.43 + gap });
+  const atoms = [
+    atom({ name: "CB", resName: "SER", resSeq: 1 }),
+    og,
+    ...extra,
+    atom({ name: "CG", resName: "ASP", resSeq: 5, x: 1.43 + gap + 1.25 }),
+    od1,
+  ];
+  return { og, od1, residues: buildResidueIndex(atoms) };
+}
+
+describe("evaluateHydrogenBond", () => {
+  it("accepts a linear donor–acceptor pair within 3.5 Å", () => {
+    const { og, od1, residues } = serineToAspartate(2.8);
+    const geometry = evaluateHydrogenBond(og, od1, residues);
+    assert.ok(geometry);
+    assert.equal(geometry.donor, "A");
+    assert.equal(geometry.hydrogen, "none");
+    assert.equal(geometry.acceptorAngle, 180);
+  });
+
+  it("reports the donor by argument order", () => {
+    const { og, od1, residues } = serineToAspartate(2.8);
+    assert.equal(evaluateHydrogenBond(od1, og, residues)?.donor, "B");
+  });
+
+  it("rejects pairs beyond the donor–acceptor cutoff", () => {
+    const { og, od1, residues } = serineToAspartate(3.6);
+    assert.equal(evaluateHydrogenBond(og, od1, residues), null);
+    assert.ok(evaluateHydrogenBond(og, od1, residues, 3.7));
+  });
+
+  it("rejects an acceptor behind the donor's antecedent", () => {
+    const og = atom({ name: "OG", resName: "SER", resSeq: 1, x: 1.43 });
+    const od1 = atom({ name: "OD1", resName: "ASP", resSeq: 5, x: 1.43 - 2.8, y: 0.5 });
+    const residues = buildResidueIndex([
+      atom({ name: "CB", resName: "SER", resSeq: 1 }),
+      og,
+      atom({ name: "CG", resName: "ASP", resSeq: 5, x: -2.6, y: 0.5 }),
+      od1,
+    ]);
+    assert.equal(evaluateHydrogenBond(og, od1, residues), null);
+  });
+
+  it("checks the D–H···A angle of an explicit hydrogen", () => {
+    const aligned = serineToAspartate(2.8, [atom({ name: "HG", resName: "SER", resSeq: 1, x: 2.39, element: "H" })]);
+    const geometry = evaluateHydrogenBond(aligned.og, aligned.od1, aligned.residues);
+    assert.equal(geometry?.hydrogen, "explicit");
+    assert.equal(geometry?.dhaAngle, 180);
+
+    const bent = serineToAspartate(2.8, [atom({ name: "HG", resName: "SER", resSeq: 1, x: 1.43, y: 0.96, element: "H" })]);
+    assert.equal(evaluateHydrogenBond(bent.og, bent.od1, bent.residues), null);
+  });
+
+  it("ignores contacts within one residue", () => {
+    const og = atom({ name: "OG", resName: "SER", resSeq: 1, x: 1.43 });
+    const o = atom({ name: "O", resName: "SER", resSeq: 1, x: 4.2 });
+    const residues = buildResidueIndex([atom({ name: "CB", resName: "SER", resSeq: 1 }), og, atom({ name: "C", resName: "SER", resSeq: 1, x: 5.4 }), o]);
+    assert.equal(evaluateHydrogenBond(og, o, residues), null);
+  });
+});
+
+describe("getPolarType", () => {
+  // Chain A: GLY 1, then PRO 2 and GLY 3 bonded to it, and PRO 10 after a gap
+  const atoms = [
+    atom({ name: "N", resName: "GLY", resSeq: 1 }),
+    atom({ name: "CA", resName: "GLY", resSeq: 1, x: 1.46 }),
+    atom({ name: "C", resName: "GLY", resSeq: 1, x: 2.0, y: 1.4 }),
+    atom({ name: "N", resName: "PRO", resSeq: 2, x: 3.3, y: 1.4 }),
+    atom({ name: "CA", resName: "PRO", resSeq: 2, x: 4.0, y: 2.6 }),
+    atom({ name: "C", resName: "PRO", resSeq: 2, x: 5.4, y: 2.6 }),
+    atom({ name: "N", resName: "GLY", resSeq: 3, x: 6.1, y: 3.7 }),
+    atom({ name: "N", resName: "PRO", resSeq: 10, x: 20 }),
+    atom({ name: "CA", resName: "PRO", resSeq: 10, x: 21.46 }),
+  ];
+  const residues = buildResidueIndex(atoms);
+  const typeOf = (index: number) => getPolarType(atoms[index], getResidue(residues, atoms[index]));
+
+  it("types the chain's first N as a free amine donor", () => {
+    const type = typeOf(0);
+    assert.equal(type?.donor, true);
+    assert.equal(type?.planarHydrogen, false);
+  });
+
+  it("keeps the planar backbone NH on later residues", () => {
+    assert.equal(typeOf(6)?.planarHydrogen, true);
+  });
+
+  it("gives proline N no donor role inside a chain, even after a gap", () => {
+    assert.equal(typeOf(3), null);
+    assert.equal(typeOf(7), null);
+  });
+
+  it("skips hydrogens and types side-chain acceptors", () => {
+    assert.equal(getPolarType(atom({ name: "HG", resName: "SER", resSeq: 1, element: "H" })), null);
+    const od1 = getPolarType(atom({ name: "OD1", resName: "ASP", resSeq: 5 }));
+    assert.deepEqual([od1?.donor, od1?.acceptor], [false, true]);
+  });
+});
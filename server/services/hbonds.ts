@@ -0,0 +1,180 @@
+import type { Atom, HydrogenBondGeometry } from "@shared/schema";
+import { add, angle, distance, normalize, scale, sub, type Vec3 } from "./geometry";
+import { bondedNeighbors, getResidue, isHydrogen, STANDARD_AMINO_ACIDS, WATER_RESIDUES, type Residue, type ResidueIndex } from "./structure";
+
+// Hydrogen bond criteria (Baker & Hubbard / HBPLUS-style)
+export const HBOND_MAX_DONOR_ACCEPTOR = 3.5;
+export const HBOND_MAX_SULFUR_DONOR_ACCEPTOR = 4.0;
+export const HBOND_MAX_HYDROGEN_ACCEPTOR = 2.7;
+export const HBOND_MIN_DHA_ANGLE = 120;
+export const HBOND_MIN_ACCEPTOR_ANGLE = 90;
+const N_H_BOND_LENGTH = 1.01;
+const EXPLICIT_H_MAX_BOND = 1.25;
+
+interface PolarAtomType {
+  donor: boolean;
+  acceptor: boolean;
+  // Heavy atoms bonded to this one; used for hydrogen placement and angle checks
+  antecedents: string[];
+  // Planar donors whose single hydrogen lies on the bisector of its two antecedents
+  planarHydrogen?: boolean;
+}
+
+const polar = (donor: boolean, acceptor: boolean, antecedents: string[], planarHydrogen = false): PolarAtomType =>
+  ({ donor, acceptor, antecedents, planarHydrogen });
+
+const BACKBONE_POLAR: Record<string, PolarAtomType> = {
+  N: polar(true, false, ['CA'], true), // previous residue C is added at lookup time
+  O: polar(false, true, ['C']),
+  OXT: polar(false, true, ['C']),
+};
+
+const SIDECHAIN_POLAR: Record<string, Record<string, PolarAtomType>> = {
+  SER: { OG: polar(true, true, ['CB']) },
+  THR: { OG1: polar(true, true, ['CB']) },
+  TYR: { OH: polar(true, true, ['CZ']) },
+  CYS: { SG: polar(true, true, ['CB']) },
+  MET: { SD: polar(false, true, ['CG', 'CE']) },
+  ASN: { OD1: polar(false, true, ['CG']), ND2: polar(true, false, ['CG']) },
+  GLN: { OE1: polar(false, true, ['CD']), NE2: polar(true, false, ['CD']) },
+  // Either imidazole nitrogen may carry the proton depending on tautomer/charge
+  HIS: { ND1: polar(true, true, ['CG', 'CE1'], true), NE2: polar(true, true, ['CD2', 'CE1'], true) },
+  LYS: { NZ: polar(true, false, ['CE']) },
+  ARG: { NE: polar(true, false, ['CD', 'CZ'], true), NH1: polar(true, false, ['CZ']), NH2: polar(true, false, ['CZ']) },
+  ASP: { OD1: polar(false, true, ['CG']), OD2: polar(false, true, ['CG']) },
+  GLU: { OE1: polar(false, true, ['CD']), OE2: polar(false, true, ['CD']) },
+  TRP: { NE1: polar(true, false, ['CD1', 'CE2'], true) },
+};
+
+// Resolves the H-bonding role of an atom from its residue and atom name.
+// Non-standard residues (ligands, nucleotides) fall back to element typing
+// with antecedents taken from covalent geometry.
+export function getPolarType(atom: Atom, residue?: Residue): PolarAtomType | null {
+  if (isHydrogen(atom)) return null;
+
+  if (WATER_RESIDUES.includes(atom.resName)) {
+    return atom.element === 'O' || atom.name.startsWith('O') ? polar(true, true, []) : null;
+  }
+
+  if (STANDARD_AMINO_ACIDS.includes(atom.resName)) {
+    if (atom.name === 'N') {
+      // Only a chain's first residue is a free N-terminus (sp3 NH3+); residues
+      // after a gap keep their backbone NH, and proline its hydrogen-less N
+      const terminus = residue ? residue.chainStart : true;
+      if (atom.resName === 'PRO' && !terminus) return null;
+      return terminus ? polar(true, false, ['CA']) : BACKBONE_POLAR.N;
+    }
+    return BACKBONE_POLAR[atom.name] ?? SIDECHAIN_POLAR[atom.resName]?.[atom.name] ?? null;
+  }
+
+  const element = atom.element.toUpperCase();
+  if (element !== 'N' && element !== 'O') return null;
+  const antecedents = residue ? bondedNeighbors(residue, atom).map(a => a.name) : [];
+  return polar(true, true, antecedents);
+}
+
+function resolveAntecedents(atom: Atom, type: PolarAtomType, residue?: Residue): Atom[] {
+  if (!residue) return [];
+  const atoms = type.antecedents
+    .map(name => residue.byName.get(name))
+    .filter((a): a is Atom => !!a);
+  if (atom.name === 'N' && residue.prev) {
+    const prevC = residue.prev.byName.get('C');
+    if (prevC) atoms.push(prevC);
+  }
+  return atoms;
+}
+
+function findHydrogens(donor: Atom, type: PolarAtomType, residue: Residue | undefined, antecedents: Atom[]): { positions: Vec3[]; source: HydrogenBondGeometry["hydrogen"] } {
+  if (residue) {
+    const explicit = residue.atoms.filter(a => isHydrogen(a) && distance(a, donor) <= EXPLICIT_H_MAX_BOND);
+    if (explicit.length > 0) return { positions: explicit, source: "explicit" };
+  }
+
+  // Planar NH: hydrogen points away from both neighbours along the bisector
+  if (type.planarHydrogen && antecedents.length >= 2) {
+    const u = normalize(sub(donor, antecedents[0]));
+    const v = normalize(sub(donor, antecedents[1]));
+    const direction = normalize(add(u, v));
+    return { positions: [add(donor, scale(direction, N_H_BOND_LENGTH))], source: "placed" };
+  }
+
+  return { positions: [], source: "none" };
+}
+
+function roundAngle(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function checkDonorAcceptor(donor: Atom, acceptor: Atom, residues: ResidueIndex, maxDonorAcceptor: number): HydrogenBondGeometry | null {
+  const donorResidue = getResidue(residues, donor);
+  const acceptorResidue = getResidue(residues, acceptor);
+  const donorType = getPolarType(donor, donorResidue);
+  const acceptorType = getPolarType(acceptor, acceptorResidue);
+  if (!donorType?.donor || !acceptorType?.acceptor) return null;
+
+  const dDA = distance(donor, acceptor);
+  const involvesSulfur = donor.element === 'S' || acceptor.element === 'S';
+  if (dDA > (involvesSulfur ? Math.max(HBOND_MAX_SULFUR_DONOR_ACCEPTOR, maxDonorAcceptor) : maxDonorAcceptor)) return null;
+
+  const donorAntecedents = resolveAntecedents(donor, donorType, donorResidue);
+  const acceptorAntecedents = resolveAntecedents(acceptor, acceptorType, acceptorResidue);
+  const { positions, source } = findHydrogens(donor, donorType, donorResidue, donorAntecedents);
+
+  let hydrogen: Vec3 | null = null;
+  let dhaAngle: number | null = null;
+  let haDistance: number | null = null;
+
+  if (positions.length > 0) {
+    // Best-aligned hydrogen decides the D–H···A geometry
+    for (const h of positions) {
+      const a = angle(donor, h, acceptor);
+      if (dhaAngle === null || a > dhaAngle) {
+        dhaAngle = a;
+        hydrogen = h;
+        haDistance = distance(h, acceptor);
+      }
+    }
+    if (dhaAngle! < HBOND_MIN_DHA_ANGLE || haDistance! > HBOND_MAX_HYDROGEN_ACCEPTOR) return null;
+  } else {
+    // Rotatable hydrogen (OH, NH3+, NH2): require the acceptor to sit on the open side of the donor
+    if (donorAntecedents.some(x => angle(x, donor, acceptor) < HBOND_MIN_ACCEPTOR_ANGLE)) return null;
+  }
+
+  let acceptorAngle: number | null = null;
+  for (const aa of acceptorAntecedents) {
+    const a = angle(aa, acceptor, donor);
+    if (a < HBOND_MIN_ACCEPTOR_ANGLE) return null;
+    if (hydrogen && angle(aa, acceptor, hydrogen) < HBOND_MIN_ACCEPTOR_ANGLE) return null;
+    acceptorAngle = acceptorAngle === null ? a : Math.min(acceptorAngle, a);
+  }
+
+  return {
+    donor: "A",
+    hydrogen: source,
+    hydrogenAcceptorDistance: haDistance !== null ? Math.round(haDistance * 100) / 100 : null,
+    dhaAngle: dhaAngle !== null ? roundAngle(dhaAngle) : null,
+    acceptorAngle: acceptorAngle !== null ? roundAngle(acceptorAngle) : null,
+  };
+}
+
+// Evaluates both donor/acceptor assignments of an atom pair and returns the
+// geometry of the valid one (preferring the better D–H···A alignment), or
+// null if the pair is not a hydrogen bond. `donor` refers to the argument order.
+export function evaluateHydrogenBond(
+  atomA: Atom,
+  atomB: Atom,
+  residues: ResidueIndex,
+  maxDonorAcceptor = HBOND_MAX_DONOR_ACCEPTOR,
+): HydrogenBondGeometry | null {
+  if (getResidue(residues, atomA) === getResidue(residues, atomB)) return null;
+
+  const aDonates = checkDonorAcceptor(atomA, atomB, residues, maxDonorAcceptor);
+  const bDonates = checkDonorAcceptor(atomB, atomA, residues, maxDonorAcceptor);
+  if (bDonates) bDonates.donor = "B";
+
+  if (aDonates && bDonates) {
+    return (bDonates.dhaAngle ?? 0) > (aDonates.dhaAngle ?? 0) ? bDonates : aDonates;
+  }
+  return aDonates ?? bDonates;
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Atom, ComparedStructure, Interaction } from "@shared/schema";
+import { diffInterfaces } from "./interfaceDiff";
+import { chainTraces, pairChains } from "./sequence";
+import { atom } from "./fixtures";
+
+const KINASE = ["MET", "LYS", "ASP", "SER", "LEU", "GLU"];
+const INHIBITOR = ["TRP", "TYR", "PHE", "HIS", "TRP", "ASN"];
+
+function chain(chainID: string, resNames: string[], firstSeq: number): Atom[] {
+  return resNames.map((resName, i) => atom({ name: "CA", resName, resSeq: firstSeq + i, chainID, element: "C", x: 3.8 * i, y: chainID.charCodeAt(0) }));
+}
+
+function contact(chainA: string, residueA: string, chainB: string, residueB: string): Interaction {
+  return {
+    id: `${chainA}${residueA}-${chainB}${residueB}`,
+    proteinA: "test", chainA, residueA, atomA: "CA (C)",
+    proteinB: "test", chainB, residueB, atomB: "CA (C)",
+    distance: 3.5,
+    type: "Van der Waals",
+    isIntraMolecular: chainA === chainB,
+  };
+}
+
+// Only the interactions are read from the analysis results
+const compared = (interactions: Interaction[]) => ({ interactions }) as ComparedStructure;
+
+// A has the kinase as chain A and the inhibitor as chain B, numbered from 1.
+// B holds the same complex as chains Y and X, renumbered from 101.
+const pairings = pairChains(
+  chainTraces([...chain("A", KINASE, 1), ...chain("B", INHIBITOR, 1)]),
+  chainTraces([...chain("X", INHIBITOR, 101), ...chain("Y", KINASE, 101)]),
+);
+
+const resultA = compared([
+  contact("A", "LYS 2", "B", "PHE 3"),
+  contact("A", "SER 4", "B", "TRP 5"),
+  contact("A", "HEM 201", "B", "TRP 1"),
+  contact("A", "MET 1", "A", "LYS 2"),
+]);
+const resultB = compared([
+  contact("Y", "LYS 102", "X", "PHE 103"),
+  contact("Y", "HEM 201", "X", "TRP 101"),
+  contact("X", "ASN 106", "Y", "MET 101"),
+]);
+
+describe("diffInterfaces", () => {
+  const diff = diffInterfaces(pairings, resultA, resultB);
+
+  it("pairs chains by sequence before mapping residues", () => {
+    assert.deepEqual(pairings.map(p => [p.a.chainID, p.b.chainID]), [["A", "Y"], ["B", "X"]]);
+  });
+
+  it("matches contacts through the alignment, ignoring intra-chain ones", () => {
+    assert.deepEqual(
+      [diff.contactsA, diff.contactsB, diff.conserved, diff.lost, diff.gained, diff.unmappedA],
+      [3, 3, 2, 1, 1, 0],
+    );
+    assert.equal(diff.jaccard, 0.5);
+    assert.equal(diff.fScore, 0.667);
+  });
+
+  it("maps unaligned residues that keep their number and name", () => {
+    const heme = diff.contacts.find(c => c.contactA?.residue2.residueName === "HEM");
+    assert.equal(heme?.status, "conserved");
+    assert.equal(heme?.contactB?.residue2.chain, "Y");
+  });
+
+  it("orients A's contacts by B's chain order and sorts by status", () => {
+    assert.deepEqual(
+      diff.contacts.map(c => [c.status, c.chainPairA, c.chainPairB, (c.contactA ?? c.contactB)!.residue1.residueSeq]),
+      [
+        ["conserved", "B–A", "X–Y", 1],
+        ["conserved", "B–A", "X–Y", 3],
+        ["lost", "B–A", "X–Y", 5],
+        ["gained", "B–A", "X–Y", 106],
+      ],
+    );
+    assert.deepEqual(diff.chainPairs.map(g => [g.chainPairA, g.chainPairB, g.conserved, g.lost, g.gained]), [["B–A", "X–Y", 2, 1, 1]]);
+  });
+
+  it("counts contacts whose residues have no counterpart as unmapped", () => {
+    const unmapped = diffInterfaces(pairings, compared([contact("A", "ZN 301", "B", "HIS 4")]), resultB);
+    assert.equal(unmapped.unmappedA, 1);
+    assert.equal(unmapped.contacts[0].status, "lost");
+  });
+});
@@ -0,0 +1,164 @@
+import type { ChainPairInterfaceSimilarity, ComparedStructure, ContactResidue, InterfaceContact, InterfaceContactDiff, InterfaceDiff } from "@shared/schema";
+import type { ChainPairing } from "./sequence";
+
+// Residue-level diff of the inter-chain contacts of two structures. Residues
+// of A are carried into B's numbering through the chain sequence alignments,
+// so a contact is conserved when the mapped residue pair is also in contact
+// in B, whatever the residue types (mutants keep their positions).
+
+interface ResidueMapping {
+  chains: Map<string, string>; // chain of A → paired chain of B
+  chainsBack: Map<string, string>;
+  residues: Map<string, string>; // "chain:resSeq" of A → "chain:resSeq" of B
+}
+
+function residueId(chain: string, residueSeq: number) {
+  return `${chain}:${residueSeq}`;
+}
+
+function buildMapping(pairings: ChainPairing[]): ResidueMapping {
+  const mapping: ResidueMapping = { chains: new Map(), chainsBack: new Map(), residues: new Map() };
+  pairings.forEach(({ a, b, alignment }) => {
+    mapping.chains.set(a.chainID, b.chainID);
+    mapping.chainsBack.set(b.chainID, a.chainID);
+    alignment.pairs.forEach(([i, j]) => {
+      mapping.residues.set(residueId(a.chainID, a.residues[i].resSeq), residueId(b.chainID, b.residues[j].resSeq));
+    });
+  });
+  return mapping;
+}
+
+// Inter-chain contacts collapsed to residue pairs, keyed by the pair's sorted residue ids
+function collectContacts(result: ComparedStructure): Map<string, InterfaceContact> {
+  const contacts = new Map<string, InterfaceContact>();
+  result.interactions.forEach(interaction => {
+    if (interaction.isIntraMolecular) return;
+    const [nameA, seqA] = interaction.residueA.split(' ');
+    const [nameB, seqB] = interaction.residueB.split(' ');
+    let residue1: ContactResidue = { chain: interaction.chainA, residueSeq: parseInt(seqA), residueName: nameA };
+    let residue2: ContactResidue = { chain: interaction.chainB, residueSeq: parseInt(seqB), residueName: nameB };
+    if (residueId(residue1.chain, residue1.residueSeq) > residueId(residue2.chain, residue2.residueSeq)) {
+      [residue1, residue2] = [residue2, residue1];
+    }
+    const key = `${residueId(residue1.chain, residue1.residueSeq)}|${residueId(residue2.chain, residue2.residueSeq)}`;
+    let contact = contacts.get(key);
+    if (!contact) {
+      contact = { residue1, residue2, types: [], interactionCount: 0 };
+      contacts.set(key, contact);
+    }
+    contact.interactionCount++;
+    if (!contact.types.includes(interaction.type)) contact.types.push(interaction.type);
+  });
+  return contacts;
+}
+
+function chainPairLabel(chain1: string | undefined, chain2: string | undefined) {
+  return chain1 !== undefined && chain2 !== undefined ? `${chain1}–${chain2}` : null;
+}
+
+function similarity(conserved: number, contactsA: number, contactsB: number) {
+  const union = contactsA + contactsB - conserved;
+  return {
+    jaccard: union > 0 ? +(conserved / union).toFixed(3) : 0,
+    // Harmonic mean of recall (of A's contacts) and precision (of B's), i.e. the Dice coefficient
+    fScore: contactsA + contactsB > 0 ? +((2 * conserved) / (contactsA + contactsB)).toFixed(3) : 0,
+  };
+}
+
+// `pairings` match the chains of A (as `a`) to those of B
+export function diffInterfaces(pairings: ChainPairing[], resultA: ComparedStructure, resultB: ComparedStructure): InterfaceDiff {
+  const mapping = buildMapping(pairings);
+  const contactsA = collectContacts(resultA);
+  const contactsB = collectContacts(resultB);
+
+  // Residues without an aligned counterpart (ligands, unobserved or extra
+  // residues) still map when the paired chain has the same residue at the same number
+  const residuesB = new Set<string>();
+  contactsB.forEach(c => {
+    residuesB.add(`${residueId(c.residue1.chain, c.residue1.residueSeq)}:${c.residue1.residueName}`);
+    residuesB.add(`${residueId(c.residue2.chain, c.residue2.residueSeq)}:${c.residue2.residueName}`);
+  });
+  const mapResidue = (residue: ContactResidue) => {
+    const mapped = mapping.residues.get(residueId(residue.chain, residue.residueSeq));
+    if (mapped) return mapped;
+    const chain = mapping.chains.get(residue.chain);
+    if (chain && residuesB.has(`${residueId(chain, residue.residueSeq)}:${residue.residueName}`)) {
+      return residueId(chain, residue.residueSeq);
+    }
+    return null;
+  };
+
+  const rows: InterfaceContactDiff[] = [];
+  const matchedB = new Set<string>();
+  let unmappedA = 0;
+
+  contactsA.forEach(contactA => {
+    const id1 = mapResidue(contactA.residue1);
+    const id2 = mapResidue(contactA.residue2);
+    if (!id1 || !id2) unmappedA++;
+    // Orient A's contact by B's chain order, as B's own contacts are keyed; the
+    // residues sit on different chains, so the chain IDs alone decide
+    const chain1 = mapping.chains.get(contactA.residue1.chain);
+    const chain2 = mapping.chains.get(contactA.residue2.chain);
+    const swapped = !!chain1 && !!chain2 && `${chain1}:` > `${chain2}:`;
+    const keyB = id1 && id2 ? (swapped ? `${id2}|${id1}` : `${id1}|${id2}`) : null;
+    // Each contact of B is matched at most once, even if two of A map onto it
+    const contactB = keyB && !matchedB.has(keyB) ? contactsB.get(keyB) : undefined;
+    const oriented = swapped ? { ...contactA, residue1: contactA.residue2, residue2: contactA.residue1 } : contactA;
+    if (contactB) matchedB.add(keyB!);
+    rows.push({
+      status: contactB ? "conserved" : "lost",
+      chainPairA: chainPairLabel(oriented.residue1.chain, oriented.residue2.chain)!,
+      chainPairB: chainPairLabel(mapping.chains.get(oriented.residue1.chain), mapping.chains.get(oriented.residue2.chain)),
+      contactA: oriented,
+      contactB: contactB ?? null,
+    });
+  });
+
+  contactsB.forEach((contactB, key) => {
+    if (matchedB.has(key)) return;
+    rows.push({
+      status: "gained",
+      chainPairA: chainPairLabel(mapping.chainsBack.get(contactB.residue1.chain), mapping.chainsBack.get(contactB.residue2.chain)),
+      chainPairB: chainPairLabel(contactB.residue1.chain, contactB.residue2.chain)!,
+      contactA: null,
+      contactB,
+    });
+  });
+
+  const statusOrder = { conserved: 0, lost: 1, gained: 2 };
+  const anchor = (row: InterfaceContactDiff) => (row.contactA ?? row.contactB)!;
+  rows.sort((x, y) => {
+    const pair = (x.chainPairB ?? x.chainPairA ?? '').localeCompare(y.chainPairB ?? y.chainPairA ?? '');
+    if (pair !== 0) return pair;
+    if (statusOrder[x.status] !== statusOrder[y.status]) return statusOrder[x.status] - statusOrder[y.status];
+    return anchor(x).residue1.residueSeq - anchor(y).residue1.residueSeq || anchor(x).residue2.residueSeq - anchor(y).residue2.residueSeq;
+  });
+
+  const groups = new Map<string, ChainPairInterfaceSimilarity>();
+  rows.forEach(row => {
+    const key = `${row.chainPairA ?? ''}/${row.chainPairB ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { chainPairA: row.chainPairA, chainPairB: row.chainPairB, contactsA: 0, contactsB: 0, conserved: 0, lost: 0, gained: 0, jaccard: 0, fScore: 0 };
+      groups.set(key, group);
+    }
+    group[row.status]++;
+    if (row.contactA) group.contactsA++;
+    if (row.contactB) group.contactsB++;
+  });
+  const chainPairs = Array.from(groups.values()).map(g => ({ ...g, ...similarity(g.conserved, g.contactsA, g.contactsB) }));
+
+  const conserved = rows.filter(r => r.status === "conserved").length;
+  return {
+    contactsA: contactsA.size,
+    contactsB: contactsB.size,
+    conserved,
+    lost: contactsA.size - conserved,
+    gained: contactsB.size - conserved,
+    unmappedA,
+    ...similarity(conserved, contactsA.size, contactsB.size),
+    chainPairs,
+    contacts: rows,
+  };
+}
@@ -0,0 +1,108 @@
+import type { Atom, BindingSite, BindingSiteResidue, Interaction } from "@shared/schema";
+import { centroid } from "./geometry";
+import { isHydrogen, residueKey, STANDARD_AMINO_ACIDS, WATER_RESIDUES } from "./structure";
+import { isMetal } from "./metals";
+
+// Ligand perception: HETATM residues other than water, free ions and amino
+// acids deposited as HETATM. Each residue is one ligand; binding sites are
+// the residues it contacts in the interaction list.
+
+const HALIDE_ELEMENTS = ['F', 'CL', 'BR', 'I'];
+
+export interface Ligand {
+  id: string;
+  proteinName: string;
+  chainID: string;
+  resName: string;
+  resSeq: number;
+  atoms: Atom[];
+}
+
+export function ligandId(chainID: string, resName: string, resSeq: number, iCode = ''): string {
+  return `${chainID}:${resName}${resSeq}${iCode}`;
+}
+
+function isIon(heavyAtoms: Atom[]): boolean {
+  if (heavyAtoms.length !== 1) return false;
+  const atom = heavyAtoms[0];
+  return isMetal(atom) || HALIDE_ELEMENTS.includes((atom.element || atom.name).toUpperCase());
+}
+
+export function perceiveLigands(atoms: Atom[]): Ligand[] {
+  const byResidue = new Map<string, Atom[]>();
+  for (const atom of atoms) {
+    if (!atom.hetero || WATER_RESIDUES.includes(atom.resName) || STANDARD_AMINO_ACIDS.includes(atom.resName)) continue;
+    const key = residueKey(atom);
+    const group = byResidue.get(key);
+    if (group) group.push(atom);
+    else byResidue.set(key, [atom]);
+  }
+
+  const ligands: Ligand[] = [];
+  byResidue.forEach(group => {
+    if (isIon(group.filter(atom => !isHydrogen(atom)))) return;
+    const first = group[0];
+    ligands.push({
+      id: ligandId(first.chainID, first.resName, first.resSeq, first.iCode),
+      proteinName: first.proteinName,
+      chainID: first.chainID,
+      resName: first.resName,
+      resSeq: first.resSeq,
+      atoms: group,
+    });
+  });
+  return ligands;
+}
+
+// Interactions reference residues by "RES 123" label, so ligands are matched the same way
+function sideKey(protein: string, chain: string, residue: string): string {
+  return `${protein}|${chain}|${residue}`;
+}
+
+export function buildBindingSites(ligands: Ligand[], interactions: Interaction[]): BindingSite[] {
+  const ligandByKey = new Map(ligands.map(l => [sideKey(l.proteinName, l.chainID, `${l.resName} ${l.resSeq}`), l]));
+  const sites = new Map<Ligand, { counts: Record<string, number>; residues: Map<string, BindingSiteResidue & { types: Set<string> }> }>();
+  ligands.forEach(l => sites.set(l, { counts: {}, residues: new Map() }));
+
+  const addContact = (ligand: Ligand, interaction: Interaction, chainId: string, residue: string) => {
+    const site = sites.get(ligand)!;
+    site.counts[interaction.type] = (site.counts[interaction.type] || 0) + 1;
+
+    const key = `${chainId}|${residue}`;
+    let entry = site.residues.get(key);
+    if (!entry) {
+      const [residueName, seq] = residue.split(' ');
+      entry = { chainId, residueSeq: parseInt(seq), residueName, interactionTypes: [], contactCount: 0, minDistance: Infinity, types: new Set() };
+      site.residues.set(key, entry);
+    }
+    entry.types.add(interaction.type);
+    entry.contactCount++;
+    entry.minDistance = Math.min(entry.minDistance, interaction.distance);
+  };
+
+  for (const interaction of interactions) {
+    const ligandA = ligandByKey.get(sideKey(interaction.proteinA, interaction.chainA, interaction.residueA));
+    const ligandB = ligandByKey.get(sideKey(interaction.proteinB, interaction.chainB, interaction.residueB));
+    if (ligandA === ligandB) continue; // contacts within one ligand (or between two non-ligands)
+    if (ligandA) addContact(ligandA, interaction, interaction.chainB, interaction.residueB);
+    if (ligandB) addContact(ligandB, interaction, interaction.chainA, interaction.residueA);
+  }
+
+  return ligands.map(ligand => {
+    const { counts, residues } = sites.get(ligand)!;
+    const c = centroid(ligand.atoms);
+    return {
+      ligandId: ligand.id,
+      proteinName: ligand.proteinName,
+      chainId: ligand.chainID,
+      residueName: ligand.resName,
+      residueSeq: ligand.resSeq,
+      atomCount: ligand.atoms.length,
+      centroid: { x: +c.x.toFixed(3), y: +c.y.toFixed(3), z: +c.z.toFixed(3) },
+      interactionCounts: counts,
+      residues: Array.from(residues.values())
+        .map(({ types, ...residue }) => ({ ...residue, interactionTypes: Array.from(types), minDistance: +residue.minDistance.toFixed(3) }))
+        .sort((a, b) => a.chainId.localeCompare(b.chainId) || a.residueSeq - b.residueSeq),
+    };
+  });
+}
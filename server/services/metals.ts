@@ -0,0 +1,98 @@
+import type { Atom, MetalCoordination } from "@shared/schema";
+import { angle, distance, spatialBuckets } from "./geometry";
+import { isHydrogen } from "./structure";
+
+// Maximum metal–ligand distances (Å), after Harding (2006) with ~0.3 Å tolerance
+const METAL_LIGAND_MAX: Record<string, number> = {
+  NA: 3.0, K: 3.3, MG: 2.6, CA: 2.9, MN: 2.7, FE: 2.7, CO: 2.7,
+  NI: 2.7, CU: 2.7, ZN: 2.7, CD: 2.9, HG: 3.0, PT: 2.7, MO: 2.7, W: 2.7,
+};
+const DEFAULT_METAL_LIGAND_MAX = 2.8;
+const LIGAND_ELEMENTS = ['N', 'O', 'S'];
+
+// Ideal L–M–L angle sets (sorted) used to name the coordination polyhedron
+const IDEAL_GEOMETRIES: Record<number, Array<{ name: string; angles: number[] }>> = {
+  2: [{ name: 'linear', angles: [180] }, { name: 'bent', angles: [109.5] }],
+  3: [
+    { name: 'trigonal planar', angles: [120, 120, 120] },
+    { name: 'trigonal pyramidal', angles: [109.5, 109.5, 109.5] },
+    { name: 'T-shaped', angles: [90, 90, 180] },
+  ],
+  4: [
+    { name: 'tetrahedral', angles: Array(6).fill(109.5) },
+    { name: 'square planar', angles: [90, 90, 90, 90, 180, 180] },
+  ],
+  5: [
+    { name: 'trigonal bipyramidal', angles: [90, 90, 90, 90, 90, 90, 120, 120, 120, 180] },
+    { name: 'square pyramidal', angles: [90, 90, 90, 90, 90, 90, 90, 90, 180, 180] },
+  ],
+  6: [
+    { name: 'octahedral', angles: [...Array(12).fill(90), 180, 180, 180] },
+  ],
+};
+
+export interface MetalSite {
+  metal: Atom;
+  ligands: Array<{ atom: Atom; distance: number }>;
+  coordination: MetalCoordination;
+}
+
+export function isMetal(atom: Atom): boolean {
+  const element = (atom.element || atom.resName).toUpperCase();
+  return element in METAL_LIGAND_MAX;
+}
+
+function classifyGeometry(metal: Atom, ligands: Atom[]): string {
+  const ideals = IDEAL_GEOMETRIES[ligands.length];
+  if (ligands.length === 1) return 'monodentate';
+  if (!ideals) return 'irregular';
+
+  const observed: number[] = [];
+  for (let i = 0; i < ligands.length; i++) {
+    for (let j = i + 1; j < ligands.length; j++) {
+      observed.push(angle(ligands[i], metal, ligands[j]));
+    }
+  }
+  observed.sort((a, b) => a - b);
+
+  let best = { name: 'irregular', rmsd: Infinity };
+  for (const ideal of ideals) {
+    const rmsd = Math.sqrt(observed.reduce((sum, a, k) => sum + Math.pow(a - ideal.angles[k], 2), 0) / observed.length);
+    if (rmsd < best.rmsd) best = { name: ideal.name, rmsd };
+  }
+  // Distorted beyond recognition
+  return best.rmsd > 25 ? 'irregular' : best.name;
+}
+
+// Builds the first coordination shell of every metal ion: N/O/S atoms from
+// other residues within the metal-specific bond distance.
+export function detectMetalSites(atoms: Atom[]): MetalSite[] {
+  const metals = atoms.filter(isMetal);
+  if (metals.length === 0) return [];
+
+  const candidates = atoms.filter(a => !isHydrogen(a) && !isMetal(a) && LIGAND_ELEMENTS.includes(a.element.toUpperCase()));
+  const near = spatialBuckets(candidates, a => a, 3.5);
+
+  return metals.map(metal => {
+    const cutoff = METAL_LIGAND_MAX[(metal.element || metal.resName).toUpperCase()] ?? DEFAULT_METAL_LIGAND_MAX;
+    const ligands = near(metal)
+      .filter(a => a.proteinName === metal.proteinName)
+      .map(atom => ({ atom, distance: distance(atom, metal) }))
+      .filter(l => l.distance <= cutoff)
+      .sort((a, b) => a.distance - b.distance);
+
+    const residues = new Set<string>();
+    ligands.forEach(l => residues.add(`${l.atom.resName} ${l.atom.chainID} ${l.atom.resSeq}`));
+
+    return {
+      metal,
+      ligands,
+      coordination: {
+        metal: `${metal.resName} ${metal.chainID} ${metal.resSeq}`,
+        coordinationNumber: ligands.length,
+        geometry: classifyGeometry(metal, ligands.map(l => l.atom)),
+        coordinatingResidues: Array.from(residues),
+      },
+    };
+  }).filter(site => site.ligands.length > 0);
+}
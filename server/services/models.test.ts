@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AnalysisConfigSchema, DEFAULT_ANALYSIS_CONFIG, type Interaction } from "@shared/schema";
+import { listModels, mergeModelInteractions, selectModels } from "./models";
+import { parsePDB, selectReportedAtoms } from "./pdb";
+import { readFixture } from "./fixtures";
+
+const config = (fields: object) => AnalysisConfigSchema.parse(fields);
+
+function contact(id: string, residueA: string, residueB: string, distance: number): Interaction {
+  return {
+    id,
+    proteinA: "test", chainA: "A", residueA, atomA: "OG (O)",
+    proteinB: "test", chainB: "B", residueB, atomB: "OD1 (O)",
+    distance,
+    type: "Hydrogen Bond",
+    isIntraMolecular: false,
+  };
+}
+
+describe("selectModels", () => {
+  it("analyzes the first model by default", () => {
+    assert.deepEqual(selectModels([1, 2, 3], DEFAULT_ANALYSIS_CONFIG), { mode: "single", available: [1, 2, 3], analyzed: [1] });
+  });
+
+  it("takes a requested model and rejects one the file lacks", () => {
+    assert.deepEqual(selectModels([1, 2, 3], config({ model: 2 })).analyzed, [2]);
+    assert.throws(() => selectModels([1, 2, 3], config({ model: 7 })), /Model 7 not found; structure contains models 1-3/);
+  });
+
+  it("analyzes every model in ensemble modes", () => {
+    assert.deepEqual(selectModels([1, 2], config({ modelMode: "all" })).analyzed, [1, 2]);
+    assert.deepEqual(selectModels([1, 2], config({ modelMode: "consensus", consensusThreshold: 0.75 })), {
+      mode: "consensus", available: [1, 2], analyzed: [1, 2], consensusThreshold: 0.75,
+    });
+  });
+});
+
+describe("mergeModelInteractions", () => {
+  const perModel = [
+    { model: 1, interactions: [contact("1-9", "SER 1", "ASP 5", 2.8), contact("2-9", "THR 2", "ASP 5", 3.1)] },
+    // Same contact as 1-9 listed from the other side
+    { model: 2, interactions: [{ ...contact("1-9", "ASP 5", "SER 1", 3.0), chainA: "B", chainB: "A", atomA: "OD1 (O)", atomB: "OG (O)" }] },
+  ];
+
+  it("annotates each contact with the fraction of models containing it", () => {
+    const merged = mergeModelInteractions(perModel);
+    assert.deepEqual(merged.map(i => [i.id, i.occupancy]), [["1-9", 1], ["2-9", 0.5]]);
+    assert.ok(Math.abs(merged[0].distance - 2.9) < 1e-9);
+  });
+
+  it("drops contacts below the consensus threshold", () => {
+    assert.deepEqual(mergeModelInteractions(perModel, 0.75).map(i => i.id), ["1-9"]);
+  });
+});
+
+describe("selectReportedAtoms", () => {
+  const atoms = parsePDB(readFixture("altloc-models.pdb"), "test");
+
+  it("lists the models of a structure", () => {
+    assert.deepEqual(listModels(atoms), [1, 2]);
+  });
+
+  it("keeps the chosen conformers of the first analyzed model", () => {
+    const kept = selectReportedAtoms(atoms);
+    assert.deepEqual(kept.map(a => a.serial), [1, 2, 4, 5]);
+    assert.deepEqual(selectReportedAtoms(atoms, config({ model: 2 })).map(a => a.serial), [6, 7, 8]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Atom, AnalysisConfig, Interaction, ModelSelection } from "@shared/schema";
+
+// Model numbers present in a structure, in ascending order
+export function listModels(atoms: Atom[]): number[] {
+  const models = new Set<number>();
+  atoms.forEach(atom => models.add(atom.model));
+  return Array.from(models).sort((a, b) => a - b);
+}
+
+// Resolves the configured model mode against the models actually in the file
+export function selectModels(available: number[], config: AnalysisConfig): ModelSelection {
+  if (config.modelMode !== "single") {
+    return {
+      mode: config.modelMode,
+      available,
+      analyzed: available,
+      ...(config.modelMode === "consensus" ? { consensusThreshold: config.consensusThreshold } : {}),
+    };
+  }
+
+  const model = config.model ?? available[0];
+  if (model !== undefined && !available.includes(model)) {
+    const contained = available.length === 1 ? `model ${available[0]}` : `models ${available[0]}-${available[available.length - 1]}`;
+    throw new Error(`Model ${model} not found; structure contains ${contained}`);
+  }
+  return { mode: "single", available, analyzed: model === undefined ? [] : [model] };
+}
+
+export function atomsOfModel(atomsByProtein: Record<string, Atom[]>, model: number): Record<string, Atom[]> {
+  return Object.fromEntries(
+    Object.entries(atomsByProtein).map(([name, atoms]) => [name, atoms.filter(atom => atom.model === model)])
+  );
+}
+
+// Identity of a contact across models: its type and both endpoints, independent of scan order
+function contactKey(i: Interaction): string {
+  const sideA = `${i.proteinA}:${i.chainA}:${i.residueA}:${i.atomA}:${i.altLocA ?? ''}`;
+  const sideB = `${i.proteinB}:${i.chainB}:${i.residueB}:${i.atomB}:${i.altLocB ?? ''}`;
+  return `${i.type}|${sideA < sideB ? `${sideA}|${sideB}` : `${sideB}|${sideA}`}`;
+}
+
+// Collapses per-model interaction lists into one list annotated with the
+// fraction of models containing each contact. The first occurrence supplies
+// the geometry; distance is averaged over the models where the contact exists.
+export function mergeModelInteractions(perModel: Array<{ model: number; interactions: Interaction[] }>, minOccupancy = 0): Interaction[] {
+  const merged = new Map<string, { interaction: Interaction; models: Set<number>; distanceSum: number; count: number }>();
+
+  perModel.forEach(({ model, interactions }, modelIndex) => {
+    for (const interaction of interactions) {
+      const key = contactKey(interaction);
+      const entry = merged.get(key);
+      if (entry) {
+        entry.models.add(model);
+        entry.distanceSum += interaction.distance;
+        entry.count++;
+      } else {
+        // Atom serials may restart in every model, so later-model ids are prefixed to stay unique
+        const id = modelIndex === 0 ? interaction.id : `m${model}-${interaction.id}`;
+        merged.set(key, {
+          interaction: { ...interaction, id },
+          models: new Set([model]),
+          distanceSum: interaction.distance,
+          count: 1,
+        });
+      }
+    }
+  });
+
+  const result: Interaction[] = [];
+  merged.forEach(({ interaction, models, distanceSum, count }) => {
+    const occupancy = models.size / perModel.length;
+    if (occupancy < minOccupancy) return;
+    result.push({ ...interaction, distance: distanceSum / count, occupancy });
+  });
+  return result;
+}
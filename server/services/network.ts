@@ -0,0 +1,129 @@
+import type { AnalysisSummary, ContactMapCell, InteractionNetwork, NetworkEdge, NetworkNode } from "@shared/schema";
+
+// Interaction networks at two levels: chains joined by their contact counts,
+// and the residues of one interface joined by residue-pair contacts. Both
+// serialize to GraphML and Cytoscape.js JSON for external tools.
+
+// Most specific type first; a residue-pair edge takes the first type it has
+const TYPE_PRIORITY = [
+  "Disulfide Bond", "Metal Coordination", "Salt Bridge", "Hydrogen Bond", "Halogen Bond",
+  "Pi-Stacking", "T-Shaped Pi-Stacking", "Cation-Pi", "Water Bridge", "Hydrophobic",
+  "Ionic Repulsion", "Van der Waals",
+];
+
+function dominantType(types: string[]): string {
+  return TYPE_PRIORITY.find(type => types.includes(type)) ?? types[0];
+}
+
+export function buildChainNetwork(summary: AnalysisSummary): InteractionNetwork {
+  const nodes: NetworkNode[] = summary.chains.map((chain: any) => ({
+    id: `${chain.proteinName}:${chain.chainId}`,
+    label: chain.chainId,
+    chain: `${chain.proteinName}:${chain.chainId}`,
+    weight: 0,
+  }));
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  const edges: NetworkEdge[] = (summary.chainInteractionSummary ?? [])
+    .filter((pair: any) => pair.chainA !== pair.chainB && byId.has(pair.chainA) && byId.has(pair.chainB))
+    .map((pair: any) => ({
+      source: pair.chainA,
+      target: pair.chainB,
+      weight: pair.totalCount,
+      type: dominantType(Object.keys(pair.typeCounts ?? {})),
+      types: Object.keys(pair.typeCounts ?? {}),
+      typeCounts: pair.typeCounts ?? {},
+      ...(pair.buriedSurfaceArea != null ? { buriedSurfaceArea: pair.buriedSurfaceArea } : {}),
+    }));
+
+  edges.forEach(edge => {
+    byId.get(edge.source)!.weight += edge.weight;
+    byId.get(edge.target)!.weight += edge.weight;
+  });
+  return { level: "chains", nodes, edges };
+}
+
+// Residue nodes are "PROTEIN:CHAIN:SEQ"; cells come from the contact map of chainA × chainB
+export function buildResidueNetwork(chainA: string, chainB: string, cells: ContactMapCell[]): InteractionNetwork {
+  const nodes = new Map<string, NetworkNode>();
+  const addNode = (chain: string, residueSeq: number, residueName: string, count: number) => {
+    const id = `${chain}:${residueSeq}`;
+    const node = nodes.get(id);
+    if (node) {
+      node.weight += count;
+      return id;
+    }
+    nodes.set(id, { id, label: `${chain.split(':').pop()}:${residueName} ${residueSeq}`, chain, residueSeq, residueName, weight: count });
+    return id;
+  };
+
+  // A chain against itself lists every pair twice (A→B and B→A); keep one
+  const sameChain = chainA === chainB;
+  const edges: NetworkEdge[] = [];
+  for (const cell of cells) {
+    if (sameChain && cell.residueSeqA > cell.residueSeqB) continue;
+    edges.push({
+      source: addNode(chainA, cell.residueSeqA, cell.residueNameA, cell.count),
+      target: addNode(chainB, cell.residueSeqB, cell.residueNameB, cell.count),
+      weight: cell.count,
+      type: dominantType(cell.types),
+      types: cell.types,
+      minDistance: +cell.minDistance.toFixed(3),
+    });
+  }
+
+  return { level: "residues", nodes: Array.from(nodes.values()), edges };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function toGraphML(network: InteractionNetwork): string {
+  const nodeKeys: Array<[string, string, (n: NetworkNode) => string | number | undefined]> = [
+    ["label", "string", n => n.label],
+    ["chain", "string", n => n.chain],
+    ["residueSeq", "int", n => n.residueSeq],
+    ["residueName", "string", n => n.residueName],
+    ["weight", "int", n => n.weight],
+  ];
+  const edgeKeys: Array<[string, string, (e: NetworkEdge) => string | number | undefined]> = [
+    ["weight", "int", e => e.weight],
+    ["type", "string", e => e.type],
+    ["types", "string", e => e.types.join(";")],
+    ["minDistance", "double", e => e.minDistance],
+    ["buriedSurfaceArea", "double", e => e.buriedSurfaceArea],
+  ];
+  const data = (prefix: string, key: string, value: string | number | undefined) =>
+    value === undefined ? "" : `\n      <data key="${prefix}_${key}">${escapeXml(String(value))}</data>`;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    ...nodeKeys.map(([key, type]) => `  <key id="n_${key}" for="node" attr.name="${key}" attr.type="${type}"/>`),
+    ...edgeKeys.map(([key, type]) => `  <key id="e_${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`),
+    `  <graph id="${network.level}" edgedefault="undirected">`,
+    ...network.nodes.map(node =>
+      `    <node id="${escapeXml(node.id)}">${nodeKeys.map(([key, , get]) => data("n", key, get(node))).join("")}\n    </node>`
+    ),
+    ...network.edges.map((edge, index) =>
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${edgeKeys.map(([key, , get]) => data("e", key, get(edge))).join("")}\n    </edge>`
+    ),
+    `  </graph>`,
+    `</graphml>`,
+    ``,
+  ].join("\n");
+}
+
+// Cytoscape.js "elements" JSON, which Cytoscape desktop imports as well
+export function toCytoscapeJson(network: InteractionNetwork) {
+  return {
+    data: { name: `${network.level} interaction network` },
+    elements: {
+      nodes: network.nodes.map(node => ({ data: { ...node } })),
+      edges: network.edges.map((edge, index) => ({
+        data: { id: `e${index}`, ...edge, types: edge.types.join(";"), typeCounts: undefined },
+      })),
+    },
+  };
+}
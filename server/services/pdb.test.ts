@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectStructureFormat, parseMMCIF, parsePDB, parseSeqres, parseStructure, writePDB } from "./pdb";
+import { readFixture } from "./fixtures";
+
+describe("parseMMCIF", () => {
+  const atoms = parseMMCIF(readFixture("loop.cif"), "test");
+
+  it("reads every atom_site row, one spanning two lines, and stops at the next category", () => {
+    assert.equal(atoms.length, 7);
+    assert.deepEqual(atoms.map(a => a.serial), [1, 2, 3, 4, 5, 6, 7]);
+    assert.equal(atoms[3].name, "NZ");
+    assert.equal(atoms[3].model, 1);
+  });
+
+  it("prefers author chain and residue numbering", () => {
+    assert.equal(atoms[0].chainID, "H");
+    assert.equal(atoms[0].resSeq, 10);
+    assert.equal(atoms[0].resName, "LYS");
+  });
+
+  it("keeps quoted names, alternates, charges and models", () => {
+    assert.equal(atoms[4].name, "O5'");
+    assert.deepEqual(atoms.slice(1, 3).map(a => [a.altLoc, a.occupancy]), [["A", 0.6], ["B", 0.4]]);
+    assert.equal(atoms[3].charge, "1+");
+    assert.equal(atoms[5].charge, "2+");
+    assert.equal(atoms[5].hetero, true);
+    assert.equal(atoms[5].resSeq, 101);
+    assert.equal(atoms[6].model, 2);
+  });
+
+  it("reads single-row values on the next line or in a text field", () => {
+    const [zinc, ...rest] = parseMMCIF(readFixture("single-row.cif"), "test");
+    assert.equal(rest.length, 0);
+    assert.equal(zinc.element, "ZN");
+    assert.equal(zinc.resName, "ZN");
+    assert.deepEqual([zinc.x, zinc.y, zinc.z], [1.5, 2.5, 3.5]);
+    assert.equal(zinc.resSeq, 301);
+    assert.equal(zinc.hetero, true);
+  });
+});
+
+describe("parseSeqres", () => {
+  it("reads a single-row poly_seq_scheme category", () => {
+    assert.deepEqual(parseSeqres(readFixture("single-row.cif")), { A: "G" });
+  });
+
+  it("reads SEQRES records", () => {
+    const content = "SEQRES   1 A    3  GLY LYS MSE\nSEQRES   1 B    1  ASP\n";
+    assert.deepEqual(parseSeqres(content), { A: "GKM", B: "D" });
+  });
+});
+
+describe("parsePDB", () => {
+  const atoms = parsePDB(readFixture("altloc-models.pdb"), "test");
+
+  it("reads fixed-column records with their model", () => {
+    assert.equal(atoms.length, 8);
+    assert.deepEqual(atoms.map(a => a.model), [1, 1, 1, 1, 1, 2, 2, 2]);
+    assert.deepEqual([atoms[2].name, atoms[2].altLoc, atoms[2].occupancy], ["OG", "A", 0.35]);
+    assert.equal(atoms[4].hetero, true);
+    assert.equal(atoms[4].resSeq, 201);
+  });
+
+  it("round-trips through writePDB", () => {
+    const written = parsePDB(writePDB(atoms.filter(a => a.model === 1)), "test");
+    assert.deepEqual(written.map(a => [a.name, a.resName, a.resSeq, a.x, a.y, a.z]), atoms.slice(0, 5).map(a => [a.name, a.resName, a.resSeq, a.x, a.y, a.z]));
+  });
+});
+
+describe("parseStructure", () => {
+  it("detects the format from the content", () => {
+    assert.equal(detectStructureFormat(readFixture("loop.cif")), "mmcif");
+    assert.equal(detectStructureFormat(readFixture("altloc-models.pdb")), "pdb");
+    assert.equal(parseStructure(readFixture("loop.cif"), "test").length, 7);
+  });
+});
@@ -1,5 +1,17 @@
 import axios from "axios";
-import type { Atom, Interaction, AnalysisResult, InterfaceResidue } from "@shared/schema";
+import { DEFAULT_ANALYSIS_CONFIG, type Atom, type Interaction, type InteractionStats, type AnalysisResult, type AnalysisConfig, type InterfaceResidue, type ModelSelection, type ResidueProfileEntry, type StructureFormat } from "@shared/schema";
+import { buildResidueIndex, isHydrogen, oneLetterCode, residueKey } from "./structure";
+import { evaluateHydrogenBond } from "./hbonds";
+import { detectRingInteractions } from "./aromatic";
+import { detectIonicInteractions } from "./saltbridges";
+import { detectMetalSites, type MetalSite } from "./metals";
+import { evaluateHalogenBond } from "./halogens";
+import { listModels, selectModels, atomsOfModel, mergeModelInteractions } from "./models";
+import { selectAtoms, isAltLocConflict } from "./altloc";
+import { perceiveLigands, buildBindingSites } from "./ligands";
+import { detectWaterBridges, isWater, toWaterBridgeInteraction } from "./waterbridges";
+import { computeSurfaceAreas } from "./sasa";
+import { assignSecondaryStructure, annotateInteractions, secondaryStructureKey, summarizeSecondaryStructureContacts, type SecondaryStructureRecord } from "./secondary";
 
 // RCSB PDB GraphQL API Endpoint
 const RCSB_API_URL = "https://data.rcsb.org/graphql";
@@ -51,12 +63,18 @@ export async function fetchPDBMetadata(pdbId: string) {
       const organism = entity.rcsb_entity_source_organism?.[0]?.scientific_name || "N/A";
       const uniprot = entity.rcsb_polymer_entity_container_identifiers?.uniprot_ids?.[0] || null;
 
+      // Canonical one-letter sequence; modified residues appear as "(MSE)"
+      const sequence = (entity.entity_poly?.pdbx_seq_one_letter_code || "")
+        .replace(/\s+/g, "")
+        .replace(/\(([A-Z0-9]{1,3})\)/g, (_: string, code: string) => oneLetterCode(code));
+
       const chainIds = entity.rcsb_polymer_entity_container_identifiers?.auth_asym_ids || [];
       return chainIds.map((id: string) => ({
         id,
         organism,
         uniprot,
-        description: `Chain ${id}`
+        description: `Chain ${id}`,
+        sequence: sequence || null,
       }));
     });
 
@@ -74,12 +92,22 @@ export async function fetchPDBMetadata(pdbId: string) {
 }
 
 // 1. PDB STRUCTURE EXTRACTION
+// A blank occupancy field means the atom is fully occupied
+function parseOccupancy(value: string): number {
+  const occupancy = parseFloat(value);
+  return Number.isNaN(occupancy) ? 1 : occupancy;
+}
+
 export function parsePDB(content: string, proteinName: string): Atom[] {
   const atoms: Atom[] = [];
   const lines = content.split('\n');
+  // Atoms before any MODEL record (single-model files) belong to model 1
+  let model = 1;
 
   for (const line of lines) {
-    if (line.startsWith('ATOM') || line.startsWith('HETATM')) {
+    if (line.startsWith('MODEL ')) {
+      model = parseInt(line.substring(6).trim()) || model + 1;
+    } else if (line.startsWith('ATOM') || line.startsWith('HETATM')) {
       // PDB Fixed Width Format
       const atom: Atom = {
         serial: parseInt(line.substring(6, 11).trim()),
@@ -92,11 +120,13 @@ export function parsePDB(content: string, proteinName: string): Atom[] {
         x: parseFloat(line.substring(30, 38).trim()),
         y: parseFloat(line.substring(38, 46).trim()),
         z: parseFloat(line.substring(46, 54).trim()),
-        occupancy: parseFloat(line.substring(54, 60).trim()) || 0,
+        occupancy: parseOccupancy(line.substring(54, 60)),
         tempFactor: parseFloat(line.substring(60, 66).trim()) || 0,
         element: line.substring(76, 78).trim(),
         charge: line.substring(78, 80).trim(),
         proteinName,
+        model,
+        hetero: line.startsWith('HETATM'),
       };
       atoms.push(atom);
     }
@@ -104,6 +134,342 @@ export function parsePDB(content: string, proteinName: string): Atom[] {
   return atoms;
 }
 
+// 1b. mmCIF / PDBx STRUCTURE EXTRACTION
+// Reads the `_atom_site` category (looped or single-row form) into the same
+// Atom shape as parsePDB. Author-assigned identifiers (auth_*) are preferred
+// so residue numbers and chain IDs match the PDB-format files and RCSB pages.
+type CifToken = { value: string; quoted: boolean };
+
+function tokenizeCifLine(line: string, tokens: CifToken[]) {
+  let i = 0;
+  const len = line.length;
+  while (i < len) {
+    const ch = line[i];
+    if (ch === ' ' || ch === '\t') { i++; continue; }
+    if (ch === '#') return; // comment to end of line
+
+    if (ch === "'" || ch === '"') {
+      // A quote only closes when followed by whitespace or end of line
+      let j = i + 1;
+      while (j < len && !(line[j] === ch && (j + 1 === len || line[j + 1] === ' ' || line[j + 1] === '\t'))) j++;
+      tokens.push({ value: line.substring(i + 1, j), quoted: true });
+      i = j + 1;
+      continue;
+    }
+
+    let j = i;
+    while (j < len && line[j] !== ' ' && line[j] !== '\t') j++;
+    tokens.push({ value: line.substring(i, j), quoted: false });
+    i = j;
+  }
+}
+
+function isCifKeyword(token: CifToken) {
+  if (token.quoted) return false;
+  const v = token.value;
+  return v.startsWith('_') || v === 'loop_' || v === 'stop_' || v.startsWith('data_') || v.startsWith('save_') || v === 'global_';
+}
+
+function cifValue(value: string | undefined): string {
+  return value === undefined || value === '.' || value === '?' ? '' : value;
+}
+
+function formatCifCharge(value: string): string {
+  const charge = parseInt(value);
+  if (!charge) return '';
+  return `${Math.abs(charge)}${charge > 0 ? '+' : '-'}`;
+}
+
+export function parseMMCIF(content: string, proteinName: string): Atom[] {
+  const atoms: Atom[] = [];
+  const lines = content.split(/\r?\n/);
+
+  const columns: string[] = [];
+  const values: CifToken[] = [];
+  let inAtomSiteLoop = false;
+  let pendingLoop = false;
+  // A single-row tag whose value is on a following line (or a text field)
+  let awaitingValue = false;
+  let done = false;
+
+  let columnIndex: Map<string, number> | null = null;
+
+  const flushRow = (row: CifToken[]) => {
+    if (!columnIndex) columnIndex = new Map(columns.map((name, idx) => [name, idx]));
+    const field = (...names: string[]) => {
+      for (const name of names) {
+        const idx = columnIndex!.get(name);
+        if (idx !== undefined) {
+          const v = cifValue(row[idx]?.value);
+          if (v !== '') return v;
+        }
+      }
+      return '';
+    };
+
+    const group = field('group_PDB');
+    if (group && group !== 'ATOM' && group !== 'HETATM') return;
+
+    atoms.push({
+      serial: parseInt(field('id')),
+      name: field('auth_atom_id', 'label_atom_id'),
+      altLoc: field('label_alt_id'),
+      resName: field('auth_comp_id', 'label_comp_id'),
+      chainID: field('auth_asym_id', 'label_asym_id'),
+      resSeq: parseInt(field('auth_seq_id', 'label_seq_id')),
+      iCode: field('pdbx_PDB_ins_code'),
+      x: parseFloat(field('Cartn_x')),
+      y: parseFloat(field('Cartn_y')),
+      z: parseFloat(field('Cartn_z')),
+      occupancy: parseOccupancy(field('occupancy')),
+      tempFactor: parseFloat(field('B_iso_or_equiv')) || 0,
+      element: field('type_symbol'),
+      charge: formatCifCharge(field('pdbx_formal_charge')),
+      proteinName,
+      model: parseInt(field('pdbx_PDB_model_num')) || 1,
+      hetero: group === 'HETATM',
+    });
+  };
+
+  // Rows are cut from a flat token stream because a loop row may legally
+  // span several lines.
+  const drainRows = () => {
+    while (values.length >= columns.length) {
+      flushRow(values.splice(0, columns.length));
+    }
+  };
+
+  for (let lineIdx = 0; lineIdx < lines.length && !done; lineIdx++) {
+    const line = lines[lineIdx];
+
+    // Semicolon-delimited text field
+    if (line.startsWith(';')) {
+      const textLines = [line.substring(1)];
+      while (++lineIdx < lines.length && !lines[lineIdx].startsWith(';')) {
+        textLines.push(lines[lineIdx]);
+      }
+      if (inAtomSiteLoop || awaitingValue) {
+        values.push({ value: textLines.join('\n').trim(), quoted: true });
+        awaitingValue = false;
+        if (inAtomSiteLoop) drainRows();
+      }
+      continue;
+    }
+
+    const tokens: CifToken[] = [];
+    tokenizeCifLine(line, tokens);
+
+    for (let t = 0; t < tokens.length; t++) {
+      const token = tokens[t];
+
+      if (awaitingValue) {
+        values.push(token);
+        awaitingValue = false;
+        continue;
+      }
+
+      if (inAtomSiteLoop) {
+        if (isCifKeyword(token)) {
+          // Loop ended: the atom_site category is complete
+          done = true;
+          break;
+        }
+        values.push(token);
+        continue;
+      }
+
+      if (!token.quoted && token.value === 'loop_') {
+        pendingLoop = true;
+        continue;
+      }
+
+      if (!token.quoted && token.value.startsWith('_atom_site.')) {
+        columns.push(token.value.substring('_atom_site.'.length));
+        if (!pendingLoop) {
+          // Single-row (key value) form
+          if (t + 1 < tokens.length) values.push(tokens[++t]);
+          else awaitingValue = true;
+        }
+        continue;
+      }
+
+      if (columns.length > 0) {
+        if (pendingLoop) {
+          // First value after the loop header
+          inAtomSiteLoop = true;
+          values.push(token);
+          continue;
+        }
+        if (isCifKeyword(token)) {
+          done = true;
+          break;
+        }
+      }
+
+      pendingLoop = false;
+    }
+
+    if (inAtomSiteLoop) drainRows();
+  }
+
+  if (!inAtomSiteLoop && columns.length > 0 && values.length === columns.length) {
+    flushRow(values);
+  }
+
+  return atoms;
+}
+
+// Distinguishes mmCIF from legacy PDB text by its leading data block header
+// or the presence of an _atom_site category.
+export function detectStructureFormat(content: string): StructureFormat {
+  const head = content.substring(0, 4096);
+  for (const line of head.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    if (trimmed.startsWith('data_')) return 'mmcif';
+    break;
+  }
+  return /^_atom_site\./m.test(content) ? 'mmcif' : 'pdb';
+}
+
+export function parseStructure(content: string, proteinName: string): Atom[] {
+  return detectStructureFormat(content) === 'mmcif'
+    ? parseMMCIF(content, proteinName)
+    : parsePDB(content, proteinName);
+}
+
+// Rows of one mmCIF category, looped or in single-row (key value) form
+function readCifCategory(content: string, category: string): Array<Record<string, string>> {
+  const prefix = `_${category}.`;
+  const lines = content.split(/\r?\n/);
+  const columns: string[] = [];
+  const values: string[] = [];
+  let pendingLoop = false;
+  let inLoop = false;
+  let awaitingValue = false;
+
+  scan: for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
+    const line = lines[lineIdx];
+    if (line.startsWith(';')) {
+      const textLines = [line.substring(1)];
+      while (++lineIdx < lines.length && !lines[lineIdx].startsWith(';')) textLines.push(lines[lineIdx]);
+      if (columns.length > 0 && (pendingLoop || awaitingValue)) {
+        values.push(textLines.join('\n').trim());
+        inLoop = pendingLoop;
+      }
+      awaitingValue = false;
+      continue;
+    }
+    const tokens: CifToken[] = [];
+    tokenizeCifLine(line, tokens);
+    for (let t = 0; t < tokens.length; t++) {
+      const token = tokens[t];
+      if (awaitingValue) {
+        values.push(token.value);
+        awaitingValue = false;
+        continue;
+      }
+      if (inLoop) {
+        if (isCifKeyword(token)) break scan;
+        values.push(token.value);
+        continue;
+      }
+      if (!token.quoted && token.value === 'loop_') {
+        if (columns.length > 0) break scan;
+        pendingLoop = true;
+        continue;
+      }
+      if (!token.quoted && token.value.startsWith(prefix)) {
+        columns.push(token.value.substring(prefix.length));
+        if (!pendingLoop) {
+          // Single-row form; the value may follow on the next line
+          if (t + 1 < tokens.length) values.push(tokens[++t].value);
+          else awaitingValue = true;
+        }
+        continue;
+      }
+      if (columns.length > 0) {
+        if (!pendingLoop) {
+          if (isCifKeyword(token)) break scan;
+          continue;
+        }
+        inLoop = true;
+        values.push(token.value);
+        continue;
+      }
+      pendingLoop = false;
+    }
+  }
+
+  const rows: Array<Record<string, string>> = [];
+  for (let i = 0; columns.length > 0 && i + columns.length <= values.length; i += columns.length) {
+    rows.push(Object.fromEntries(columns.map((name, idx) => [name, cifValue(values[i + idx])])));
+  }
+  return rows;
+}
+
+// Deposited (SEQRES) sequence of each polymer chain as one-letter codes, keyed
+// by author chain ID. mmCIF files are read from _pdbx_poly_seq_scheme.
+export function parseSeqres(content: string): Record<string, string> {
+  const sequences: Record<string, string> = {};
+  if (detectStructureFormat(content) === 'mmcif') {
+    for (const row of readCifCategory(content, 'pdbx_poly_seq_scheme')) {
+      const chain = row.pdb_strand_id || row.asym_id;
+      if (chain && row.mon_id) sequences[chain] = (sequences[chain] ?? '') + oneLetterCode(row.mon_id);
+    }
+    return sequences;
+  }
+  for (const line of content.split('\n')) {
+    if (!line.startsWith('SEQRES')) continue;
+    const chain = line.substring(11, 12).trim();
+    const residues = line.substring(19).trim().split(/\s+/).filter(Boolean);
+    sequences[chain] = (sequences[chain] ?? '') + residues.map(oneLetterCode).join('');
+  }
+  return sequences;
+}
+
+// Fixed-column PDB ATOM/HETATM records. Chain IDs longer than the single PDB
+// column (mmCIF input) are truncated to their first character.
+export function writePDB(atoms: Atom[]): string {
+  const lines = atoms.map((a, index) => {
+    const name = a.name.length < 4 && a.element.length < 2 ? ` ${a.name}`.padEnd(4) : a.name.padEnd(4).substring(0, 4);
+    return [
+      (a.hetero ? 'HETATM' : 'ATOM').padEnd(6),
+      String((index + 1) % 100000).padStart(5),
+      ' ',
+      name,
+      (a.altLoc || ' ').substring(0, 1),
+      a.resName.padStart(3).substring(0, 3),
+      ' ',
+      (a.chainID || ' ').substring(0, 1),
+      String(a.resSeq).padStart(4).substring(0, 4),
+      (a.iCode || ' ').substring(0, 1),
+      '   ',
+      a.x.toFixed(3).padStart(8),
+      a.y.toFixed(3).padStart(8),
+      a.z.toFixed(3).padStart(8),
+      a.occupancy.toFixed(2).padStart(6),
+      a.tempFactor.toFixed(2).padStart(6),
+      '          ',
+      a.element.toUpperCase().padStart(2),
+      (a.charge || '').padEnd(2),
+    ].join('');
+  });
+  return [...lines, 'END', ''].join('\n');
+}
+
+// Fetches coordinates from RCSB, falling back to mmCIF for entries that are
+// not distributed in the legacy PDB format (large assemblies, long chain IDs).
+export async function fetchStructureFromRCSB(pdbId: string): Promise<string> {
+  const pdbIdUpper = pdbId.toUpperCase();
+  for (const ext of ['pdb', 'cif']) {
+    const response = await fetch(`https://files.rcsb.org/download/${pdbIdUpper}.${ext}`);
+    if (response.ok) return response.text();
+    if (response.status !== 404) throw new Error(`HTTP ${response.status}`);
+  }
+  throw new Error(`Could not fetch PDB ${pdbId}`);
+}
+
 // 2. PROTEIN–PROTEIN & INTRA-PROTEIN INTERACTION DETECTION
 // 7. Binding Affinity Index (BAI) Calculation
 // Formula: (1.5 × H-Bond) + (2.0 × Salt Bridge) + (1.0 × Hydrophobic) + (0.2 × VdW) - (0.5 × Avg Distance)
@@ -145,38 +511,78 @@ export function calculateBindingAffinityIndex(result: AnalysisResult) {
   };
 }
 
-export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): AnalysisResult {
+// Atoms the per-chain results of an analysis describe: the alternate
+// conformer/occupancy selection, restricted to the first analyzed model
+export function selectReportedAtoms(atoms: Atom[], config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG): Atom[] {
+  const { atoms: kept } = selectAtoms(atoms, config);
+  const [model] = selectModels(listModels(kept), config).analyzed;
+  return model === undefined ? kept : kept.filter(atom => atom.model === model);
+}
+
+export function analyzeInteractions(
+  atomsByProtein: Record<string, Atom[]>,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG,
+  onProgress?: (fraction: number) => void,
+  // HELIX/SHEET records per protein, used where the backbone is incomplete
+  ssRecords: Record<string, SecondaryStructureRecord[]> = {},
+): AnalysisResult {
+  // Alternate conformers and low-occupancy atoms are filtered before anything else
+  const { atoms: keptAtoms, report: parseReport } = selectAtoms(Object.values(atomsByProtein).flat(), config);
+  if (keptAtoms.length === 0 && parseReport.atomsParsed > 0) {
+    throw new Error(`All ${parseReport.atomsParsed} atoms were filtered out (minimum occupancy ${config.minOccupancy})`);
+  }
+  const kept = new Set(keptAtoms);
+  const selectedByProtein: Record<string, Atom[]> = Object.fromEntries(
+    Object.entries(atomsByProtein).map(([name, atoms]) => [name, atoms.filter(atom => kept.has(atom))])
+  );
+
+  // Models are analyzed separately so copies of the same chain never contact each other
+  const selection = selectModels(listModels(keptAtoms), config);
+  const reported = selection.available.length > 1 ? selection : undefined;
+  const modelCount = selection.analyzed.length;
+
+  if (modelCount <= 1) {
+    const atoms = atomsOfModel(selectedByProtein, selection.analyzed[0] ?? 1);
+    const { interactions, metalSites } = detectInteractions(atoms, config, onProgress);
+    return { ...buildAnalysisResult(atoms, interactions, metalSites, ssRecords, reported), parseReport };
+  }
+
+  const perModel = selection.analyzed.map((model, index) =>
+    detectInteractions(atomsOfModel(selectedByProtein, model), config, onProgress && (fraction => onProgress((index + fraction) / modelCount)))
+  );
+  const minOccupancy = config.modelMode === "consensus" ? config.consensusThreshold : 0;
+  const interactions = mergeModelInteractions(perModel.map((result, index) => ({ model: selection.analyzed[index], interactions: result.interactions })), minOccupancy);
+
+  // Per-chain metrics and metal sites are reported for the first analyzed model
+  return { ...buildAnalysisResult(atomsOfModel(selectedByProtein, selection.analyzed[0]), interactions, perModel[0].metalSites, ssRecords, reported), parseReport };
+}
+
+// Pair scan plus residue-level (ionic, ring) detection for a single model
+function detectInteractions(
+  atomsByProtein: Record<string, Atom[]>,
+  config: AnalysisConfig,
+  onProgress?: (fraction: number) => void,
+): { interactions: Interaction[]; metalSites: MetalSite[] } {
   const interactions: Interaction[] = [];
   const allAtoms = Object.values(atomsByProtein).flat();
-  const proteins = Object.keys(atomsByProtein);
 
-  // Build chain metrics
-  const chainMetrics: AnalysisResult['chains'] = [];
-  const interactingResiduesByChain: Record<string, Set<number>> = {};
+  // Residue lookup for donor/acceptor geometry (antecedents, hydrogens)
+  const residues = buildResidueIndex(allAtoms);
 
-  for (const proteinName of proteins) {
-    const atoms = atomsByProtein[proteinName];
-    const chainIds = new Set(atoms.map(a => a.chainID));
+  // Metal coordination shells, looked up by metal atom during the pair scan
+  const metalSites = detectMetalSites(allAtoms);
+  const metalSiteByAtom = new Map<Atom, MetalSite>(metalSites.map(site => [site.metal, site]));
 
-    for (const chainId of chainIds) {
-      const chainKey = `${proteinName}:${chainId}`;
-      interactingResiduesByChain[chainKey] = new Set();
-
-      const chainAtoms = atoms.filter(a => a.chainID === chainId);
-      chainMetrics.push({
-        proteinName,
-        chainId,
-        residueCount: new Set(chainAtoms.map(a => a.resSeq)).size,
-        atomCount: chainAtoms.length,
-        interactingResidues: 0,
-        intraProteinInteractions: 0,
-        interProteinInteractions: 0,
-      });
-    }
-  }
+  const recordInteraction = (interaction: Interaction) => {
+    interactions.push(interaction);
+  };
 
-  // Spatial grid for fast neighbor lookup (5Å cutoff = grid cell 5Å)
-  const GRID_SIZE = 5;
+  // Spatial grid for fast neighbor lookup (cell edge >= neighbor cutoff, enforced by the config schema)
+  const GRID_SIZE = config.gridSize;
+  const neighborCutoffSq = config.neighborCutoff * config.neighborCutoff;
+  const hydrophobicResidues = new Set(config.hydrophobicResidues);
+  const keepAllAltLocs = config.altLocPolicy === "all";
+  const skipWater = !config.includeWaterContacts;
   const grid: Record<string, Atom[]> = {};
 
   for (const atom of allAtoms) {
@@ -191,7 +597,12 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
   // Analyze interactions using spatial grid
   const checked = new Set<string>();
 
+  // The pair scan dominates runtime, so progress is reported over it (~50 updates)
+  const progressStep = Math.max(1, Math.floor(allAtoms.length / 50));
+  let scanned = 0;
+
   for (const atom_a of allAtoms) {
+    if (onProgress && ++scanned % progressStep === 0) onProgress(scanned / allAtoms.length);
     const gridX = Math.floor(atom_a.x / GRID_SIZE);
     const gridY = Math.floor(atom_a.y / GRID_SIZE);
     const gridZ = Math.floor(atom_a.z / GRID_SIZE);
@@ -211,32 +622,54 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
 
             // Skip same atom
             if (atom_a.serial === atom_b.serial && atom_a.proteinName === atom_b.proteinName) continue;
+            if (keepAllAltLocs && isAltLocConflict(atom_a, atom_b)) continue;
 
             const dx = atom_a.x - atom_b.x;
             const dy = atom_a.y - atom_b.y;
             const dz = atom_a.z - atom_b.z;
             const distSq = dx * dx + dy * dy + dz * dz;
 
-            // 5 Angstrom cutoff
-            if (distSq <= 25) {
+            // Neighbor cutoff (5 Å by default)
+            if (distSq <= neighborCutoffSq) {
               const distance = Math.sqrt(distSq);
               // Inter-molecular if different proteins OR different chains within same protein
               const isIntra = atom_a.proteinName === atom_b.proteinName && atom_a.chainID === atom_b.chainID;
 
               // Determine interaction type
               let type: Interaction["type"] = "Other";
+              let hbond: Interaction["hbond"] | null = null;
+              let halogenBond: Interaction["halogenBond"] | null = null;
 
-              const isHydrophobic = (res: string) => ['ALA', 'VAL', 'LEU', 'ILE', 'MET', 'PHE', 'TRP', 'PRO'].includes(res);
-              const isCharged = (res: string) => ['ARG', 'LYS', 'ASP', 'GLU', 'HIS'].includes(res);
+              const isHydrophobic = (res: string) => hydrophobicResidues.has(res);
 
-              if (distance < 3.5) {
-                if ((atom_a.element === 'N' || atom_a.element === 'O') && (atom_b.element === 'N' || atom_b.element === 'O')) {
-                  type = "Hydrogen Bond";
-                } else if (isCharged(atom_a.resName) && isCharged(atom_b.resName)) {
-                  type = "Salt Bridge";
-                } else {
-                  type = "Van der Waals";
-                }
+              // Covalent S–S bridge between cysteine thiols (~2.05 Å)
+              const isDisulfide = distance <= 2.5 &&
+                atom_a.resName === 'CYS' && atom_b.resName === 'CYS' &&
+                atom_a.name === 'SG' && atom_b.name === 'SG';
+
+              const metalSite = metalSiteByAtom.get(atom_a) ?? metalSiteByAtom.get(atom_b);
+              const isCoordination = !!metalSite && metalSite.ligands.some(l => l.atom === atom_a || l.atom === atom_b);
+
+              // Waters only enter through bridges (below) and metal shells unless direct contacts are requested
+              if (skipWater && !isCoordination && (isWater(atom_a) || isWater(atom_b))) continue;
+
+              // Donor/acceptor typing with D–A distance and D–H···A / pre-acceptor angles
+              if (!isDisulfide && !isCoordination && distance <= 4.0) {
+                hbond = evaluateHydrogenBond(atom_a, atom_b, residues, config.polarCutoff);
+                if (!hbond) halogenBond = evaluateHalogenBond(atom_a, atom_b, residues);
+              }
+
+              // Salt bridges are assigned per charged group after this loop
+              if (isDisulfide) {
+                type = "Disulfide Bond";
+              } else if (isCoordination) {
+                type = "Metal Coordination";
+              } else if (hbond) {
+                type = "Hydrogen Bond";
+              } else if (halogenBond) {
+                type = "Halogen Bond";
+              } else if (distance < config.polarCutoff) {
+                type = "Van der Waals";
               } else {
                 if (isHydrophobic(atom_a.resName) && isHydrophobic(atom_b.resName)) {
                   type = "Hydrophobic";
@@ -258,26 +691,14 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
                 distance,
                 type,
                 isIntraMolecular: isIntra,
+                ...(hbond ? { hbond } : {}),
+                ...(halogenBond ? { halogenBond } : {}),
+                ...(isCoordination ? { metal: metalSite!.coordination } : {}),
+                ...(keepAllAltLocs && atom_a.altLoc ? { altLocA: atom_a.altLoc } : {}),
+                ...(keepAllAltLocs && atom_b.altLoc ? { altLocB: atom_b.altLoc } : {}),
               };
 
-              interactions.push(interaction);
-
-              // Track interacting residues
-              const keyA = `${atom_a.proteinName}:${atom_a.chainID}`;
-              const keyB = `${atom_b.proteinName}:${atom_b.chainID}`;
-              interactingResiduesByChain[keyA]?.add(atom_a.resSeq);
-              interactingResiduesByChain[keyB]?.add(atom_b.resSeq);
-
-              // Update metrics
-              const metricA = chainMetrics.find(m => m.proteinName === atom_a.proteinName && m.chainId === atom_a.chainID);
-              const metricB = chainMetrics.find(m => m.proteinName === atom_b.proteinName && m.chainId === atom_b.chainID);
-              if (metricA) {
-                if (isIntra) metricA.intraProteinInteractions++;
-                else metricA.interProteinInteractions++;
-              }
-              if (metricB && atom_a.proteinName !== atom_b.proteinName) {
-                metricB.interProteinInteractions++;
-              }
+              recordInteraction(interaction);
             }
           }
         }
@@ -285,6 +706,110 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
     }
   }
 
+  // Water-mediated bridges between chains or between a ligand and a residue
+  const ligandResidues = new Set(perceiveLigands(allAtoms).map(ligand => residueKey(ligand.atoms[0])));
+  for (const bridge of detectWaterBridges(allAtoms, residues, ligandResidues, config.polarCutoff)) {
+    recordInteraction(toWaterBridgeInteraction(bridge));
+  }
+
+  // Charged-group contacts: attractive salt bridges and like-charge repulsion
+  for (const contact of detectIonicInteractions(residues)) {
+    const { atomA: a, atomB: b } = contact;
+    recordInteraction({
+      id: `ion-${a.serial}-${b.serial}`,
+      proteinA: a.proteinName,
+      proteinB: b.proteinName,
+      chainA: a.chainID,
+      chainB: b.chainID,
+      residueA: `${a.resName} ${a.resSeq}`,
+      residueB: `${b.resName} ${b.resSeq}`,
+      atomA: `${a.name} (${a.element})`,
+      atomB: `${b.name} (${b.element})`,
+      distance: contact.atomDistance,
+      type: contact.type,
+      isIntraMolecular: a.proteinName === b.proteinName && a.chainID === b.chainID,
+      saltBridge: contact.geometry,
+    });
+  }
+
+  // Ring-level contacts: π-stacking (parallel / T-shaped) and cation–π
+  for (const contact of detectRingInteractions(residues)) {
+    const { residueA: resA, residueB: resB } = contact;
+    recordInteraction({
+      id: `${contact.type === "Cation-Pi" ? "cpi" : "pi"}-${contact.anchorA.serial}-${contact.anchorB.serial}`,
+      proteinA: resA.proteinName,
+      proteinB: resB.proteinName,
+      chainA: resA.chainID,
+      chainB: resB.chainID,
+      residueA: `${resA.resName} ${resA.resSeq}`,
+      residueB: `${resB.resName} ${resB.resSeq}`,
+      atomA: contact.labelA,
+      atomB: contact.labelB,
+      distance: contact.geometry.centroidDistance,
+      type: contact.type,
+      isIntraMolecular: resA.proteinName === resB.proteinName && resA.chainID === resB.chainID,
+      ring: contact.geometry,
+    });
+  }
+
+  return { interactions, metalSites };
+}
+
+// Chain metrics, interface residues, density and chain-pair summary derived from an interaction list
+function buildAnalysisResult(
+  atomsByProtein: Record<string, Atom[]>,
+  interactions: Interaction[],
+  metalSites: MetalSite[],
+  ssRecords: Record<string, SecondaryStructureRecord[]>,
+  models?: ModelSelection,
+): AnalysisResult {
+  const allAtoms = Object.values(atomsByProtein).flat();
+  const proteins = Object.keys(atomsByProtein);
+
+  // Build chain metrics
+  const chainMetrics: AnalysisResult['chains'] = [];
+  const interactingResiduesByChain: Record<string, Set<number>> = {};
+
+  for (const proteinName of proteins) {
+    const atoms = atomsByProtein[proteinName];
+    const chainIds = new Set(atoms.map(a => a.chainID));
+
+    for (const chainId of chainIds) {
+      const chainKey = `${proteinName}:${chainId}`;
+      interactingResiduesByChain[chainKey] = new Set();
+
+      const chainAtoms = atoms.filter(a => a.chainID === chainId);
+      chainMetrics.push({
+        proteinName,
+        chainId,
+        residueCount: new Set(chainAtoms.map(a => a.resSeq)).size,
+        atomCount: chainAtoms.length,
+        interactingResidues: 0,
+        intraProteinInteractions: 0,
+        interProteinInteractions: 0,
+      });
+    }
+  }
+
+  for (const interaction of interactions) {
+    // Track interacting residues
+    const keyA = `${interaction.proteinA}:${interaction.chainA}`;
+    const keyB = `${interaction.proteinB}:${interaction.chainB}`;
+    interactingResiduesByChain[keyA]?.add(parseInt(interaction.residueA.split(' ')[1]));
+    interactingResiduesByChain[keyB]?.add(parseInt(interaction.residueB.split(' ')[1]));
+
+    // Update metrics
+    const metricA = chainMetrics.find(m => m.proteinName === interaction.proteinA && m.chainId === interaction.chainA);
+    const metricB = chainMetrics.find(m => m.proteinName === interaction.proteinB && m.chainId === interaction.chainB);
+    if (metricA) {
+      if (interaction.isIntraMolecular) metricA.intraProteinInteractions++;
+      else metricA.interProteinInteractions++;
+    }
+    if (metricB && interaction.proteinA !== interaction.proteinB) {
+      metricB.interProteinInteractions++;
+    }
+  }
+
   // Update interacting residue counts
   chainMetrics.forEach(m => {
     const key = `${m.proteinName}:${m.chainId}`;
@@ -295,6 +820,10 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
   const intraCount = interactions.filter(i => i.isIntraMolecular).length;
   const interCount = totalInteractions - intraCount;
 
+  // Secondary structure of every polymer residue, carried onto interactions and density
+  const secondary = assignSecondaryStructure(allAtoms, ssRecords);
+  annotateInteractions(interactions, secondary);
+
   // 5. Build interface residues data and interaction density
   const interfaceResiduesByChain: Record<string, Map<number, { name: string; types: Set<string> }>> = {};
   const densityByChain: Record<string, Map<number, { name: string; intra: number; inter: number }>> = {};
@@ -354,19 +883,43 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
   }
 
   // Convert density to array format
-  const interactionDensity: Record<string, Array<{ residueSeq: number; residueName: string; intraCount: number; interCount: number; totalCount: number }>> = {};
+  const interactionDensity: Record<string, Array<{ residueSeq: number; residueName: string; ss?: string; intraCount: number; interCount: number; totalCount: number }>> = {};
   for (const [chainKey, density] of Object.entries(densityByChain)) {
+    const [proteinName, chainId] = chainKey.split(':');
     interactionDensity[chainKey] = Array.from(density.entries()).map(([resSeq, data]) => ({
       residueSeq: resSeq,
       residueName: data.name,
+      ss: secondary.get(secondaryStructureKey(proteinName, chainId, resSeq)),
       intraCount: data.intra,
       interCount: data.inter,
       totalCount: data.intra + data.inter,
     })).sort((a, b) => b.totalCount - a.totalCount);
   }
 
+  // Sequence-ordered profile of every polymer residue (including those without
+  // contacts), with the mean heavy-atom B-factor alongside the counts
+  const residueProfile: Record<string, ResidueProfileEntry[]> = {};
+  buildResidueIndex(allAtoms).forEach(residue => {
+    const ss = secondary.get(secondaryStructureKey(residue.proteinName, residue.chainID, residue.resSeq));
+    if (!ss) return;
+    const chainKey = `${residue.proteinName}:${residue.chainID}`;
+    const entries = residueProfile[chainKey] ?? (residueProfile[chainKey] = []);
+    if (entries.length > 0 && entries[entries.length - 1].residueSeq === residue.resSeq) return;
+    const heavy = residue.atoms.filter(a => !isHydrogen(a));
+    const counts = densityByChain[chainKey]?.get(residue.resSeq);
+    entries.push({
+      residueSeq: residue.resSeq,
+      residueName: residue.resName,
+      ss,
+      bFactor: heavy.length > 0 ? +(heavy.reduce((sum, a) => sum + a.tempFactor, 0) / heavy.length).toFixed(2) : 0,
+      intraCount: counts?.intra ?? 0,
+      interCount: counts?.inter ?? 0,
+      totalCount: (counts?.intra ?? 0) + (counts?.inter ?? 0),
+    });
+  });
+
   // 6. Build chain-to-chain interaction summary
-  const chainPairMap: Record<string, { intra: number; inter: number }> = {};
+  const chainPairMap: Record<string, { intra: number; inter: number; types: Record<string, number> }> = {};
   for (const interaction of interactions) {
     const pair = [
       `${interaction.proteinA}:${interaction.chainA}`,
@@ -374,8 +927,9 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
     ].sort().join(' <-> ');
 
     if (!chainPairMap[pair]) {
-      chainPairMap[pair] = { intra: 0, inter: 0 };
+      chainPairMap[pair] = { intra: 0, inter: 0, types: {} };
     }
+    chainPairMap[pair].types[interaction.type] = (chainPairMap[pair].types[interaction.type] || 0) + 1;
 
     if (interaction.isIntraMolecular) {
       chainPairMap[pair].intra++;
@@ -384,14 +938,29 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
     }
   }
 
+  // Surface areas: buried area is evaluated for every pair of distinct chains in contact
+  const contactPairs = Object.keys(chainPairMap)
+    .map(pair => pair.split(' <-> ') as [string, string])
+    .filter(([chainA, chainB]) => chainA !== chainB);
+  const surface = computeSurfaceAreas(allAtoms, contactPairs);
+  for (const metric of chainMetrics) {
+    const sasa = surface.chains.get(`${metric.proteinName}:${metric.chainId}`);
+    metric.sasa = sasa?.sasa ?? 0;
+    metric.sasaUnbound = sasa?.sasaUnbound ?? 0;
+  }
+
   const chainInteractionSummary = Object.entries(chainPairMap).map(([pair, counts]) => {
     const [chainA, chainB] = pair.split(' <-> ');
+    const burial = surface.pairs.get(pair);
     return {
       chainA,
       chainB,
       intraCount: counts.intra,
       interCount: counts.inter,
       totalCount: counts.intra + counts.inter,
+      typeCounts: counts.types,
+      buriedSurfaceArea: burial?.buriedSurfaceArea ?? null,
+      interfaceResidues: burial?.interfaceResidues ?? [],
     };
   }).sort((a, b) => b.totalCount - a.totalCount);
 
@@ -409,13 +978,40 @@ export function analyzeInteractions(atomsByProtein: Record<string, Atom[]>): Ana
       interProteinInteractions: interCount,
     },
     chains: chainMetrics,
-    interactions, // Keep full for now, but we will truncate in the route if needed
+    interactions, // Split off into the interactions table when a job is saved
     interfaceResidues,
     interactionDensity,
+    residueProfile,
     chainInteractionSummary,
+    residueSasa: surface.residues,
+    secondaryStructureContacts: summarizeSecondaryStructureContacts(interactions),
+    metalSites: metalSites.map(site => site.coordination),
+    bindingSites: buildBindingSites(perceiveLigands(allAtoms), interactions),
+    ...(models ? { models } : {}),
   };
 }
 
+// Distance histogram bins behind the charts; upper bounds are inclusive
+export const DISTANCE_BINS = [
+  { name: '< 2.5Å', max: 2.5 },
+  { name: '2.5-3.0Å', max: 3.0 },
+  { name: '3.0-3.5Å', max: 3.5 },
+  { name: '3.5-4.0Å', max: 4.0 },
+  { name: '> 4.0Å', max: Infinity },
+];
+
+// In-memory counterpart of storage.getInteractionStats for results that are not persisted
+export function summarizeInteractions(interactions: Interaction[]): InteractionStats {
+  const typeCounts: Record<string, number> = {};
+  const distanceBins = DISTANCE_BINS.map(bin => ({ name: bin.name, count: 0 }));
+  interactions.forEach(i => {
+    typeCounts[i.type] = (typeCounts[i.type] || 0) + 1;
+    const bin = DISTANCE_BINS.findIndex(b => i.distance <= b.max);
+    distanceBins[bin].count++;
+  });
+  return { typeCounts, distanceBins };
+}
+
 export function generateInteractionCSV(interactions: Interaction[]): string {
   const header = "Protein_A,Chain_A,Residue_A,Atom_A,Protein_B,Chain_B,Residue_B,Atom_B,Type,Distance_Angstrom,Interaction_Category\n";
   const rows = interactions.map(i => {
@@ -427,10 +1023,13 @@ export function generateInteractionCSV(interactions: Interaction[]): string {
 
 export function generateInterProteinCSV(interactions: Interaction[]): string {
   const filtered = interactions.filter(i => !i.isIntraMolecular);
-  const header = "Protein_A,Chain_A,Residue_A,Atom_A,Protein_B,Chain_B,Residue_B,Atom_B,Type,Distance_Angstrom\n";
-  const rows = filtered.map(i =>
-    `${i.proteinA},${i.chainA},"${i.residueA}","${i.atomA}",${i.proteinB},${i.chainB},"${i.residueB}","${i.atomB}",${i.type},${i.distance.toFixed(3)}`
-  ).join('\n');
+  // Water bridge columns are empty for direct contacts
+  const header = "Protein_A,Chain_A,Residue_A,Atom_A,Protein_B,Chain_B,Residue_B,Atom_B,Type,Distance_Angstrom,Water,Water_Serial,Leg_A_Angstrom,Leg_B_Angstrom\n";
+  const rows = filtered.map(i => {
+    const wb = i.waterBridge;
+    const water = wb ? `"${wb.waterChain} ${wb.waterResidue}",${wb.waterSerial},${wb.distanceA.toFixed(2)},${wb.distanceB.toFixed(2)}` : ",,,";
+    return `${i.proteinA},${i.chainA},"${i.residueA}","${i.atomA}",${i.proteinB},${i.chainB},"${i.residueB}","${i.atomB}",${i.type},${i.distance.toFixed(3)},${water}`;
+  }).join('\n');
   return header + rows;
 }
 
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Atom } from "@shared/schema";
+import { detectIonicInteractions, perceiveChargedGroups } from "./saltbridges";
+import { buildResidueIndex } from "./structure";
+import { atom } from "./fixtures";
+
+// Lysine NZ at the origin facing an aspartate carboxylate centred `gap` Å away
+function lysineAndAspartate(gap: number): Atom[] {
+  return [
+    atom({ name: "CE", resName: "LYS", resSeq: 1, x: -1.5 }),
+    atom({ name: "NZ", resName: "LYS", resSeq: 1 }),
+    atom({ name: "CG", resName: "ASP", resSeq: 8, x: gap + 0.8 }),
+    atom({ name: "OD1", resName: "ASP", resSeq: 8, x: gap, y: 1.1 }),
+    atom({ name: "OD2", resName: "ASP", resSeq: 8, x: gap, y: -1.1 }),
+  ];
+}
+
+describe("detectIonicInteractions", () => {
+  it("pairs opposite charges whose centroids are within 4 Å", () => {
+    const [contact, ...rest] = detectIonicInteractions(buildResidueIndex(lysineAndAspartate(3.5)));
+    assert.equal(rest.length, 0);
+    assert.equal(contact.type, "Salt Bridge");
+    assert.deepEqual(contact.geometry, { charge: "attractive", groupA: "Ammonium", groupB: "Carboxylate", centroidDistance: 3.5 });
+    assert.equal(contact.atomA.name, "NZ");
+    assert.ok(Math.abs(contact.atomDistance - Math.hypot(3.5, 1.1)) < 1e-9);
+  });
+
+  it("drops pairs whose centroids are farther apart", () => {
+    assert.equal(detectIonicInteractions(buildResidueIndex(lysineAndAspartate(4.1))).length, 0);
+  });
+
+  it("reports like charges as repulsive", () => {
+    const residues = buildResidueIndex([
+      atom({ name: "NZ", resName: "LYS", resSeq: 1 }),
+      atom({ name: "NZ", resName: "LYS", resSeq: 2, x: 3.8 }),
+    ]);
+    const [contact] = detectIonicInteractions(residues);
+    assert.equal(contact.type, "Ionic Repulsion");
+    assert.equal(contact.geometry.charge, "repulsive");
+  });
+});
+
+describe("perceiveChargedGroups", () => {
+  it("adds termini only at the chain start and where OXT is present", () => {
+    // GLY 1 starts the chain; GLY 20 follows a gap and ends it
+    const residues = buildResidueIndex([
+      atom({ name: "N", resName: "GLY", resSeq: 1 }),
+      atom({ name: "CA", resName: "GLY", resSeq: 1, x: 1.46 }),
+      atom({ name: "C", resName: "GLY", resSeq: 1, x: 2.0, y: 1.4 }),
+      atom({ name: "N", resName: "GLY", resSeq: 20, x: 30 }),
+      atom({ name: "CA", resName: "GLY", resSeq: 20, x: 31.46 }),
+      atom({ name: "C", resName: "GLY", resSeq: 20, x: 32.0, y: 1.4 }),
+      atom({ name: "O", resName: "GLY", resSeq: 20, x: 31.5, y: 2.5 }),
+      atom({ name: "OXT", resName: "GLY", resSeq: 20, x: 33.2, y: 1.4 }),
+    ]);
+    const groups = perceiveChargedGroups(residues).map(g => [g.residue.resSeq, g.name, g.charge]);
+    assert.deepEqual(groups, [[1, "N-terminus", 1], [20, "C-terminus", -1]]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Atom, SaltBridgeGeometry } from "@shared/schema";
+import { centroid, distance, spatialBuckets, type Vec3 } from "./geometry";
+import { STANDARD_AMINO_ACIDS, type Residue, type ResidueIndex } from "./structure";
+
+// Charged-group centroids within 4.0 Å (Barlow & Thornton, 1983)
+export const SALT_BRIDGE_MAX_CENTROID_DISTANCE = 4.0;
+
+export interface ChargedGroup {
+  residue: Residue;
+  name: string;
+  charge: 1 | -1;
+  atoms: Atom[];
+  center: Vec3;
+}
+
+export interface IonicContact {
+  type: "Salt Bridge" | "Ionic Repulsion";
+  groupA: ChargedGroup;
+  groupB: ChargedGroup;
+  // Closest pair of charged atoms, reported as the interaction's atoms
+  atomA: Atom;
+  atomB: Atom;
+  atomDistance: number;
+  geometry: SaltBridgeGeometry;
+}
+
+const SIDECHAIN_CHARGED_GROUPS: Record<string, { name: string; charge: 1 | -1; atoms: string[] }> = {
+  ASP: { name: 'Carboxylate', charge: -1, atoms: ['OD1', 'OD2'] },
+  GLU: { name: 'Carboxylate', charge: -1, atoms: ['OE1', 'OE2'] },
+  LYS: { name: 'Ammonium', charge: 1, atoms: ['NZ'] },
+  ARG: { name: 'Guanidinium', charge: 1, atoms: ['NE', 'NH1', 'NH2'] },
+  HIS: { name: 'Imidazolium', charge: 1, atoms: ['ND1', 'NE2'] },
+};
+
+function makeGroup(residue: Residue, name: string, charge: 1 | -1, atomNames: string[]): ChargedGroup | null {
+  const atoms = atomNames.map(n => residue.byName.get(n)).filter((a): a is Atom => !!a);
+  if (atoms.length === 0) return null;
+  return { residue, name, charge, atoms, center: centroid(atoms) };
+}
+
+export function perceiveChargedGroups(residues: ResidueIndex): ChargedGroup[] {
+  const groups: ChargedGroup[] = [];
+  residues.forEach(residue => {
+    if (!STANDARD_AMINO_ACIDS.includes(residue.resName)) return;
+
+    const sidechain = SIDECHAIN_CHARGED_GROUPS[residue.resName];
+    if (sidechain) {
+      const group = makeGroup(residue, sidechain.name, sidechain.charge, sidechain.atoms);
+      if (group) groups.push(group);
+    }
+
+    // Chain termini: free amine on the chain's first residue (not after a gap)
+    // and carboxylate (OXT present)
+    if (residue.chainStart && residue.byName.has('N')) {
+      const group = makeGroup(residue, 'N-terminus', 1, ['N']);
+      if (group) groups.push(group);
+    }
+    if (residue.byName.has('OXT')) {
+      const group = makeGroup(residue, 'C-terminus', -1, ['O', 'OXT']);
+      if (group) groups.push(group);
+    }
+  });
+  return groups;
+}
+
+function closestAtoms(a: ChargedGroup, b: ChargedGroup) {
+  let best = { atomA: a.atoms[0], atomB: b.atoms[0], distance: Infinity };
+  for (const atomA of a.atoms) {
+    for (const atomB of b.atoms) {
+      const d = distance(atomA, atomB);
+      if (d < best.distance) best = { atomA, atomB, distance: d };
+    }
+  }
+  return best;
+}
+
+// Pairs charged groups on different residues whose centroids fall within the
+// cutoff; opposite charges form salt bridges, like charges are reported as
+// repulsive ionic contacts.
+export function detectIonicInteractions(residues: ResidueIndex): IonicContact[] {
+  const contacts: IonicContact[] = [];
+  const groups = perceiveChargedGroups(residues);
+  const groupsNear = spatialBuckets(groups, g => g.center, SALT_BRIDGE_MAX_CENTROID_DISTANCE);
+  const order = new Map(groups.map((g, i) => [g, i]));
+
+  groups.forEach((groupA, i) => {
+    for (const groupB of groupsNear(groupA.center)) {
+      if (order.get(groupB)! <= i || groupB.residue === groupA.residue) continue;
+
+      const centroidDistance = distance(groupA.center, groupB.center);
+      if (centroidDistance > SALT_BRIDGE_MAX_CENTROID_DISTANCE) continue;
+
+      const attractive = groupA.charge !== groupB.charge;
+      const closest = closestAtoms(groupA, groupB);
+      contacts.push({
+        type: attractive ? "Salt Bridge" : "Ionic Repulsion",
+        groupA,
+        groupB,
+        atomA: closest.atomA,
+        atomB: closest.atomB,
+        atomDistance: closest.distance,
+        geometry: {
+          charge: attractive ? "attractive" : "repulsive",
+          groupA: groupA.name,
+          groupB: groupB.name,
+          centroidDistance: Math.round(centroidDistance * 100) / 100,
+        },
+      });
+    }
+  });
+
+  return contacts;
+}
@@ -0,0 +1,167 @@
+import type { Atom, ResidueSasa } from "@shared/schema";
+import { distance, spatialBuckets, type Vec3 } from "./geometry";
+import { isHydrogen } from "./structure";
+import { isWater } from "./waterbridges";
+
+// Shrake–Rupley solvent accessible surface area. Each heavy atom is expanded
+// by the probe radius and sampled with points on a sphere; the accessible
+// fraction is the share of points not inside any neighbouring expanded atom.
+
+// Bondi (1964) van der Waals radii, Å
+const VDW_RADII: Record<string, number> = {
+  C: 1.7, N: 1.55, O: 1.52, S: 1.8, P: 1.8, SE: 1.9,
+  F: 1.47, CL: 1.75, BR: 1.85, I: 1.98,
+};
+const DEFAULT_RADIUS = 1.8;
+export const PROBE_RADIUS = 1.4;
+const SPHERE_POINTS = 96;
+// Residues losing more than this on complex formation are flagged as interface
+export const INTERFACE_DELTA_SASA = 1.0; // Å²
+
+const MAX_EXPANDED_RADIUS = Math.max(DEFAULT_RADIUS, ...Object.values(VDW_RADII)) + PROBE_RADIUS;
+
+// Golden-section spiral: near-uniform unit vectors
+const UNIT_SPHERE: Vec3[] = Array.from({ length: SPHERE_POINTS }, (_, i) => {
+  const y = 1 - (2 * (i + 0.5)) / SPHERE_POINTS;
+  const r = Math.sqrt(1 - y * y);
+  const phi = i * Math.PI * (3 - Math.sqrt(5));
+  return { x: Math.cos(phi) * r, y, z: Math.sin(phi) * r };
+});
+
+function expandedRadius(atom: Atom): number {
+  return (VDW_RADII[atom.element.toUpperCase()] ?? DEFAULT_RADIUS) + PROBE_RADIUS;
+}
+
+// Atoms that take part in surface calculations: heavy, non-water
+export function surfaceAtoms(atoms: Atom[]): Atom[] {
+  return atoms.filter(atom => !isHydrogen(atom) && !isWater(atom));
+}
+
+// SASA of each target atom (Å²) with `environment` as the occluding set
+export function atomSasa(targets: Atom[], environment: Atom[]): Map<Atom, number> {
+  const near = spatialBuckets(environment, a => a, 2 * MAX_EXPANDED_RADIUS);
+  const result = new Map<Atom, number>();
+
+  for (const atom of targets) {
+    const r = expandedRadius(atom);
+    const neighbors = near(atom)
+      .filter(other => other !== atom)
+      .map(other => ({ atom: other, rSq: expandedRadius(other) ** 2 }))
+      .filter(n => distance(atom, n.atom) < r + Math.sqrt(n.rSq));
+
+    let accessible = 0;
+    for (const unit of UNIT_SPHERE) {
+      const px = atom.x + unit.x * r;
+      const py = atom.y + unit.y * r;
+      const pz = atom.z + unit.z * r;
+      const buried = neighbors.some(n => {
+        const dx = px - n.atom.x;
+        const dy = py - n.atom.y;
+        const dz = pz - n.atom.z;
+        return dx * dx + dy * dy + dz * dz < n.rSq;
+      });
+      if (!buried) accessible++;
+    }
+    result.set(atom, (4 * Math.PI * r * r * accessible) / SPHERE_POINTS);
+  }
+  return result;
+}
+
+const chainKeyOf = (atom: Atom) => `${atom.proteinName}:${atom.chainID}`;
+
+export interface SurfaceAreas {
+  // Per chain: SASA in the complex and of the chain on its own
+  chains: Map<string, { sasa: number; sasaUnbound: number }>;
+  residues: Record<string, ResidueSasa[]>;
+  // Per chain pair ("P:A <-> P:B"): buried area and residues buried by that partner
+  pairs: Map<string, { buriedSurfaceArea: number; interfaceResidues: string[] }>;
+}
+
+// Chain pairs are given as [chainKeyA, chainKeyB]; only those are evaluated for burial
+export function computeSurfaceAreas(atoms: Atom[], chainPairs: Array<[string, string]>): SurfaceAreas {
+  const heavy = surfaceAtoms(atoms);
+  const byChain = new Map<string, Atom[]>();
+  heavy.forEach(atom => {
+    const key = chainKeyOf(atom);
+    const group = byChain.get(key);
+    if (group) group.push(atom);
+    else byChain.set(key, [atom]);
+  });
+
+  const bound = atomSasa(heavy, heavy);
+  const unbound = new Map<Atom, number>();
+  byChain.forEach(chainAtoms => atomSasa(chainAtoms, chainAtoms).forEach((value, atom) => unbound.set(atom, value)));
+
+  const chains: SurfaceAreas["chains"] = new Map();
+  byChain.forEach((chainAtoms, key) => {
+    let sasa = 0;
+    let sasaUnbound = 0;
+    chainAtoms.forEach(atom => {
+      sasa += bound.get(atom)!;
+      sasaUnbound += unbound.get(atom)!;
+    });
+    chains.set(key, { sasa: round(sasa), sasaUnbound: round(sasaUnbound) });
+  });
+
+  // Per-residue totals in the complex and unbound
+  const residueTotals = new Map<string, { chainKey: string; residueSeq: number; residueName: string; sasa: number; sasaUnbound: number }>();
+  heavy.forEach(atom => {
+    const key = `${chainKeyOf(atom)}|${atom.resSeq}|${atom.iCode}`;
+    let entry = residueTotals.get(key);
+    if (!entry) {
+      entry = { chainKey: chainKeyOf(atom), residueSeq: atom.resSeq, residueName: atom.resName, sasa: 0, sasaUnbound: 0 };
+      residueTotals.set(key, entry);
+    }
+    entry.sasa += bound.get(atom)!;
+    entry.sasaUnbound += unbound.get(atom)!;
+  });
+
+  const residues: SurfaceAreas["residues"] = {};
+  residueTotals.forEach(({ chainKey, residueSeq, residueName, sasa, sasaUnbound }) => {
+    const deltaSasa = sasaUnbound - sasa;
+    (residues[chainKey] ??= []).push({
+      residueSeq,
+      residueName,
+      sasa: round(sasa),
+      sasaUnbound: round(sasaUnbound),
+      deltaSasa: round(deltaSasa),
+      isInterface: deltaSasa > INTERFACE_DELTA_SASA,
+    });
+  });
+
+  // Pair burial: only atoms within reach of the partner can lose area, so
+  // just those are re-evaluated against the two-chain environment
+  const pairs: SurfaceAreas["pairs"] = new Map();
+  for (const [keyA, keyB] of chainPairs) {
+    const atomsA = byChain.get(keyA) ?? [];
+    const atomsB = byChain.get(keyB) ?? [];
+    const environment = atomsA.concat(atomsB);
+    const nearA = spatialBuckets(atomsA, a => a, 2 * MAX_EXPANDED_RADIUS);
+    const nearB = spatialBuckets(atomsB, a => a, 2 * MAX_EXPANDED_RADIUS);
+    const reaches = (atom: Atom, near: (p: Vec3) => Atom[]) =>
+      near(atom).some(other => distance(atom, other) < expandedRadius(atom) + expandedRadius(other));
+    const candidates = atomsA.filter(atom => reaches(atom, nearB)).concat(atomsB.filter(atom => reaches(atom, nearA)));
+
+    const inPair = atomSasa(candidates, environment);
+    const buriedByResidue = new Map<string, number>();
+    let buried = 0;
+    inPair.forEach((sasa, atom) => {
+      const loss = unbound.get(atom)! - sasa;
+      buried += loss;
+      const label = `${atom.chainID}:${atom.resName} ${atom.resSeq}`;
+      buriedByResidue.set(label, (buriedByResidue.get(label) ?? 0) + loss);
+    });
+
+    const interfaceResidues: string[] = [];
+    buriedByResidue.forEach((loss, label) => {
+      if (loss > INTERFACE_DELTA_SASA) interfaceResidues.push(label);
+    });
+    pairs.set(`${keyA} <-> ${keyB}`, { buriedSurfaceArea: round(buried), interfaceResidues });
+  }
+
+  return { chains, residues, pairs };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,244 @@
+import type { Atom, Interaction, SecondaryStructureCode, SecondaryStructureContact } from "@shared/schema";
+import { add, distance, normalize, spatialBuckets, sub, type Vec3 } from "./geometry";
+import { buildResidueIndex, STANDARD_AMINO_ACIDS, type Residue } from "./structure";
+
+// DSSP-style secondary structure (Kabsch & Sander, 1983). Backbone H-bonds
+// are scored with the electrostatic model; repeated n-turns give helices
+// (G/H/I for n = 3/4/5) and paired bridges give strands (E) or isolated
+// bridges (B). Residues whose backbone is incomplete fall back to the file's
+// HELIX/SHEET records.
+
+// q1·q2·f in kcal/mol·Å, and the bond threshold
+const HBOND_ENERGY_FACTOR = 0.084 * 332;
+const HBOND_MAX_ENERGY = -0.5;
+// Backbone pairs further apart than this (CA–CA) cannot H-bond
+const CA_CUTOFF = 9.0;
+
+export interface SecondaryStructureRecord {
+  chainID: string;
+  start: number;
+  end: number;
+  code: SecondaryStructureCode;
+}
+
+interface Backbone {
+  residue: Residue;
+  n: Atom;
+  ca: Atom;
+  c: Atom;
+  o: Atom;
+  h?: Vec3; // amide hydrogen; absent for the first residue of a segment and proline
+  next?: Backbone;
+  prev?: Backbone;
+}
+
+// PDB helix classes 1 (α), 3 (π) and 5 (3-10); other classes are treated as α
+const HELIX_CLASS_CODES: Record<number, SecondaryStructureCode> = { 1: "H", 3: "I", 5: "G" };
+
+export function parseSecondaryStructureRecords(content: string): SecondaryStructureRecord[] {
+  const records: SecondaryStructureRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (line.startsWith('HELIX ')) {
+      records.push({
+        chainID: line.substring(19, 20).trim(),
+        start: parseInt(line.substring(21, 25)),
+        end: parseInt(line.substring(33, 37)),
+        code: HELIX_CLASS_CODES[parseInt(line.substring(38, 40))] ?? "H",
+      });
+    } else if (line.startsWith('SHEET ')) {
+      records.push({
+        chainID: line.substring(21, 22).trim(),
+        start: parseInt(line.substring(22, 26)),
+        end: parseInt(line.substring(33, 37)),
+        code: "E",
+      });
+    }
+  }
+  return records.filter(r => !Number.isNaN(r.start) && !Number.isNaN(r.end));
+}
+
+function toBackbone(residue: Residue): Backbone | null {
+  const n = residue.byName.get('N');
+  const ca = residue.byName.get('CA');
+  const c = residue.byName.get('C');
+  const o = residue.byName.get('O');
+  return n && ca && c && o ? { residue, n, ca, c, o } : null;
+}
+
+// DSSP places the amide H 1 Å from N, opposite the preceding carbonyl
+function amideHydrogen(bb: Backbone): Vec3 | undefined {
+  if (bb.residue.resName === 'PRO') return undefined;
+  const explicit = bb.residue.byName.get('H') ?? bb.residue.byName.get('HN');
+  if (explicit) return explicit;
+  if (!bb.prev) return undefined;
+  return add(bb.n, normalize(sub(bb.prev.c, bb.prev.o)));
+}
+
+// Energy of the C=O(acceptor)···H–N(donor) bond
+function hbondEnergy(acceptor: Backbone, donor: Backbone): number {
+  if (!donor.h) return 0;
+  const rON = distance(acceptor.o, donor.n);
+  const rCH = distance(acceptor.c, donor.h);
+  const rOH = distance(acceptor.o, donor.h);
+  const rCN = distance(acceptor.c, donor.n);
+  return HBOND_ENERGY_FACTOR * (1 / rON + 1 / rCH - 1 / rOH - 1 / rCN);
+}
+
+function step(bb: Backbone | undefined, n: number): Backbone | undefined {
+  let current = bb;
+  for (let i = 0; i < Math.abs(n) && current; i++) current = n > 0 ? current.next : current.prev;
+  return current;
+}
+
+// Residue state keyed by "protein:chain:resSeq" (the form interactions and density data use)
+export type SecondaryStructureMap = Map<string, SecondaryStructureCode>;
+
+export function secondaryStructureKey(proteinName: string, chainID: string, resSeq: number): string {
+  return `${proteinName}:${chainID}:${resSeq}`;
+}
+
+export function assignSecondaryStructure(atoms: Atom[], records: Record<string, SecondaryStructureRecord[]> = {}): SecondaryStructureMap {
+  const index = buildResidueIndex(atoms);
+  const backbones: Backbone[] = [];
+  const byResidue = new Map<Residue, Backbone>();
+  index.forEach(residue => {
+    const bb = toBackbone(residue);
+    if (bb) {
+      backbones.push(bb);
+      byResidue.set(residue, bb);
+    }
+  });
+  backbones.forEach(bb => {
+    bb.prev = bb.residue.prev && byResidue.get(bb.residue.prev);
+    bb.next = bb.residue.next && byResidue.get(bb.residue.next);
+  });
+  backbones.forEach(bb => { bb.h = amideHydrogen(bb); });
+
+  // hbonds.get(acceptor) holds every donor its carbonyl is bonded to
+  const hbonds = new Map<Backbone, Set<Backbone>>();
+  const near = spatialBuckets(backbones, bb => bb.ca, CA_CUTOFF);
+  for (const acceptor of backbones) {
+    for (const donor of near(acceptor.ca)) {
+      if (donor === acceptor || donor === acceptor.next || distance(acceptor.ca, donor.ca) > CA_CUTOFF) continue;
+      if (hbondEnergy(acceptor, donor) < HBOND_MAX_ENERGY) {
+        const set = hbonds.get(acceptor);
+        if (set) set.add(donor);
+        else hbonds.set(acceptor, new Set([donor]));
+      }
+    }
+  }
+  const hb = (acceptor: Backbone | undefined, donor: Backbone | undefined) =>
+    !!acceptor && !!donor && !!hbonds.get(acceptor)?.has(donor);
+
+  const ss = new Map<Backbone, SecondaryStructureCode>();
+  const turnCovered = new Set<Backbone>();
+
+  // n-turns at i: CO(i) → NH(i+n); two consecutive turns make a minimal helix
+  const helices: Record<3 | 4 | 5, Set<Backbone>> = { 3: new Set(), 4: new Set(), 5: new Set() };
+  for (const n of [3, 4, 5] as const) {
+    const turn = (bb: Backbone | undefined) => !!bb && hb(bb, step(bb, n));
+    for (const bb of backbones) {
+      if (!turn(bb)) continue;
+      for (let k = 1; k < n; k++) {
+        const covered = step(bb, k);
+        if (covered) turnCovered.add(covered);
+      }
+      if (turn(bb.prev)) {
+        for (let k = 0; k < n; k++) {
+          const member = step(bb, k);
+          if (member) helices[n].add(member);
+        }
+      }
+    }
+  }
+
+  // Bridges: parallel and antiparallel backbone ladders between i and j
+  const bridges = new Map<Backbone, Array<{ partner: Backbone; parallel: boolean }>>();
+  const addBridge = (i: Backbone, j: Backbone, parallel: boolean) => {
+    const list = bridges.get(i);
+    if (list) list.push({ partner: j, parallel });
+    else bridges.set(i, [{ partner: j, parallel }]);
+  };
+  for (const i of backbones) {
+    if (!i.prev || !i.next) continue;
+    for (const j of near(i.ca)) {
+      if (!j.prev || !j.next || j === i || step(i, 1) === j || step(i, 2) === j || step(j, 1) === i || step(j, 2) === i) continue;
+      const parallel = (hb(i.prev, j) && hb(j, i.next)) || (hb(j.prev, i) && hb(i, j.next));
+      const antiparallel = (hb(i, j) && hb(j, i)) || (hb(i.prev, j.next) && hb(j.prev, i.next));
+      if (parallel) addBridge(i, j, true);
+      else if (antiparallel) addBridge(i, j, false);
+    }
+  }
+
+  // A bridge continued by the neighbouring residue (same sense) forms a ladder
+  const inLadder = (bb: Backbone) => (bridges.get(bb) ?? []).some(({ partner, parallel }) =>
+    [1, -1].some(d => (bridges.get(step(bb, d)!) ?? []).some(b =>
+      b.parallel === parallel && b.partner === step(partner, parallel ? d : -d)
+    ))
+  );
+
+  // Priority follows DSSP: H > E/B > G > I > T
+  for (const bb of backbones) {
+    if (helices[4].has(bb)) ss.set(bb, "H");
+    else if (bridges.has(bb)) ss.set(bb, inLadder(bb) ? "E" : "B");
+    else if (helices[3].has(bb)) ss.set(bb, "G");
+    else if (helices[5].has(bb)) ss.set(bb, "I");
+    else if (turnCovered.has(bb)) ss.set(bb, "T");
+    else ss.set(bb, "-");
+  }
+
+  const result: SecondaryStructureMap = new Map();
+  index.forEach(residue => {
+    const bb = byResidue.get(residue);
+    const key = secondaryStructureKey(residue.proteinName, residue.chainID, residue.resSeq);
+    if (bb) {
+      if (!result.has(key)) result.set(key, ss.get(bb)!);
+      return;
+    }
+    // Incomplete backbone: use the deposited assignment for amino acids only
+    if (!residue.byName.has('CA') || (residue.atoms[0].hetero && !STANDARD_AMINO_ACIDS.includes(residue.resName))) return;
+    const record = (records[residue.proteinName] ?? []).find(r =>
+      r.chainID === residue.chainID && residue.resSeq >= r.start && residue.resSeq <= r.end
+    );
+    if (!result.has(key)) result.set(key, record?.code ?? "-");
+  });
+  return result;
+}
+
+export type SecondaryStructureClass = "helix" | "strand" | "loop";
+
+export function secondaryStructureClass(code: SecondaryStructureCode): SecondaryStructureClass {
+  if (code === "H" || code === "G" || code === "I") return "helix";
+  if (code === "E" || code === "B") return "strand";
+  return "loop";
+}
+
+// Sets ssA/ssB on each interaction from the residue assignment
+export function annotateInteractions(interactions: Interaction[], assignment: SecondaryStructureMap): void {
+  for (const interaction of interactions) {
+    const ssA = assignment.get(secondaryStructureKey(interaction.proteinA, interaction.chainA, parseInt(interaction.residueA.split(' ')[1])));
+    const ssB = assignment.get(secondaryStructureKey(interaction.proteinB, interaction.chainB, parseInt(interaction.residueB.split(' ')[1])));
+    if (ssA) interaction.ssA = ssA;
+    if (ssB) interaction.ssB = ssB;
+  }
+}
+
+const ELEMENT_PAIRS: SecondaryStructureContact["elements"][] = ["Helix–Helix", "Strand–Strand", "Helix–Strand", "Loop-mediated"];
+
+function elementPair(a: SecondaryStructureClass, b: SecondaryStructureClass): SecondaryStructureContact["elements"] {
+  if (a === "loop" || b === "loop") return "Loop-mediated";
+  if (a !== b) return "Helix–Strand";
+  return a === "helix" ? "Helix–Helix" : "Strand–Strand";
+}
+
+// Counts annotated interactions by element pair; contacts with a non-polymer side are left out
+export function summarizeSecondaryStructureContacts(interactions: Interaction[]): SecondaryStructureContact[] {
+  const counts = new Map(ELEMENT_PAIRS.map(elements => [elements, { elements, total: 0, inter: 0 }]));
+  for (const interaction of interactions) {
+    if (!interaction.ssA || !interaction.ssB) continue;
+    const entry = counts.get(elementPair(secondaryStructureClass(interaction.ssA), secondaryStructureClass(interaction.ssB)))!;
+    entry.total++;
+    if (!interaction.isIntraMolecular) entry.inter++;
+  }
+  return Array.from(counts.values());
+}
@@ -0,0 +1,130 @@
+import type { AlignmentMode, Atom, ChainSequenceAlignment, ComparedStructure, SequenceAlignmentColumn } from "@shared/schema";
+import { alignSequences, type SequenceAlignment } from "./alignment";
+import { buildResidueIndex, ONE_LETTER_CODES, oneLetterCode } from "./structure";
+import { parseSeqres } from "./pdb";
+
+// Chain sequences of a structure (observed CA trace and deposited SEQRES) and
+// their pairing between two structures by sequence alignment.
+
+// Chain pairings below this identity (over aligned positions) are not used
+const MIN_CHAIN_IDENTITY = 0.3;
+const MIN_ALIGNED = 3;
+
+export interface TraceResidue {
+  resSeq: number;
+  resName: string;
+  ca: Atom;
+}
+
+export interface ChainTrace {
+  chainID: string;
+  sequence: string;
+  residues: TraceResidue[];
+}
+
+export interface ChainPairing {
+  a: ChainTrace;
+  b: ChainTrace;
+  alignment: SequenceAlignment;
+  identity: number;
+}
+
+// Observed residues (with a CA) of every polymer chain in the first model
+export function chainTraces(atoms: Atom[]): ChainTrace[] {
+  const firstModel = atoms.reduce((min, a) => Math.min(min, a.model), Infinity);
+  const traces = new Map<string, ChainTrace>();
+  buildResidueIndex(atoms.filter(a => a.model === firstModel)).forEach(residue => {
+    const ca = residue.byName.get('CA');
+    if (!ca || (residue.atoms[0].hetero && !ONE_LETTER_CODES[residue.resName])) return;
+    let trace = traces.get(residue.chainID);
+    if (!trace) {
+      trace = { chainID: residue.chainID, sequence: '', residues: [] };
+      traces.set(residue.chainID, trace);
+    }
+    trace.sequence += oneLetterCode(residue.resName);
+    trace.residues.push({ resSeq: residue.resSeq, resName: residue.resName, ca });
+  });
+  return Array.from(traces.values());
+}
+
+// Pairs chains one-to-one, greedily by number of identical aligned residues
+export function pairChains(tracesA: ChainTrace[], tracesB: ChainTrace[], mode: AlignmentMode = "global"): ChainPairing[] {
+  const candidates = tracesA.flatMap(a => tracesB.map(b => {
+    const alignment = alignSequences(a.sequence, b.sequence, mode);
+    return { a, b, alignment, identity: alignment.pairs.length > 0 ? alignment.identities / alignment.pairs.length : 0 };
+  }))
+    .filter(c => c.identity >= MIN_CHAIN_IDENTITY && c.alignment.pairs.length >= MIN_ALIGNED)
+    .sort((x, y) => y.alignment.identities - x.alignment.identities);
+
+  const usedA = new Set<string>();
+  const usedB = new Set<string>();
+  const pairings: ChainPairing[] = [];
+  for (const candidate of candidates) {
+    if (usedA.has(candidate.a.chainID) || usedB.has(candidate.b.chainID)) continue;
+    usedA.add(candidate.a.chainID);
+    usedB.add(candidate.b.chainID);
+    pairings.push(candidate);
+  }
+  return pairings;
+}
+
+// Residues of each chain that take part in an inter-chain interaction, as "chain:resSeq"
+function interfaceResidueSet(result: ComparedStructure): Set<string> {
+  const residues = new Set<string>();
+  result.interactions.forEach(i => {
+    if (i.isIntraMolecular) return;
+    residues.add(`${i.chainA}:${parseInt(i.residueA.split(' ')[1])}`);
+    residues.add(`${i.chainB}:${parseInt(i.residueB.split(' ')[1])}`);
+  });
+  return residues;
+}
+
+interface SequencedStructure {
+  atoms: Atom[];
+  content: string;
+  result: ComparedStructure;
+}
+
+// Aligns the observed sequences of paired chains and flags interface residues
+// on each side, so conserved interface positions line up column by column
+export function alignStructureSequences(a: SequencedStructure, b: SequencedStructure, mode: AlignmentMode): ChainSequenceAlignment[] {
+  const seqresA = parseSeqres(a.content);
+  const seqresB = parseSeqres(b.content);
+  const interfaceA = interfaceResidueSet(a.result);
+  const interfaceB = interfaceResidueSet(b.result);
+
+  return pairChains(chainTraces(a.atoms), chainTraces(b.atoms), mode).map(({ a: traceA, b: traceB, alignment, identity }) => {
+    let i = alignment.startA;
+    let j = alignment.startB;
+    const columns: SequenceAlignmentColumn[] = [];
+    for (let k = 0; k < alignment.alignedA.length; k++) {
+      const residueA = alignment.alignedA[k] === '-' ? null : traceA.residues[i++];
+      const residueB = alignment.alignedB[k] === '-' ? null : traceB.residues[j++];
+      columns.push({
+        codeA: alignment.alignedA[k],
+        codeB: alignment.alignedB[k],
+        residueSeqA: residueA?.resSeq ?? null,
+        residueSeqB: residueB?.resSeq ?? null,
+        interfaceA: !!residueA && interfaceA.has(`${traceA.chainID}:${residueA.resSeq}`),
+        interfaceB: !!residueB && interfaceB.has(`${traceB.chainID}:${residueB.resSeq}`),
+      });
+    }
+
+    const aligned = alignment.pairs.length;
+    return {
+      chainA: traceA.chainID,
+      chainB: traceB.chainID,
+      mode,
+      score: +alignment.score.toFixed(1),
+      alignedResidues: aligned,
+      identity: +identity.toFixed(3),
+      similarity: aligned > 0 ? +(alignment.positives / aligned).toFixed(3) : 0,
+      gaps: alignment.gaps,
+      observedA: traceA.residues.length,
+      observedB: traceB.residues.length,
+      seqresA: seqresA[traceA.chainID] ?? null,
+      seqresB: seqresB[traceB.chainID] ?? null,
+      columns,
+    };
+  });
+}
@@ -0,0 +1,115 @@
+import type { Atom } from "@shared/schema";
+import { distanceSq } from "./geometry";
+
+// Residue-level view over the flat atom list so chemistry checks can look up
+// bonded neighbours (antecedent atoms, hydrogens, the preceding residue's C).
+export interface Residue {
+  key: string;
+  proteinName: string;
+  chainID: string;
+  resName: string;
+  resSeq: number;
+  iCode: string;
+  atoms: Atom[];
+  byName: Map<string, Atom>;
+  prev?: Residue;
+  next?: Residue;
+  // First residue of its chain in file order; unlike a missing `prev`, this
+  // is not set after gaps in the chain
+  chainStart: boolean;
+}
+
+export type ResidueIndex = Map<string, Residue>;
+
+export const WATER_RESIDUES = ['HOH', 'WAT', 'DOD', 'H2O'];
+
+export const STANDARD_AMINO_ACIDS = [
+  'ALA', 'ARG', 'ASN', 'ASP', 'CYS', 'GLN', 'GLU', 'GLY', 'HIS', 'ILE',
+  'LEU', 'LYS', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL',
+];
+
+// One-letter codes, including common modified residues mapped to their parent
+export const ONE_LETTER_CODES: Record<string, string> = {
+  ALA: 'A', ARG: 'R', ASN: 'N', ASP: 'D', CYS: 'C', GLN: 'Q', GLU: 'E', GLY: 'G', HIS: 'H', ILE: 'I',
+  LEU: 'L', LYS: 'K', MET: 'M', PHE: 'F', PRO: 'P', SER: 'S', THR: 'T', TRP: 'W', TYR: 'Y', VAL: 'V',
+  MSE: 'M', SEC: 'U', PYL: 'O', HYP: 'P', SEP: 'S', TPO: 'T', PTR: 'Y', CSO: 'C', MLY: 'K',
+};
+
+export function oneLetterCode(resName: string): string {
+  return ONE_LETTER_CODES[resName] ?? 'X';
+}
+
+// Peptide C–N bond is ~1.33 Å; allow slack for poorly refined models
+const PEPTIDE_BOND_MAX_SQ = 2.0 * 2.0;
+
+export function residueKey(atom: Atom): string {
+  return `${atom.proteinName}|${atom.chainID}|${atom.resSeq}|${atom.iCode}`;
+}
+
+export function isHydrogen(atom: Atom): boolean {
+  const element = atom.element.toUpperCase();
+  if (element) return element === 'H' || element === 'D';
+  return /^[0-9]*[HD]/.test(atom.name);
+}
+
+export function buildResidueIndex(atoms: Atom[]): ResidueIndex {
+  const index: ResidueIndex = new Map();
+  const lastByChain: Record<string, Residue> = {};
+
+  for (const atom of atoms) {
+    const key = residueKey(atom);
+    let residue = index.get(key);
+
+    if (!residue) {
+      const chainKey = `${atom.proteinName}|${atom.chainID}`;
+      const previous = lastByChain[chainKey];
+      residue = {
+        key,
+        proteinName: atom.proteinName,
+        chainID: atom.chainID,
+        resName: atom.resName,
+        resSeq: atom.resSeq,
+        iCode: atom.iCode,
+        atoms: [],
+        byName: new Map(),
+        chainStart: !previous,
+      };
+      index.set(key, residue);
+
+      if (previous) {
+        previous.next = residue;
+        residue.prev = previous;
+      }
+      lastByChain[chainKey] = residue;
+    }
+
+    residue.atoms.push(atom);
+    if (!residue.byName.has(atom.name)) residue.byName.set(atom.name, atom);
+  }
+
+  // Only keep sequence links that are real peptide bonds (chain breaks, waters, ligands)
+  index.forEach(residue => {
+    const prev = residue.prev;
+    if (!prev) return;
+    const c = prev.byName.get('C');
+    const n = residue.byName.get('N');
+    if (!c || !n || distanceSq(c, n) > PEPTIDE_BOND_MAX_SQ) {
+      prev.next = undefined;
+      residue.prev = undefined;
+    }
+  });
+
+  return index;
+}
+
+export function getResidue(index: ResidueIndex, atom: Atom): Residue | undefined {
+  return index.get(residueKey(atom));
+}
+
+// Heavy atoms covalently bonded to `atom` within its own residue (distance-based)
+export function bondedNeighbors(residue: Residue, atom: Atom, maxDistance = 1.9): Atom[] {
+  const maxSq = maxDistance * maxDistance;
+  return residue.atoms.filter(other =>
+    other !== atom && !isHydrogen(other) && distanceSq(other, atom) <= maxSq
+  );
+}
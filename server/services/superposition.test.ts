@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Atom } from "@shared/schema";
+import type { Vec3 } from "./geometry";
+import { applyTransform, kabsch, pairedRmsd, superposeStructures } from "./superposition";
+import { chainTraces, pairChains } from "./sequence";
+import { atom } from "./fixtures";
+
+const RESIDUES = ["ALA", "GLY", "LYS", "ASP", "SER", "LEU", "GLU", "VAL", "THR", "ARG"];
+
+// 30° about z, then 60° about x, then shifted
+const ROTATION = (() => {
+  const [cz, sz, cx, sx] = [Math.cos(Math.PI / 6), Math.sin(Math.PI / 6), Math.cos(Math.PI / 3), Math.sin(Math.PI / 3)];
+  return [
+    [cz, -sz, 0],
+    [cx * sz, cx * cz, -sx],
+    [sx * sz, sx * cz, cx],
+  ];
+})();
+const MOVE = { rotation: ROTATION, translation: { x: 5, y: -3, z: 12 } };
+
+// CA trace on an ideal α-helix: 100° and 1.5 Å rise per residue
+function helix(length: number): Vec3[] {
+  return Array.from({ length }, (_, i) => {
+    const angle = (i * 100 * Math.PI) / 180;
+    return { x: 2.3 * Math.cos(angle), y: 2.3 * Math.sin(angle), z: 1.5 * i };
+  });
+}
+
+function caTrace(points: Vec3[], chainID = "A"): Atom[] {
+  return points.map((p, i) => atom({ name: "CA", resName: RESIDUES[i % RESIDUES.length], resSeq: i + 1, chainID, serial: i + 1, element: "C", ...p }));
+}
+
+const near = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+describe("kabsch", () => {
+  const mobile = helix(12);
+  const target = mobile.map(p => applyTransform(MOVE, p));
+
+  it("recovers a known rotation and translation", () => {
+    const transform = kabsch(mobile, target);
+    transform.rotation.forEach((row, i) => row.forEach((v, j) => near(v, ROTATION[i][j])));
+    near(transform.translation.x, 5);
+    near(transform.translation.y, -3);
+    near(transform.translation.z, 12);
+  });
+
+  it("maps the mobile points onto the target", () => {
+    const transform = kabsch(mobile, target);
+    mobile.forEach((p, i) => {
+      const moved = applyTransform(transform, p);
+      near(moved.x, target[i].x);
+      near(moved.y, target[i].y);
+      near(moved.z, target[i].z);
+    });
+  });
+});
+
+describe("pairedRmsd", () => {
+  it("is zero for a rigidly moved copy and null under three pairs", () => {
+    const points = helix(8);
+    const pairings = pairChains(chainTraces(caTrace(points)), chainTraces(caTrace(points.map(p => applyTransform(MOVE, p)))));
+    assert.equal(pairedRmsd(pairings), 0);
+    assert.equal(pairedRmsd([]), null);
+  });
+});
+
+describe("superposeStructures", () => {
+  const points = helix(30);
+
+  it("scores a rigidly moved copy as identical", () => {
+    const result = superposeStructures(caTrace(points), caTrace(points.map(p => applyTransform(MOVE, p)), "B"));
+    assert.ok(result);
+    assert.equal(result.alignedResidues, 30);
+    assert.equal(result.rmsd, 0);
+    assert.equal(result.tmScore, 1);
+    assert.deepEqual(result.chains.map(c => [c.chainA, c.chainB, c.sequenceIdentity]), [["A", "B", 1]]);
+    assert.ok(result.residues.every(r => r.deviation === 0));
+  });
+
+  it("fits the conserved core when part of the chain moves", () => {
+    // The last five residues swing 6 Å away; the TM-score fit keeps the rest aligned
+    const moved = points.map((p, i) => applyTransform(MOVE, i >= 25 ? { ...p, x: p.x + 6 } : p));
+    const result = superposeStructures(caTrace(points), caTrace(moved));
+    assert.ok(result);
+    assert.ok(result.rmsd > 1);
+    assert.ok(result.tmScore < 1 && result.tmScore > 0.75);
+    assert.ok(result.residues.slice(0, 25).every(r => r.deviation < 0.01));
+    assert.ok(result.residues.slice(25).every(r => r.deviation > 5));
+  });
+
+  it("needs at least three paired residues", () => {
+    assert.equal(superposeStructures(caTrace(points.slice(0, 2)), caTrace(points.slice(0, 2))), null);
+  });
+});
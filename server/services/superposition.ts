@@ -0,0 +1,223 @@
+import type { Atom, ChainSuperposition, ResidueDeviation, Superposition } from "@shared/schema";
+import { distanceSq, type Vec3 } from "./geometry";
+import { writePDB } from "./pdb";
+import { chainTraces, pairChains, type ChainPairing, type ChainTrace, type TraceResidue } from "./sequence";
+
+// Superposition of two structures on their CA atoms. Chains are paired by
+// sequence alignment, the optimal rotation comes from Horn's quaternion form
+// of the Kabsch problem, and the TM-score search follows Zhang & Skolnick
+// (2004): fits seeded on fragments are refined on the pairs within d0.
+
+const MIN_PAIRS = 3;
+const TM_MAX_ITERATIONS = 20;
+
+interface ResiduePair {
+  a: TraceResidue;
+  b: TraceResidue;
+  chainA: string;
+  chainB: string;
+}
+
+export interface RigidTransform {
+  rotation: number[][];
+  translation: Vec3;
+}
+
+function centroid(points: Vec3[]): Vec3 {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y, z: acc.z + p.z }), { x: 0, y: 0, z: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length, z: sum.z / points.length };
+}
+
+// Eigenvector of the largest eigenvalue of a symmetric 4×4 matrix (cyclic Jacobi)
+function dominantEigenvector(matrix: number[][]): number[] {
+  const a = matrix.map(row => row.slice());
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 4; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-18) break;
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  let best = 0;
+  for (let k = 1; k < 4; k++) if (a[k][k] > a[best][best]) best = k;
+  return v.map(row => row[best]);
+}
+
+// Least-squares rigid transform taking `mobile` onto `target` (paired by index)
+export function kabsch(mobile: Vec3[], target: Vec3[]): RigidTransform {
+  const cm = centroid(mobile);
+  const ct = centroid(target);
+  let sxx = 0, sxy = 0, sxz = 0, syx = 0, syy = 0, syz = 0, szx = 0, szy = 0, szz = 0;
+  for (let i = 0; i < mobile.length; i++) {
+    const px = mobile[i].x - cm.x, py = mobile[i].y - cm.y, pz = mobile[i].z - cm.z;
+    const qx = target[i].x - ct.x, qy = target[i].y - ct.y, qz = target[i].z - ct.z;
+    sxx += px * qx; sxy += px * qy; sxz += px * qz;
+    syx += py * qx; syy += py * qy; syz += py * qz;
+    szx += pz * qx; szy += pz * qy; szz += pz * qz;
+  }
+  const [q0, q1, q2, q3] = dominantEigenvector([
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+  ]);
+  const rotation = [
+    [q0 * q0 + q1 * q1 - q2 * q2 - q3 * q3, 2 * (q1 * q2 - q0 * q3), 2 * (q1 * q3 + q0 * q2)],
+    [2 * (q1 * q2 + q0 * q3), q0 * q0 - q1 * q1 + q2 * q2 - q3 * q3, 2 * (q2 * q3 - q0 * q1)],
+    [2 * (q1 * q3 - q0 * q2), 2 * (q2 * q3 + q0 * q1), q0 * q0 - q1 * q1 - q2 * q2 + q3 * q3],
+  ];
+  const rc = applyRotation(rotation, cm);
+  return { rotation, translation: { x: ct.x - rc.x, y: ct.y - rc.y, z: ct.z - rc.z } };
+}
+
+function applyRotation(r: number[][], p: Vec3): Vec3 {
+  return {
+    x: r[0][0] * p.x + r[0][1] * p.y + r[0][2] * p.z,
+    y: r[1][0] * p.x + r[1][1] * p.y + r[1][2] * p.z,
+    z: r[2][0] * p.x + r[2][1] * p.y + r[2][2] * p.z,
+  };
+}
+
+export function applyTransform(transform: RigidTransform, p: Vec3): Vec3 {
+  const r = applyRotation(transform.rotation, p);
+  return { x: r.x + transform.translation.x, y: r.y + transform.translation.y, z: r.z + transform.translation.z };
+}
+
+function rmsdAfter(transform: RigidTransform, mobile: Vec3[], target: Vec3[]): number {
+  const sum = mobile.reduce((acc, p, i) => acc + distanceSq(applyTransform(transform, p), target[i]), 0);
+  return Math.sqrt(sum / mobile.length);
+}
+
+// TM-score distance scale for a reference of `length` residues
+function tmD0(length: number): number {
+  return length > 21 ? Math.max(0.5, 1.24 * Math.cbrt(length - 15) - 1.8) : 0.5;
+}
+
+function tmScoreSearch(mobile: Vec3[], target: Vec3[], referenceLength: number): { tmScore: number; transform: RigidTransform } {
+  const n = mobile.length;
+  const d0 = tmD0(referenceLength);
+  const d0Search = Math.min(8, Math.max(4.5, d0));
+  const score = (transform: RigidTransform) => {
+    const d2 = mobile.map((p, i) => distanceSq(applyTransform(transform, p), target[i]));
+    const tm = d2.reduce((acc, d) => acc + 1 / (1 + d / (d0 * d0)), 0) / referenceLength;
+    return { tm, d2 };
+  };
+
+  let best = { tmScore: -1, transform: kabsch(mobile, target) };
+  // Seed fragments of n, n/2, n/4 ... (at least 4) residues, about 20 starts per length
+  for (let length = n; length >= Math.min(4, n); length = Math.floor(length / 2)) {
+    const stride = Math.max(1, Math.floor((n - length) / 20));
+    for (let start = 0; start + length <= n; start += stride) {
+      let subset = Array.from({ length }, (_, k) => start + k);
+      for (let iteration = 0; iteration < TM_MAX_ITERATIONS; iteration++) {
+        const transform = kabsch(subset.map(i => mobile[i]), subset.map(i => target[i]));
+        const { tm, d2 } = score(transform);
+        if (tm > best.tmScore) best = { tmScore: tm, transform };
+        let cutoff = d0Search;
+        let next: number[] = [];
+        while (next.length < MIN_PAIRS && cutoff < 100) {
+          next = d2.flatMap((d, i) => d < cutoff * cutoff ? [i] : []);
+          cutoff += 0.5;
+        }
+        if (next.length === subset.length && next.every((i, k) => i === subset[k])) break;
+        subset = next;
+      }
+      if (length === n) break;
+    }
+    if (length < 8) break;
+  }
+  return best;
+}
+
+// Residue correspondences of chain pairs matched by global sequence alignment
+function pairResidues(atomsA: Atom[], tracesB: ChainTrace[]) {
+  return pairChains(chainTraces(atomsA), tracesB).map(({ a, b, alignment, identity }) => ({
+    chainA: a.chainID,
+    chainB: b.chainID,
+    identity,
+    pairs: alignment.pairs.map(([i, j]): ResiduePair => ({ a: a.residues[i], b: b.residues[j], chainA: a.chainID, chainB: b.chainID })),
+  }));
+}
+
+// CA RMSD of the least-squares fit over all residues paired between the chains
+export function pairedRmsd(pairings: ChainPairing[]): number | null {
+  const mobile = pairings.flatMap(({ a, alignment }) => alignment.pairs.map(([i]) => a.residues[i].ca));
+  const target = pairings.flatMap(({ b, alignment }) => alignment.pairs.map(([, j]) => b.residues[j].ca));
+  if (mobile.length < MIN_PAIRS) return null;
+  return +rmsdAfter(kabsch(mobile, target), mobile, target).toFixed(3);
+}
+
+export function superposeStructures(atomsA: Atom[], atomsB: Atom[]): Superposition | null {
+  const tracesB = chainTraces(atomsB);
+  const chains = pairResidues(atomsA, tracesB);
+  const pairs = chains.flatMap(c => c.pairs);
+  if (pairs.length < MIN_PAIRS) return null;
+
+  const mobile = pairs.map(p => p.a.ca);
+  const target = pairs.map(p => p.b.ca);
+  const rmsd = rmsdAfter(kabsch(mobile, target), mobile, target);
+  const referenceLength = tracesB.reduce((sum, t) => sum + t.residues.length, 0);
+  const { tmScore, transform } = tmScoreSearch(mobile, target, referenceLength);
+
+  const chainStats: ChainSuperposition[] = chains.map(c => {
+    const m = c.pairs.map(p => p.a.ca);
+    const t = c.pairs.map(p => p.b.ca);
+    return {
+      chainA: c.chainA,
+      chainB: c.chainB,
+      alignedResidues: c.pairs.length,
+      sequenceIdentity: +c.identity.toFixed(3),
+      rmsd: +rmsdAfter(kabsch(m, t), m, t).toFixed(3),
+    };
+  });
+
+  const residues: ResidueDeviation[] = pairs.map(p => ({
+    chainA: p.chainA,
+    residueSeqA: p.a.resSeq,
+    residueNameA: p.a.resName,
+    chainB: p.chainB,
+    residueSeqB: p.b.resSeq,
+    residueNameB: p.b.resName,
+    deviation: +Math.sqrt(distanceSq(applyTransform(transform, p.a.ca), p.b.ca)).toFixed(3),
+  }));
+
+  const firstModel = atomsA.reduce((min, a) => Math.min(min, a.model), Infinity);
+  const moved = atomsA.filter(a => a.model === firstModel).map(a => ({ ...a, ...applyTransform(transform, a) }));
+
+  return {
+    alignedResidues: pairs.length,
+    rmsd: +rmsd.toFixed(3),
+    tmScore: +Math.min(1, tmScore).toFixed(4),
+    chains: chainStats,
+    residues,
+    rotation: transform.rotation.map(row => row.map(v => +v.toFixed(6))),
+    translation: [transform.translation.x, transform.translation.y, transform.translation.z].map(v => +v.toFixed(4)),
+    superposedContentA: writePDB(moved),
+  };
+}
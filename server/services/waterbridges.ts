@@ -0,0 +1,93 @@
+import type { Atom, Interaction, WaterBridge } from "@shared/schema";
+import { distance, spatialBuckets } from "./geometry";
+import { evaluateHydrogenBond, getPolarType } from "./hbonds";
+import { getResidue, isHydrogen, residueKey, WATER_RESIDUES, type ResidueIndex } from "./structure";
+
+// Water-mediated bridges: one crystallographic water hydrogen-bonded to polar
+// atoms of two different chains, or to a ligand and a (non-ligand) residue.
+
+export function isWater(atom: Atom): boolean {
+  return WATER_RESIDUES.includes(atom.resName);
+}
+
+interface Leg {
+  atom: Atom;
+  distance: number;
+  role: WaterBridge["roleA"];
+}
+
+export interface WaterBridgeContact {
+  water: Atom;
+  legA: Leg;
+  legB: Leg;
+}
+
+function bridges(a: Leg, b: Leg, ligandResidues: Set<string>): boolean {
+  if (a.atom.proteinName !== b.atom.proteinName || a.atom.chainID !== b.atom.chainID) return true;
+  return ligandResidues.has(residueKey(a.atom)) !== ligandResidues.has(residueKey(b.atom));
+}
+
+export function detectWaterBridges(
+  atoms: Atom[],
+  residues: ResidueIndex,
+  ligandResidues: Set<string>,
+  maxDonorAcceptor: number,
+): WaterBridgeContact[] {
+  const waters = atoms.filter(a => isWater(a) && !isHydrogen(a));
+  const polarAtoms = atoms.filter(a => !isWater(a) && getPolarType(a, getResidue(residues, a)) !== null);
+  const near = spatialBuckets(polarAtoms, a => a, Math.max(4.0, maxDonorAcceptor));
+  const contacts: WaterBridgeContact[] = [];
+
+  for (const water of waters) {
+    const legs: Leg[] = [];
+    for (const atom of near(water)) {
+      if (atom.proteinName !== water.proteinName) continue;
+      const hbond = evaluateHydrogenBond(atom, water, residues, maxDonorAcceptor);
+      if (hbond) legs.push({ atom, distance: distance(atom, water), role: hbond.donor === "A" ? "donor" : "acceptor" });
+    }
+
+    // Shortest leg pair per residue pair, so a water H-bonded to several atoms of one residue yields one bridge
+    const best = new Map<string, WaterBridgeContact>();
+    for (let i = 0; i < legs.length; i++) {
+      for (let j = i + 1; j < legs.length; j++) {
+        if (!bridges(legs[i], legs[j], ligandResidues)) continue;
+        const [legA, legB] = residueKey(legs[i].atom) < residueKey(legs[j].atom) ? [legs[i], legs[j]] : [legs[j], legs[i]];
+        const key = `${residueKey(legA.atom)}~${residueKey(legB.atom)}`;
+        const current = best.get(key);
+        if (!current || legA.distance + legB.distance < current.legA.distance + current.legB.distance) {
+          best.set(key, { water, legA, legB });
+        }
+      }
+    }
+    best.forEach(contact => contacts.push(contact));
+  }
+  return contacts;
+}
+
+export function toWaterBridgeInteraction({ water, legA, legB }: WaterBridgeContact): Interaction {
+  const a = legA.atom;
+  const b = legB.atom;
+  return {
+    id: `wb-${water.serial}-${a.serial}-${b.serial}`,
+    proteinA: a.proteinName,
+    proteinB: b.proteinName,
+    chainA: a.chainID,
+    chainB: b.chainID,
+    residueA: `${a.resName} ${a.resSeq}`,
+    residueB: `${b.resName} ${b.resSeq}`,
+    atomA: `${a.name} (${a.element})`,
+    atomB: `${b.name} (${b.element})`,
+    distance: distance(a, b),
+    type: "Water Bridge",
+    isIntraMolecular: a.proteinName === b.proteinName && a.chainID === b.chainID,
+    waterBridge: {
+      waterSerial: water.serial,
+      waterResidue: `${water.resName} ${water.resSeq}`,
+      waterChain: water.chainID,
+      distanceA: Math.round(legA.distance * 100) / 100,
+      distanceB: Math.round(legB.distance * 100) / 100,
+      roleA: legA.role,
+      roleB: legB.role,
+    },
+  };
+}
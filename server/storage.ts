@@ -1,13 +1,145 @@
 import { 
   analysisSessions, 
   type AnalysisSession, 
+  type AnalysisSessionList,
+  type AnalysisResult,
+  type CompareJob,
+  type CompareJobStage,
+  type ComparisonResult,
+  type Interaction,
+  type InteractionPage,
+  type InteractionRecord,
+  type InsertInteractionRecord,
+  type InteractionStats,
+  type ContactMapCell,
   type CreateAnalysisRequest,
+  type ProteinMetadata,
   proteinMetadata,
   interactionTypeCounts,
-  chainPairStats
+  chainPairStats,
+  mutationImpacts,
+  interactions,
+  comparisons
 } from "@shared/schema";
+import { api } from "@shared/routes";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gte, ilike, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { DISTANCE_BINS } from "./services/pdb";
+import type { z } from "zod";
+
+export type AnalysisListQuery = z.infer<typeof api.analysis.list.input>;
+export type InteractionQuery = z.infer<typeof api.analysis.interactions.input>;
+export type CompareRequest = z.infer<typeof api.compare.run.input>;
+export type PairSide = "A" | "B";
+
+// Interaction rows belong to a session or to one side of a comparison's pair
+type InteractionOwner = { sessionId: number } | { comparisonId: number; comparisonSide: PairSide };
+
+function ownerCondition(owner: InteractionOwner): SQL {
+  return 'sessionId' in owner
+    ? eq(interactions.sessionId, owner.sessionId)
+    : and(eq(interactions.comparisonId, owner.comparisonId), eq(interactions.comparisonSide, owner.comparisonSide))!;
+}
+
+// Residue number from a "RES 123" interaction label
+function residueNumber(label: string): number | null {
+  const seq = parseInt(label.split(' ')[1]);
+  return Number.isNaN(seq) ? null : seq;
+}
+
+// Rows are written in chunks to stay under the bind parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+function toInteractionRecord(owner: InteractionOwner, i: Interaction): InsertInteractionRecord {
+  const { id, proteinA, chainA, residueA, atomA, proteinB, chainB, residueB, atomB, distance, type, isIntraMolecular, occupancy, ...details } = i;
+  return {
+    ...owner,
+    interactionId: id,
+    proteinA, chainA, residueA, residueSeqA: residueNumber(residueA), atomA,
+    proteinB, chainB, residueB, residueSeqB: residueNumber(residueB), atomB,
+    distance,
+    type,
+    isIntraMolecular,
+    occupancy: occupancy ?? null,
+    details: Object.keys(details).length > 0 ? details : null,
+  };
+}
+
+function toInteraction(row: InteractionRecord): Interaction {
+  return {
+    id: row.interactionId,
+    proteinA: row.proteinA,
+    chainA: row.chainA,
+    residueA: row.residueA,
+    atomA: row.atomA,
+    proteinB: row.proteinB,
+    chainB: row.chainB,
+    residueB: row.residueB,
+    atomB: row.atomB,
+    distance: row.distance,
+    type: row.type as Interaction["type"],
+    isIntraMolecular: row.isIntraMolecular,
+    ...(row.occupancy !== null ? { occupancy: row.occupancy } : {}),
+    ...(row.details as Partial<Interaction> | null),
+  };
+}
+
+function interactionFilters(owner: InteractionOwner, query: InteractionQuery): SQL[] {
+  const conditions: SQL[] = [ownerCondition(owner)];
+  const types = query.type?.split(',').map(t => t.trim()).filter(Boolean);
+  if (types && types.length > 0) conditions.push(inArray(interactions.type, types));
+  if (query.category === 'intra') conditions.push(eq(interactions.isIntraMolecular, true));
+  if (query.category === 'inter') conditions.push(eq(interactions.isIntraMolecular, false));
+  if (query.distanceMin !== undefined) conditions.push(gte(interactions.distance, query.distanceMin));
+  if (query.distanceMax !== undefined) conditions.push(lte(interactions.distance, query.distanceMax));
+
+  // Chain and residue range must hold on the same side of the pair
+  if (query.chain || query.residueMin !== undefined || query.residueMax !== undefined) {
+    const side = (chain: AnyPgColumn, seq: AnyPgColumn) => and(
+      query.chain ? eq(chain, query.chain) : undefined,
+      query.residueMin !== undefined ? gte(seq, query.residueMin) : undefined,
+      query.residueMax !== undefined ? lte(seq, query.residueMax) : undefined,
+    )!;
+    conditions.push(or(side(interactions.chainA, interactions.residueSeqA), side(interactions.chainB, interactions.residueSeqB))!);
+  }
+
+  const search = query.search?.trim();
+  if (search) {
+    const pattern = `%${search}%`;
+    conditions.push(or(...[
+      interactions.type, interactions.proteinA, interactions.proteinB, interactions.chainA, interactions.chainB,
+      interactions.residueA, interactions.residueB, interactions.atomA, interactions.atomB,
+    ].map(column => ilike(column, pattern)))!);
+  }
+  return conditions;
+}
+
+function toCompareJob(row: Omit<typeof comparisons.$inferSelect, "request" | "pairContentA" | "pairContentB">): CompareJob {
+  return {
+    id: row.id,
+    status: row.status as CompareJob["status"],
+    stage: row.stage as CompareJobStage,
+    progress: row.progress,
+    errorMessage: row.errorMessage,
+    structureCount: row.structureCount,
+    result: row.result as ComparisonResult | null,
+  };
+}
+
+function interactionOrder(sortBy: InteractionQuery["sortBy"]) {
+  switch (sortBy) {
+    case 'residueA':
+      return [interactions.residueSeqA, interactions.residueA];
+    case 'residueB':
+      return [interactions.residueSeqB, interactions.residueB];
+    default:
+      return [interactions[sortBy]];
+  }
+}
+
+// Atom labels are "NAME (ELEMENT)"; hydrogens are matched by element, or by name when the element is blank
+const HYDROGEN_ATOM_LABEL = '\\((H|D)\\)$|^[0-9]*[HD]\\S* \\(\\)$';
 
 export interface IStorage {
   getAnalysisSession(id: number): Promise<AnalysisSession | undefined>;
@@ -15,7 +147,20 @@ export interface IStorage {
   getProteinMetadataByPdbId(pdbId: string): Promise<ProteinMetadata | undefined>;
   createAnalysisSession(session: any): Promise<AnalysisSession>;
   updateAnalysisSessionStatus(id: number, status: string, resultSummary?: any): Promise<void>;
-  listAnalysisSessions(): Promise<AnalysisSession[]>;
+  listAnalysisSessions(query: AnalysisListQuery): Promise<AnalysisSessionList>;
+  renameAnalysisSession(id: number, title: string): Promise<AnalysisSession | undefined>;
+  deleteAnalysisSession(id: number): Promise<boolean>;
+  replaceInteractions(sessionId: number, records: Interaction[]): Promise<void>;
+  getInteractions(sessionId: number, filter?: { intra?: boolean }): Promise<Interaction[]>;
+  getResidueInteractions(sessionId: number, chainId: string, residue: string): Promise<Interaction[]>;
+  getInteractionStats(sessionId: number): Promise<InteractionStats>;
+  queryInteractions(sessionId: number, query: InteractionQuery): Promise<InteractionPage | undefined>;
+  getContactMap(sessionId: number, chainA: { protein: string; chain: string }, chainB: { protein: string; chain: string }): Promise<ContactMapCell[]>;
+  createComparison(request: CompareRequest): Promise<CompareJob>;
+  getComparison(id: number): Promise<CompareJob | undefined>;
+  getComparisonPairContent(id: number, side: PairSide): Promise<string | undefined>;
+  replaceComparisonInteractions(comparisonId: number, side: PairSide, records: Interaction[]): Promise<void>;
+  queryComparisonInteractions(comparisonId: number, side: PairSide, query: InteractionQuery): Promise<InteractionPage | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -45,8 +190,274 @@ export class DatabaseStorage implements IStorage {
       .where(eq(analysisSessions.id, id));
   }
 
-  async listAnalysisSessions(): Promise<AnalysisSession[]> {
-    return await db.select().from(analysisSessions).orderBy(analysisSessions.createdAt);
+  async listAnalysisSessions(query: AnalysisListQuery): Promise<AnalysisSessionList> {
+    const conditions: SQL[] = [];
+    if (query.pdbId) conditions.push(ilike(proteinMetadata.pdbId, `%${query.pdbId}%`));
+    if (query.organism) conditions.push(ilike(proteinMetadata.organism, `%${query.organism}%`));
+    if (query.method) conditions.push(ilike(proteinMetadata.method, `%${query.method}%`));
+    if (query.status) conditions.push(eq(analysisSessions.status, query.status));
+    if (query.from) conditions.push(gte(analysisSessions.createdAt, query.from));
+    if (query.to) conditions.push(lte(analysisSessions.createdAt, query.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(analysisSessions)
+      .leftJoin(proteinMetadata, eq(analysisSessions.proteinId, proteinMetadata.id))
+      .where(where);
+
+    // Only the headline numbers are read out of resultSummary, not the interaction list
+    const items = await db.select({
+      id: analysisSessions.id,
+      proteinId: analysisSessions.proteinId,
+      title: analysisSessions.title,
+      status: analysisSessions.status,
+      stage: analysisSessions.stage,
+      progress: analysisSessions.progress,
+      errorMessage: analysisSessions.errorMessage,
+      config: analysisSessions.config,
+      createdAt: analysisSessions.createdAt,
+      pdbId: proteinMetadata.pdbId,
+      proteinName: proteinMetadata.name,
+      organism: proteinMetadata.organism,
+      method: proteinMetadata.method,
+      summary: sql<AnalysisResult["summary"] | null>`${analysisSessions.resultSummary}->'summary'`,
+      bindingAffinityIndex: sql<number | null>`(${analysisSessions.resultSummary}->'bindingAffinity'->>'bindingAffinityIndex')::float`,
+    })
+      .from(analysisSessions)
+      .leftJoin(proteinMetadata, eq(analysisSessions.proteinId, proteinMetadata.id))
+      .where(where)
+      .orderBy(desc(analysisSessions.createdAt), desc(analysisSessions.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async renameAnalysisSession(id: number, title: string): Promise<AnalysisSession | undefined> {
+    const [session] = await db.update(analysisSessions)
+      .set({ title })
+      .where(eq(analysisSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Removes the session with its dependent statistics; protein metadata is shared and kept
+  async deleteAnalysisSession(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(interactionTypeCounts).where(eq(interactionTypeCounts.sessionId, id));
+      await tx.delete(chainPairStats).where(eq(chainPairStats.sessionId, id));
+      await tx.delete(mutationImpacts).where(eq(mutationImpacts.sessionId, id));
+      await tx.delete(interactions).where(eq(interactions.sessionId, id));
+      const deleted = await tx.delete(analysisSessions).where(eq(analysisSessions.id, id)).returning({ id: analysisSessions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Bulk-writes a session's interactions, replacing rows left by an earlier attempt
+  async replaceInteractions(sessionId: number, records: Interaction[]): Promise<void> {
+    await this.writeInteractions({ sessionId }, records);
+  }
+
+  private async writeInteractions(owner: InteractionOwner, records: Interaction[]): Promise<void> {
+    const rows = records.map(i => toInteractionRecord(owner, i));
+    await db.transaction(async (tx) => {
+      await tx.delete(interactions).where(ownerCondition(owner));
+      for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+        await tx.insert(interactions).values(rows.slice(start, start + INSERT_CHUNK_SIZE));
+      }
+    });
+  }
+
+  async getInteractions(sessionId: number, filter: { intra?: boolean } = {}): Promise<Interaction[]> {
+    const rows = await db.select()
+      .from(interactions)
+      .where(and(
+        eq(interactions.sessionId, sessionId),
+        filter.intra !== undefined ? eq(interactions.isIntraMolecular, filter.intra) : undefined,
+      ))
+      .orderBy(asc(interactions.distance), asc(interactions.id));
+    return rows.map(toInteraction);
+  }
+
+  // Interactions with either side on the given "RES 123" residue
+  async getResidueInteractions(sessionId: number, chainId: string, residue: string): Promise<Interaction[]> {
+    const rows = await db.select()
+      .from(interactions)
+      .where(and(
+        eq(interactions.sessionId, sessionId),
+        or(
+          and(eq(interactions.chainA, chainId), eq(interactions.residueA, residue)),
+          and(eq(interactions.chainB, chainId), eq(interactions.residueB, residue)),
+        ),
+      ))
+      .orderBy(asc(interactions.distance), asc(interactions.id));
+    return rows.map(toInteraction);
+  }
+
+  async getInteractionStats(sessionId: number): Promise<InteractionStats> {
+    const typeRows = await db.select({ type: interactions.type, count: sql<number>`count(*)::int` })
+      .from(interactions)
+      .where(eq(interactions.sessionId, sessionId))
+      .groupBy(interactions.type);
+
+    // Bin index of the first inclusive upper bound the distance fits under
+    const binIndex = sql.join([
+      sql`CASE`,
+      ...DISTANCE_BINS.slice(0, -1).map((bin, index) => sql`WHEN ${interactions.distance} <= ${bin.max} THEN ${index}`),
+      sql`ELSE ${DISTANCE_BINS.length - 1} END`,
+    ], sql` `);
+    const binRows = await db.select({ bin: sql<number>`${binIndex}::int`, count: sql<number>`count(*)::int` })
+      .from(interactions)
+      .where(eq(interactions.sessionId, sessionId))
+      .groupBy(sql`1`);
+
+    const distanceBins = DISTANCE_BINS.map(bin => ({ name: bin.name, count: 0 }));
+    binRows.forEach(row => { distanceBins[row.bin].count = row.count; });
+    return {
+      typeCounts: Object.fromEntries(typeRows.map(row => [row.type, row.count])),
+      distanceBins,
+    };
+  }
+
+  // Filters, sorts and pages a session's interactions; ties fall back to distance
+  async queryInteractions(sessionId: number, query: InteractionQuery): Promise<InteractionPage | undefined> {
+    const [session] = await db.select({ id: analysisSessions.id })
+      .from(analysisSessions)
+      .where(eq(analysisSessions.id, sessionId));
+    if (!session) return undefined;
+    return this.pageInteractions({ sessionId }, query);
+  }
+
+  private async pageInteractions(owner: InteractionOwner, query: InteractionQuery): Promise<InteractionPage> {
+    const where = and(...interactionFilters(owner, query));
+    const direction = query.sortDir === 'desc' ? desc : asc;
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(interactions)
+      .where(where);
+
+    const rows = await db.select()
+      .from(interactions)
+      .where(where)
+      .orderBy(...interactionOrder(query.sortBy).map(column => direction(column)), asc(interactions.distance), asc(interactions.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      items: rows.map(toInteraction),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  // Residue-pair aggregate of heavy-atom contacts from chain A to chain B.
+  // Stored rows may face either way, so both orientations are read; water
+  // bridges are left out because their endpoints are not in contact.
+  async getContactMap(
+    sessionId: number,
+    chainA: { protein: string; chain: string },
+    chainB: { protein: string; chain: string },
+  ): Promise<ContactMapCell[]> {
+    const oriented = async (from: typeof chainA, to: typeof chainA, forward: boolean) => {
+      const [seqFrom, seqTo] = forward
+        ? [interactions.residueSeqA, interactions.residueSeqB]
+        : [interactions.residueSeqB, interactions.residueSeqA];
+      const [labelFrom, labelTo] = forward
+        ? [interactions.residueA, interactions.residueB]
+        : [interactions.residueB, interactions.residueA];
+      return db.select({
+        residueSeqA: seqFrom,
+        labelA: sql<string>`min(${labelFrom})`,
+        residueSeqB: seqTo,
+        labelB: sql<string>`min(${labelTo})`,
+        minDistance: sql<number>`min(${interactions.distance})`,
+        count: sql<number>`count(*)::int`,
+        types: sql<string[]>`array_agg(distinct ${interactions.type})`,
+      })
+        .from(interactions)
+        .where(and(
+          eq(interactions.sessionId, sessionId),
+          eq(forward ? interactions.proteinA : interactions.proteinB, from.protein),
+          eq(forward ? interactions.chainA : interactions.chainB, from.chain),
+          eq(forward ? interactions.proteinB : interactions.proteinA, to.protein),
+          eq(forward ? interactions.chainB : interactions.chainA, to.chain),
+          sql`${interactions.type} <> 'Water Bridge'`,
+          sql`${interactions.residueSeqA} IS NOT NULL AND ${interactions.residueSeqB} IS NOT NULL`,
+          sql`NOT (${interactions.proteinA} = ${interactions.proteinB} AND ${interactions.chainA} = ${interactions.chainB} AND ${interactions.residueA} = ${interactions.residueB})`,
+          sql`${interactions.atomA} !~ ${HYDROGEN_ATOM_LABEL}`,
+          sql`${interactions.atomB} !~ ${HYDROGEN_ATOM_LABEL}`,
+        ))
+        .groupBy(seqFrom, seqTo);
+    };
+
+    const cells = new Map<string, ContactMapCell>();
+    const rows = [...await oriented(chainA, chainB, true), ...await oriented(chainA, chainB, false)];
+    for (const row of rows) {
+      const key = `${row.residueSeqA}|${row.residueSeqB}`;
+      const cell = cells.get(key);
+      if (!cell) {
+        cells.set(key, {
+          residueSeqA: row.residueSeqA!,
+          residueNameA: row.labelA.split(' ')[0],
+          residueSeqB: row.residueSeqB!,
+          residueNameB: row.labelB.split(' ')[0],
+          minDistance: row.minDistance,
+          count: row.count,
+          types: row.types,
+        });
+        continue;
+      }
+      cell.minDistance = Math.min(cell.minDistance, row.minDistance);
+      cell.count += row.count;
+      cell.types = Array.from(new Set(cell.types.concat(row.types)));
+    }
+    return Array.from(cells.values());
+  }
+
+  async createComparison(request: CompareRequest): Promise<CompareJob> {
+    const [row] = await db.insert(comparisons)
+      .values({ title: request.title ?? null, structureCount: request.sources.length, request })
+      .returning();
+    return toCompareJob(row);
+  }
+
+  // Job status and result; the stored request and structure text are left out
+  async getComparison(id: number): Promise<CompareJob | undefined> {
+    const [row] = await db.select({
+      id: comparisons.id,
+      title: comparisons.title,
+      status: comparisons.status,
+      stage: comparisons.stage,
+      progress: comparisons.progress,
+      errorMessage: comparisons.errorMessage,
+      structureCount: comparisons.structureCount,
+      result: comparisons.result,
+      createdAt: comparisons.createdAt,
+    })
+      .from(comparisons)
+      .where(eq(comparisons.id, id));
+    return row ? toCompareJob(row) : undefined;
+  }
+
+  async getComparisonPairContent(id: number, side: PairSide): Promise<string | undefined> {
+    const [row] = await db.select({ content: side === 'A' ? comparisons.pairContentA : comparisons.pairContentB })
+      .from(comparisons)
+      .where(eq(comparisons.id, id));
+    return row?.content ?? undefined;
+  }
+
+  async replaceComparisonInteractions(comparisonId: number, side: PairSide, records: Interaction[]): Promise<void> {
+    await this.writeInteractions({ comparisonId, comparisonSide: side }, records);
+  }
+
+  // Pages one side of a completed comparison's pair, like queryInteractions
+  async queryComparisonInteractions(comparisonId: number, side: PairSide, query: InteractionQuery): Promise<InteractionPage | undefined> {
+    const [comparison] = await db.select({ status: comparisons.status })
+      .from(comparisons)
+      .where(eq(comparisons.id, comparisonId));
+    if (comparison?.status !== 'completed') return undefined;
+    return this.pageInteractions({ comparisonId, comparisonSide: side }, query);
   }
 }
 
@@ -0,0 +1,60 @@
+import { parentPort, workerData } from "worker_threads";
+import type { AnalysisConfig, AnalysisResult } from "@shared/schema";
+import { parseStructure, analyzeInteractions, calculateBindingAffinityIndex } from "./services/pdb";
+import { parseSecondaryStructureRecords } from "./services/secondary";
+import { runComparison, type ComparedSource, type ComparisonOptions, type ComparisonRun, type ComparisonStage } from "./services/comparison";
+
+// Worker thread entry: runs the CPU-bound parse and interaction analysis (or a
+// whole structure comparison) off the request thread and streams progress
+// back to the job runner.
+
+export interface AnalysisWorkerInput {
+  task: "analysis";
+  content: string;
+  name: string;
+  config: AnalysisConfig;
+}
+
+export interface CompareWorkerInput {
+  task: "compare";
+  sources: ComparedSource[];
+  options: ComparisonOptions;
+}
+
+export type WorkerInput = AnalysisWorkerInput | CompareWorkerInput;
+
+export type AnalysisWorkerStage = "parsing" | "analyzing";
+
+export type WorkerMessage =
+  | { type: "progress"; stage: AnalysisWorkerStage | ComparisonStage; fraction: number }
+  | { type: "result"; result: AnalysisResult | ComparisonRun }
+  | { type: "error"; message: string };
+
+function post(message: WorkerMessage) {
+  parentPort!.postMessage(message);
+}
+
+function analyze({ content, name, config }: AnalysisWorkerInput): AnalysisResult {
+  post({ type: "progress", stage: "parsing", fraction: 0 });
+  const atoms = parseStructure(content, name);
+  if (atoms.length === 0) throw new Error("Invalid PDB/mmCIF content: no atoms found");
+
+  post({ type: "progress", stage: "analyzing", fraction: 0 });
+  const result = analyzeInteractions({ [name]: atoms }, config, fraction => {
+    post({ type: "progress", stage: "analyzing", fraction });
+  }, { [name]: parseSecondaryStructureRecords(content) });
+  result.bindingAffinity = calculateBindingAffinityIndex(result);
+  return result;
+}
+
+if (parentPort) {
+  const input = workerData as WorkerInput;
+  try {
+    const result = input.task === "compare"
+      ? runComparison(input.sources, input.options, (stage, fraction) => post({ type: "progress", stage, fraction }))
+      : analyze(input);
+    post({ type: "result", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+}
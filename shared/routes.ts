@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertAnalysisSessionSchema, analysisSessions } from './schema';
+import { insertAnalysisSessionSchema, analysisSessions, AnalysisConfigSchema, type AnalysisSessionList, type CompareJob, type ContactMap, type InteractionNetwork, type InteractionPage } from './schema';
 
 // ============================================
 // SHARED ERROR SCHEMAS
@@ -20,8 +20,60 @@ export const errorSchemas = {
 // ============================================
 // API CONTRACT
 // ============================================
+// Exactly one of pdbId, content or sessionId locates the structure
+const compareSourceSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  pdbId: z.string().trim().length(4).optional(),
+  content: z.string().min(1).optional(),
+  sessionId: z.number().int().positive().optional(),
+}).refine(s => [s.pdbId, s.content, s.sessionId].filter(v => v !== undefined).length === 1, {
+  message: "Provide exactly one of pdbId, content or sessionId",
+  path: ["pdbId"],
+});
+
+// Query string of the paged interaction listings. `type` takes a
+// comma-separated list; `chain` and the residue range must hold on the same
+// side (A or B) of an interaction.
+const interactionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+  sortBy: z.enum(["distance", "type", "proteinA", "chainA", "residueA", "proteinB", "chainB", "residueB", "isIntraMolecular", "occupancy"]).default("distance"),
+  sortDir: z.enum(["asc", "desc"]).default("asc"),
+  type: z.string().optional(),
+  chain: z.string().optional(),
+  residueMin: z.coerce.number().int().optional(),
+  residueMax: z.coerce.number().int().optional(),
+  distanceMin: z.coerce.number().min(0).optional(),
+  distanceMax: z.coerce.number().min(0).optional(),
+  category: z.enum(["all", "intra", "inter"]).default("all"),
+  search: z.string().optional(),
+});
+
+// Indices of two different sources
+const comparePairSchema = z.tuple([z.number().int().min(0), z.number().int().min(0)])
+  .refine(([a, b]) => a !== b, { message: "pair must name two different structures" });
+
 export const api = {
   analysis: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/analysis',
+      // Query string; text filters match case-insensitively on substrings
+      input: z.object({
+        page: z.coerce.number().int().min(1).default(1),
+        pageSize: z.coerce.number().int().min(1).max(100).default(20),
+        pdbId: z.string().optional(),
+        organism: z.string().optional(),
+        method: z.string().optional(),
+        status: z.enum(["pending", "processing", "completed", "failed"]).optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }),
+      responses: {
+        200: z.custom<AnalysisSessionList>(),
+        400: errorSchemas.validation,
+      },
+    },
     create: {
       method: 'POST' as const,
       path: '/api/analysis',
@@ -32,6 +84,7 @@ export const api = {
           filename: z.string().optional(),
         }),
         proteinContent: z.string(), // PDB content
+        config: AnalysisConfigSchema.optional(),
       }),
       responses: {
         201: z.custom<typeof analysisSessions.$inferSelect>(),
@@ -46,6 +99,70 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    rename: {
+      method: 'PATCH' as const,
+      path: '/api/analysis/:id',
+      input: z.object({
+        title: z.string().trim().min(1).max(200),
+      }),
+      responses: {
+        200: z.custom<typeof analysisSessions.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/analysis/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
+    interactions: {
+      method: 'GET' as const,
+      path: '/api/analysis/:id/interactions',
+      input: interactionQuerySchema,
+      responses: {
+        200: z.custom<InteractionPage>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    contactMap: {
+      method: 'GET' as const,
+      path: '/api/analysis/:id/contact-map',
+      // Query string; chains are "PROTEIN:CHAIN" keys and may be the same chain
+      input: z.object({
+        chainA: z.string().min(1),
+        chainB: z.string().min(1),
+      }),
+      responses: {
+        200: z.custom<ContactMap>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    network: {
+      method: 'GET' as const,
+      path: '/api/analysis/:id/network',
+      // Query string. The residue level needs the interface's two chains
+      // ("PROTEIN:CHAIN"); graphml and cytoscape are served as downloads.
+      input: z.object({
+        level: z.enum(["chains", "residues"]).default("chains"),
+        chainA: z.string().optional(),
+        chainB: z.string().optional(),
+        format: z.enum(["json", "graphml", "cytoscape"]).default("json"),
+      }).refine(q => q.level === "chains" || (q.chainA && q.chainB), {
+        message: "chainA and chainB are required for the residue level",
+        path: ["chainA"],
+      }),
+      responses: {
+        200: z.custom<InteractionNetwork>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
     downloadInterProtein: {
       method: 'GET' as const,
       path: '/api/analysis/:id/download/inter-protein',
@@ -69,8 +186,84 @@ export const api = {
         200: z.string(), // Combined PDB or CSV
         404: errorSchemas.notFound,
       }
+    },
+    downloadLigand: {
+      method: 'GET' as const,
+      path: '/api/analysis/:id/download/ligands/:ligandId',
+      responses: {
+        200: z.string(), // CSV of the ligand's contacts
+        404: errorSchemas.notFound,
+      }
     }
   },
+  compare: {
+    run: {
+      method: 'POST' as const,
+      path: '/api/compare',
+      input: z.object({
+        title: z.string().optional(),
+        sources: z.array(compareSourceSchema).min(2, "Provide at least two structures").max(50, "At most 50 structures can be compared"),
+        referenceIndex: z.number().int().min(0).default(0),
+        alignmentMode: z.enum(["global", "local"]).default("global"),
+        clusterBy: z.enum(["interface", "rmsd"]).default("interface"),
+        clusterThreshold: z.number().positive().optional(),
+        pair: comparePairSchema.optional(),
+      }).refine(input => input.referenceIndex < input.sources.length, {
+        message: "referenceIndex must point at one of the sources",
+        path: ["referenceIndex"],
+      }).refine(input => !input.pair || input.pair.every(i => i < input.sources.length), {
+        message: "pair must point at two of the sources",
+        path: ["pair"],
+      }),
+      // Queues the comparison; poll `get` with the returned job id for the result
+      responses: {
+        202: z.custom<CompareJob>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/compare/:id',
+      responses: {
+        200: z.custom<CompareJob>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    // Side-by-side comparison of two structures of an earlier job, queued as a
+    // new job over the same sources
+    pair: {
+      method: 'POST' as const,
+      path: '/api/compare/:id/pair',
+      input: z.object({
+        pair: comparePairSchema,
+      }),
+      responses: {
+        202: z.custom<CompareJob>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Interactions of one side (A or B) of a completed comparison's pair
+    pairInteractions: {
+      method: 'GET' as const,
+      path: '/api/compare/:id/pair/:side/interactions',
+      input: interactionQuerySchema,
+      responses: {
+        200: z.custom<InteractionPage>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    pairStructure: {
+      method: 'GET' as const,
+      path: '/api/compare/:id/pair/:side/structure',
+      responses: {
+        200: z.string(), // PDB or mmCIF text
+        404: errorSchemas.notFound,
+      },
+    },
+  },
 };
 
 // ============================================
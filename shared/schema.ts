@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, doublePrecision, timestamp, jsonb, primaryKey, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, doublePrecision, timestamp, jsonb, boolean, index, primaryKey, foreignKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -24,8 +24,11 @@ export const analysisSessions = pgTable("analysis_sessions", {
   id: serial("id").primaryKey(),
   proteinId: integer("protein_id").references(() => proteinMetadata.id),
   title: text("title").notNull(),
-  status: text("status").notNull().default("pending"), // pending, completed, failed
-  config: jsonb("config"), // Future scope: Analysis parameters
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  stage: text("stage"), // Current job stage: queued, fetching, parsing, analyzing, saving, done
+  progress: integer("progress").notNull().default(0), // Job progress, 0-100
+  errorMessage: text("error_message"), // Failure reason when status is 'failed'
+  config: jsonb("config"), // AnalysisConfig used for the run
   resultSummary: jsonb("result_summary"), // Summary-level interaction data
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -49,6 +52,58 @@ export const chainPairStats = pgTable("chain_pair_stats", {
   interCount: integer("inter_count").notNull(),
   intraCount: integer("intra_count").notNull(),
   avgDistance: doublePrecision("avg_distance"),
+  buriedSurfaceArea: doublePrecision("buried_surface_area"), // Å², distinct chains only
+  interfaceResidueCount: integer("interface_residue_count"), // residues with ΔSASA above threshold
+});
+
+// === 5. INTERACTIONS ===
+// Purpose: One row per detected interaction; the table, query API and CSV exports read from here.
+export const interactions = pgTable("interactions", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => analysisSessions.id), // null for comparison rows
+  comparisonId: integer("comparison_id").references(() => comparisons.id), // set for the pair of a comparison
+  comparisonSide: text("comparison_side"), // 'A' or 'B' of the comparison's pair
+  interactionId: text("interaction_id").notNull(), // Analyzer id, e.g. "ion-12-40"
+  proteinA: text("protein_a").notNull(),
+  chainA: text("chain_a").notNull(),
+  residueA: text("residue_a").notNull(), // "RES 123" label
+  residueSeqA: integer("residue_seq_a"),
+  atomA: text("atom_a").notNull(),
+  proteinB: text("protein_b").notNull(),
+  chainB: text("chain_b").notNull(),
+  residueB: text("residue_b").notNull(),
+  residueSeqB: integer("residue_seq_b"),
+  atomB: text("atom_b").notNull(),
+  distance: doublePrecision("distance").notNull(),
+  type: text("type").notNull(),
+  isIntraMolecular: boolean("is_intra_molecular").notNull(),
+  occupancy: doublePrecision("occupancy"), // Across models; null for single-model analyses
+  details: jsonb("details"), // Type-specific geometry (hbond, ring, saltBridge, metal, halogenBond)
+}, (table) => [
+  index("interactions_session_distance_idx").on(table.sessionId, table.distance),
+  index("interactions_session_type_idx").on(table.sessionId, table.type),
+  index("interactions_session_chain_a_idx").on(table.sessionId, table.chainA, table.residueSeqA),
+  index("interactions_session_chain_b_idx").on(table.sessionId, table.chainB, table.residueSeqB),
+  index("interactions_comparison_distance_idx").on(table.comparisonId, table.comparisonSide, table.distance),
+]);
+
+// === 6. COMPARISONS ===
+// Purpose: Persistent N-way comparison jobs. A comparison in 'pending' or
+// 'processing' state is re-queued on startup; the interactions of its
+// side-by-side pair are stored as interaction rows.
+export const comparisons = pgTable("comparisons", {
+  id: serial("id").primaryKey(),
+  title: text("title"),
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  stage: text("stage").notNull().default("queued"), // queued, fetching, analyzing, comparing, done
+  progress: integer("progress").notNull().default(0),
+  errorMessage: text("error_message"),
+  structureCount: integer("structure_count").notNull(),
+  request: jsonb("request").notNull(), // Submitted sources and options, re-resolved by the job
+  result: jsonb("result"), // ComparisonResult without the pair's interactions
+  pairContentA: text("pair_content_a"), // Structure text of the pair, for visualization
+  pairContentB: text("pair_content_b"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // === FUTURE SCOPE: MUTATION IMPACTS (STUB) ===
@@ -66,6 +121,9 @@ export const insertAnalysisSessionSchema = createInsertSchema(analysisSessions).
   id: true, 
   createdAt: true, 
   status: true,
+  stage: true,
+  progress: true,
+  errorMessage: true,
   resultSummary: true,
 });
 
@@ -82,6 +140,9 @@ export type AnalysisSession = typeof analysisSessions.$inferSelect & {
 };
 export type InteractionTypeCount = typeof interactionTypeCounts.$inferSelect;
 export type ChainPairStat = typeof chainPairStats.$inferSelect;
+export type InteractionRecord = typeof interactions.$inferSelect;
+export type InsertInteractionRecord = typeof interactions.$inferInsert;
+export type ComparisonRecord = typeof comparisons.$inferSelect;
 
 export const ProteinSourceSchema = z.object({
   name: z.string(),
@@ -89,6 +150,60 @@ export const ProteinSourceSchema = z.object({
   filename: z.string().optional(),
 });
 
+export type ProteinSource = z.infer<typeof ProteinSourceSchema>;
+
+// Parsed coordinate record, shared by the PDB and mmCIF parsers
+export type Atom = {
+  serial: number;
+  name: string;
+  altLoc: string;
+  resName: string;
+  chainID: string;
+  resSeq: number;
+  iCode: string;
+  x: number;
+  y: number;
+  z: number;
+  occupancy: number;
+  tempFactor: number;
+  element: string;
+  charge: string;
+  proteinName: string;
+  model: number; // MODEL serial (1 for single-model files)
+  hetero: boolean; // HETATM record
+};
+
+export type StructureFormat = "pdb" | "mmcif";
+
+// Tunable parameters of one analysis run, persisted in analysisSessions.config
+// so the run can be reproduced. Omitted fields fall back to the defaults.
+export const AnalysisConfigSchema = z.object({
+  neighborCutoff: z.number().min(3).max(10).default(5),   // Å, atom-pair search radius
+  polarCutoff: z.number().min(2.5).max(4).default(3.5),   // Å, H-bond donor–acceptor limit
+  hydrophobicResidues: z.array(z.string().trim().min(1).max(3).transform(s => s.toUpperCase()))
+    .default(['ALA', 'VAL', 'LEU', 'ILE', 'MET', 'PHE', 'TRP', 'PRO']),
+  gridSize: z.number().min(3).max(10).default(5),         // Å, spatial hash cell edge
+  // Multi-model (NMR ensemble) handling: one model, every model, or contacts
+  // present in at least `consensusThreshold` of the models
+  modelMode: z.enum(["single", "all", "consensus"]).default("single"),
+  model: z.number().int().min(1).optional(),              // single mode; first model when omitted
+  consensusThreshold: z.number().min(0.05).max(1).default(0.5),
+  // Alternate conformers: keep the best-occupied one per residue, the first listed, or all (flagged)
+  altLocPolicy: z.enum(["highest", "first", "all"]).default("highest"),
+  minOccupancy: z.number().min(0).max(1).default(0),      // atoms below this occupancy are dropped
+  includeWaterContacts: z.boolean().default(false),        // direct water contacts (bridges are always detected)
+}).refine(config => config.gridSize >= config.neighborCutoff, {
+  message: "gridSize must be at least neighborCutoff",
+  path: ["gridSize"],
+});
+
+export type AnalysisConfig = z.infer<typeof AnalysisConfigSchema>;
+export type ModelMode = AnalysisConfig["modelMode"];
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = AnalysisConfigSchema.parse({});
+
+// DSSP states: α/3-10/π helix, strand, isolated bridge, turn, coil
+export const SecondaryStructureCodeSchema = z.enum(["H", "G", "I", "E", "B", "T", "-"]);
+
 // Existing contract types maintained for API compatibility
 export const InteractionTypeSchema = z.enum([
   "Hydrogen Bond",
@@ -96,9 +211,69 @@ export const InteractionTypeSchema = z.enum([
   "Hydrophobic",
   "Van der Waals",
   "Pi-Stacking",
+  "T-Shaped Pi-Stacking",
+  "Cation-Pi",
+  "Ionic Repulsion",
+  "Disulfide Bond",
+  "Metal Coordination",
+  "Halogen Bond",
+  "Water Bridge",
   "Other"
 ]);
 
+// Donor/acceptor assignment and geometry behind a "Hydrogen Bond" call.
+// `donor` names which side of the interaction (atom A or B) donates.
+export const HydrogenBondGeometrySchema = z.object({
+  donor: z.enum(["A", "B"]),
+  hydrogen: z.enum(["explicit", "placed", "none"]),
+  hydrogenAcceptorDistance: z.number().nullable(),
+  dhaAngle: z.number().nullable(),
+  acceptorAngle: z.number().nullable(),
+});
+
+// Ring-centroid geometry for π-stacking and cation–π contacts. `angle` is the
+// ring plane–plane angle (stacking) or normal–cation angle (cation–π).
+export const RingGeometrySchema = z.object({
+  centroidDistance: z.number(),
+  angle: z.number(),
+  offset: z.number(),
+});
+
+// Charged groups behind a "Salt Bridge" / "Ionic Repulsion" call
+export const SaltBridgeGeometrySchema = z.object({
+  charge: z.enum(["attractive", "repulsive"]),
+  groupA: z.string(),
+  groupB: z.string(),
+  centroidDistance: z.number(),
+});
+
+// First coordination shell of a metal ion (one per metal, shared by its bonds)
+export const MetalCoordinationSchema = z.object({
+  metal: z.string(),
+  coordinationNumber: z.number(),
+  geometry: z.string(),
+  coordinatingResidues: z.array(z.string()),
+});
+
+// C–X···A halogen bond; `halogen` names the side (atom A or B) carrying X
+export const HalogenBondGeometrySchema = z.object({
+  halogen: z.enum(["A", "B"]),
+  cxaAngle: z.number(),
+  xayAngle: z.number().nullable(),
+});
+
+// The water and both hydrogen-bond legs behind a "Water Bridge". Side A/B
+// match the interaction endpoints; roles are those of the endpoint atoms.
+export const WaterBridgeSchema = z.object({
+  waterSerial: z.number(),
+  waterResidue: z.string(),
+  waterChain: z.string(),
+  distanceA: z.number(),
+  distanceB: z.number(),
+  roleA: z.enum(["donor", "acceptor"]),
+  roleB: z.enum(["donor", "acceptor"]),
+});
+
 export const InteractionSchema = z.object({
   id: z.string(),
   proteinA: z.string(),
@@ -112,6 +287,97 @@ export const InteractionSchema = z.object({
   distance: z.number(),
   type: InteractionTypeSchema,
   isIntraMolecular: z.boolean(),
+  hbond: HydrogenBondGeometrySchema.optional(),
+  ring: RingGeometrySchema.optional(),
+  saltBridge: SaltBridgeGeometrySchema.optional(),
+  metal: MetalCoordinationSchema.optional(),
+  halogenBond: HalogenBondGeometrySchema.optional(),
+  waterBridge: WaterBridgeSchema.optional(),
+  occupancy: z.number().min(0).max(1).optional(), // Fraction of analyzed models containing the contact
+  // Alternate location ids of the endpoints, set under the "all" altLoc policy
+  altLocA: z.string().optional(),
+  altLocB: z.string().optional(),
+  // DSSP codes of the two residues; absent for non-polymer residues
+  ssA: SecondaryStructureCodeSchema.optional(),
+  ssB: SecondaryStructureCodeSchema.optional(),
+});
+
+// Protein residue lining a ligand pocket
+export const BindingSiteResidueSchema = z.object({
+  chainId: z.string(),
+  residueSeq: z.number(),
+  residueName: z.string(),
+  interactionTypes: z.array(z.string()),
+  contactCount: z.number(),
+  minDistance: z.number(),
+});
+
+// A perceived ligand (non-water, non-ion HETATM residue) and its contacts
+export const BindingSiteSchema = z.object({
+  ligandId: z.string(), // "A:ATP501"
+  proteinName: z.string(),
+  chainId: z.string(),
+  residueName: z.string(),
+  residueSeq: z.number(),
+  atomCount: z.number(),
+  centroid: z.object({ x: z.number(), y: z.number(), z: z.number() }),
+  interactionCounts: z.record(z.string(), z.number()),
+  residues: z.array(BindingSiteResidueSchema),
+});
+
+// What atom selection removed before analysis
+export const ParseReportSchema = z.object({
+  atomsParsed: z.number(),
+  atomsKept: z.number(),
+  altLocPolicy: z.enum(["highest", "first", "all"]),
+  residuesWithAltLocs: z.number(),
+  altLocAtomsDropped: z.number(),
+  minOccupancy: z.number(),
+  lowOccupancyDropped: z.number(),
+});
+
+// Which models of a multi-model file an analysis covered
+export const ModelSelectionSchema = z.object({
+  mode: z.enum(["single", "all", "consensus"]),
+  available: z.array(z.number()),
+  analyzed: z.array(z.number()),
+  consensusThreshold: z.number().optional(),
+});
+
+export const InterfaceResidueSchema = z.object({
+  chainId: z.string(),
+  residueSeq: z.number(),
+  residueName: z.string(),
+  interactionCount: z.number(),
+  interactionTypes: z.array(z.string()),
+});
+
+// Interactions grouped by the structural elements they join (polymer residues only)
+export const SecondaryStructureContactSchema = z.object({
+  elements: z.enum(["Helix–Helix", "Strand–Strand", "Helix–Strand", "Loop-mediated"]),
+  total: z.number(),
+  inter: z.number(),
+});
+
+// One polymer residue of a chain's sequence-ordered interaction profile
+export const ResidueProfileEntrySchema = z.object({
+  residueSeq: z.number(),
+  residueName: z.string(),
+  ss: SecondaryStructureCodeSchema,
+  bFactor: z.number(),
+  intraCount: z.number(),
+  interCount: z.number(),
+  totalCount: z.number(),
+});
+
+// Per-residue solvent accessible surface area (Å²) in the complex and with the chain isolated
+export const ResidueSasaSchema = z.object({
+  residueSeq: z.number(),
+  residueName: z.string(),
+  sasa: z.number(),
+  sasaUnbound: z.number(),
+  deltaSasa: z.number(),
+  isInterface: z.boolean(),
 });
 
 export const AnalysisResultSchema = z.object({
@@ -125,9 +391,16 @@ export const AnalysisResultSchema = z.object({
   }),
   chains: z.array(z.any()),
   interactions: z.array(InteractionSchema),
-  fullInteractionsCount: z.number().optional(),
+  interfaceResidues: z.record(z.string(), z.array(InterfaceResidueSchema)).optional(),
   interactionDensity: z.record(z.string(), z.array(z.any())).optional(),
   chainInteractionSummary: z.array(z.any()).optional(),
+  residueProfile: z.record(z.string(), z.array(ResidueProfileEntrySchema)).optional(),
+  residueSasa: z.record(z.string(), z.array(ResidueSasaSchema)).optional(),
+  secondaryStructureContacts: z.array(SecondaryStructureContactSchema).optional(),
+  metalSites: z.array(MetalCoordinationSchema).optional(),
+  models: ModelSelectionSchema.optional(),
+  parseReport: ParseReportSchema.optional(),
+  bindingSites: z.array(BindingSiteSchema).optional(),
   bindingAffinity: z.object({
     bindingAffinityIndex: z.number(),
     bindingCategory: z.string(),
@@ -136,15 +409,328 @@ export const AnalysisResultSchema = z.object({
 });
 
 export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+// What is persisted in analysisSessions.resultSummary; interactions live in their own table
+export type AnalysisSummary = Omit<AnalysisResult, "interactions">;
 export type Interaction = z.infer<typeof InteractionSchema>;
+export type InterfaceResidue = z.infer<typeof InterfaceResidueSchema>;
+export type ResidueSasa = z.infer<typeof ResidueSasaSchema>;
+export type ResidueProfileEntry = z.infer<typeof ResidueProfileEntrySchema>;
+export type SecondaryStructureCode = z.infer<typeof SecondaryStructureCodeSchema>;
+export type SecondaryStructureContact = z.infer<typeof SecondaryStructureContactSchema>;
+export type HydrogenBondGeometry = z.infer<typeof HydrogenBondGeometrySchema>;
+export type RingGeometry = z.infer<typeof RingGeometrySchema>;
+export type SaltBridgeGeometry = z.infer<typeof SaltBridgeGeometrySchema>;
+export type MetalCoordination = z.infer<typeof MetalCoordinationSchema>;
+export type HalogenBondGeometry = z.infer<typeof HalogenBondGeometrySchema>;
+export type WaterBridge = z.infer<typeof WaterBridgeSchema>;
+export type ModelSelection = z.infer<typeof ModelSelectionSchema>;
+export type ParseReport = z.infer<typeof ParseReportSchema>;
+export type BindingSite = z.infer<typeof BindingSiteSchema>;
+export type BindingSiteResidue = z.infer<typeof BindingSiteResidueSchema>;
 export type CreateAnalysisRequest = {
   title: string;
   proteinSource: { name: string; pdbId?: string; filename?: string };
   proteinContent: string;
 };
 
+// One side of a comparison: an RCSB entry, uploaded PDB/mmCIF content, or the
+// structure of an existing analysis session (re-analyzed with its settings)
+export type CompareSource = {
+  name?: string;
+  pdbId?: string;
+  content?: string;
+  sessionId?: number;
+};
+
+export type AlignmentMode = "global" | "local";
+
+export type ClusterMetric = "interface" | "rmsd";
+
 export type CompareAnalysisRequest = {
-  title: string;
-  sourceA: { name: string; pdbId?: string; content: string };
-  sourceB: { name: string; pdbId?: string; content: string };
+  title?: string;
+  sources: CompareSource[]; // 2–50 structures
+  referenceIndex?: number; // structure the others are measured against; default the first
+  alignmentMode?: AlignmentMode; // for the chain sequence alignments; default global
+  clusterBy?: ClusterMetric;
+  // Average-linkage cut: interface distance (1 − Jaccard) or RMSD in Å
+  clusterThreshold?: number;
+  // Structures shown side by side; default the reference and the best-ranked other
+  pair?: [number, number];
+};
+
+export type ComparedStructure = AnalysisResult & { interactionStats: InteractionStats };
+
+// CA-based superposition of structure A onto structure B. Residues are paired
+// through per-chain sequence alignment; `rmsd` is the Kabsch fit over all
+// pairs, while the TM-score (normalized by B's length) comes from the
+// transform that maximizes it, which also places `superposedContentA` and the
+// per-residue deviations.
+export type ChainSuperposition = {
+  chainA: string;
+  chainB: string;
+  alignedResidues: number;
+  sequenceIdentity: number;
+  rmsd: number; // this chain pair fitted on its own
+};
+
+export type ResidueDeviation = {
+  chainA: string;
+  residueSeqA: number;
+  residueNameA: string;
+  chainB: string;
+  residueSeqB: number;
+  residueNameB: string;
+  deviation: number;
+};
+
+export type Superposition = {
+  alignedResidues: number;
+  rmsd: number;
+  tmScore: number;
+  chains: ChainSuperposition[];
+  residues: ResidueDeviation[];
+  rotation: number[][]; // 3×3, applied as x' = R·x + t
+  translation: number[];
+  superposedContentA: string; // PDB text of A in B's frame
+};
+
+// One column of a pairwise chain alignment; codes are one-letter or '-' for a
+// gap, and the interface flags mark residues in inter-chain interactions
+export type SequenceAlignmentColumn = {
+  codeA: string;
+  codeB: string;
+  residueSeqA: number | null;
+  residueSeqB: number | null;
+  interfaceA: boolean;
+  interfaceB: boolean;
+};
+
+// BLOSUM62 alignment of the observed residues of a paired chain. Identity and
+// similarity are fractions of aligned positions; local alignments only cover
+// the best-scoring segment.
+export type ChainSequenceAlignment = {
+  chainA: string;
+  chainB: string;
+  mode: AlignmentMode;
+  score: number;
+  alignedResidues: number;
+  identity: number;
+  similarity: number;
+  gaps: number;
+  observedA: number;
+  observedB: number;
+  seqresA: string | null; // deposited sequence, when the file has one
+  seqresB: string | null;
+  columns: SequenceAlignmentColumn[];
+};
+
+// Residue-pair diff of the inter-chain contacts, with A as the reference.
+// Chain pairs are labelled in each structure's own chain IDs ("A–B"); a side is
+// null when the chains have no counterpart in the other structure.
+export type ContactResidue = {
+  chain: string;
+  residueSeq: number;
+  residueName: string;
+};
+
+export type InterfaceContact = {
+  residue1: ContactResidue;
+  residue2: ContactResidue;
+  types: string[];
+  interactionCount: number;
+};
+
+export type InterfaceContactStatus = "conserved" | "lost" | "gained";
+
+export type InterfaceContactDiff = {
+  status: InterfaceContactStatus;
+  chainPairA: string | null;
+  chainPairB: string | null;
+  contactA: InterfaceContact | null; // oriented like contactB when both are set
+  contactB: InterfaceContact | null;
+};
+
+export type ChainPairInterfaceSimilarity = {
+  chainPairA: string | null;
+  chainPairB: string | null;
+  contactsA: number;
+  contactsB: number;
+  conserved: number;
+  lost: number;
+  gained: number;
+  jaccard: number;
+  fScore: number;
+};
+
+export type InterfaceDiff = {
+  contactsA: number;
+  contactsB: number;
+  conserved: number;
+  lost: number;
+  gained: number;
+  unmappedA: number; // contacts of A with a residue that has no counterpart in B
+  jaccard: number;
+  fScore: number;
+  chainPairs: ChainPairInterfaceSimilarity[];
+  contacts: InterfaceContactDiff[];
+};
+
+// Full side-by-side comparison of two of the compared structures. The
+// interactions and structure text of each side are served separately.
+export type PairwiseComparison = {
+  nameA: string;
+  nameB: string;
+  resultA: AnalysisSummaryWithStats;
+  resultB: AnalysisSummaryWithStats;
+  // Residues in inter-chain interactions, highlighted in the viewers
+  interfaceResiduesA: ContactResidue[];
+  interfaceResiduesB: ContactResidue[];
+  // null when fewer than three CA pairs could be matched
+  superposition: Superposition | null;
+  sequenceAlignments: ChainSequenceAlignment[];
+  interfaceDiff: InterfaceDiff;
+  comparison: {
+    deltaBAI: number; // A − B
+    percentDiff: number;
+  };
+};
+
+// Headline metrics of one compared structure. Interface metrics count
+// inter-chain interactions; contacts are distinct residue pairs.
+export type ComparedEntry = {
+  index: number; // position in the request's sources
+  name: string;
+  rank: number; // 1 = highest BAI
+  cluster: number;
+  bindingAffinityIndex: number;
+  bindingCategory: string | null;
+  totalInteractions: number;
+  interChainInteractions: number;
+  interfaceContacts: number;
+  interfaceResidues: number;
+  interfaceHydrogenBonds: number;
+  interfaceSaltBridges: number;
+  jaccardToReference: number;
+  rmsdToReference: number | null;
+  interactionStats: InteractionStats;
+};
+
+export type StructureCluster = {
+  id: number;
+  members: number[]; // entry indices
+  representative: number; // member with the smallest mean distance to the others
+};
+
+export type ComparisonResult = {
+  referenceIndex: number;
+  structures: ComparedEntry[]; // in request order
+  // Symmetric matrices over request order; rmsd is the CA Kabsch fit over
+  // sequence-paired residues, null when no chains could be paired
+  similarity: {
+    jaccard: number[][];
+    rmsd: Array<Array<number | null>>;
+  };
+  clustering: {
+    metric: ClusterMetric;
+    threshold: number;
+    clusters: StructureCluster[];
+  };
+  pairIndices: [number, number];
+  pair: PairwiseComparison;
+};
+
+export type CompareJobStage = "queued" | "fetching" | "analyzing" | "comparing" | "done";
+
+// Comparison run by the background job queue, read from the comparisons table
+export type CompareJob = {
+  id: number;
+  status: "pending" | "processing" | "completed" | "failed";
+  stage: CompareJobStage;
+  progress: number; // 0-100
+  errorMessage: string | null;
+  structureCount: number;
+  result: ComparisonResult | null; // set once completed
+};
+
+// Row of the session history list: session columns plus protein metadata and
+// headline numbers read from resultSummary (the full result is not loaded)
+export type AnalysisSessionListItem = Omit<typeof analysisSessions.$inferSelect, "resultSummary"> & {
+  pdbId: string | null;
+  proteinName: string | null;
+  organism: string | null;
+  method: string | null;
+  summary: AnalysisResult["summary"] | null;
+  bindingAffinityIndex: number | null;
+};
+
+export type AnalysisSessionList = {
+  items: AnalysisSessionListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Aggregates behind the interaction type and distance charts
+export type InteractionStats = {
+  typeCounts: Record<string, number>;
+  distanceBins: Array<{ name: string; count: number }>;
+};
+
+// Result as served with a session: persisted summary plus chart aggregates
+export type AnalysisSummaryWithStats = AnalysisSummary & { interactionStats: InteractionStats };
+
+export type InteractionPage = {
+  items: Interaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Residue-by-residue contacts between two chains ("PROTEIN:CHAIN" keys); one
+// cell per residue pair with the closest heavy-atom interaction distance
+export type ContactMapResidue = { residueSeq: number; residueName: string };
+
+export type ContactMapCell = {
+  residueSeqA: number;
+  residueNameA: string;
+  residueSeqB: number;
+  residueNameB: string;
+  minDistance: number;
+  count: number;
+  types: string[];
+};
+
+// Force-directed network views; residue node ids are "PROTEIN:CHAIN:SEQ"
+export type NetworkNode = {
+  id: string;
+  label: string;
+  chain: string; // "PROTEIN:CHAIN"
+  residueSeq?: number;
+  residueName?: string;
+  weight: number; // contacts involving the node
+};
+
+export type NetworkEdge = {
+  source: string;
+  target: string;
+  weight: number; // contacts between the endpoints
+  type: string; // most specific type present, used for colouring
+  types: string[];
+  typeCounts?: Record<string, number>;
+  minDistance?: number;
+  buriedSurfaceArea?: number;
+};
+
+export type InteractionNetwork = {
+  level: "chains" | "residues";
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+};
+
+export type ContactMap = {
+  chainA: string;
+  chainB: string;
+  residuesA: ContactMapResidue[];
+  residuesB: ContactMapResidue[];
+  contacts: ContactMapCell[];
 };